@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+/**
+ * Compile and run the unit tests in test/ with the Node test runner.
+ * Given a base URL, the deployed worker is smoke-tested afterwards:
+ *
+ *   node scripts/test.js
+ *   node scripts/test.js https://hotel-chat.example.workers.dev
+ */
+const { spawnSync } = require("child_process");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+const root = path.resolve(__dirname, "..");
+
+function run(args, env) {
+  const result = spawnSync(process.execPath, args, {
+    cwd: root,
+    stdio: "inherit",
+    env: { ...process.env, ...env },
+  });
+  return result.status === 0;
+}
+
+function findTests(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findTests(file);
+    return entry.name.endsWith(".test.js") ? [file] : [];
+  });
+}
+
+function runUnitTests() {
+  const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "hotel-chat-test-"));
+  try {
+    const compiled = run([
+      require.resolve("typescript/bin/tsc"),
+      "-p",
+      "tsconfig.test.json",
+      "--outDir",
+      outDir,
+    ]);
+    if (!compiled) return false;
+
+    // The compiled files live outside the repo, so dependencies are resolved from here
+    return run(["--test", ...findTests(path.join(outDir, "test"))], {
+      NODE_PATH: path.join(root, "node_modules"),
+    });
+  } finally {
+    fs.rmSync(outDir, { recursive: true, force: true });
+  }
+}
+
+async function runSmokeTest(baseUrl) {
+  const url = new URL("/v1/health", baseUrl);
+  const response = await fetch(url);
+  const body = await response.json().catch(() => null);
+  if (!response.ok || body?.status !== "healthy") {
+    console.error(`Smoke test failed: GET ${url} answered ${response.status}`);
+    return false;
+  }
+  console.log(`Smoke test passed: GET ${url} is healthy`);
+  return true;
+}
+
+async function main() {
+  const baseUrl = process.argv[2];
+  if (!runUnitTests()) {
+    process.exitCode = 1;
+    return;
+  }
+  if (baseUrl && !(await runSmokeTest(baseUrl))) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
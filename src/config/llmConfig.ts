@@ -1,15 +1,18 @@
-import { LLMProviderType } from "../types";
+import { LLMProviderConfig, LLMProviderType } from "../types";
 
 export interface TaskLLMConfig {
   model: string;
   provider: LLMProviderType;
   temperature: number;
   maxTokens?: number;
+  timeoutMs?: number; // Per-call deadline, defaults to LLM_RESILIENCE_CONFIG.timeoutMs
+  toolCalling?: boolean; // Set to false for models without tool support
   alternative: {
     model: string;
     provider: LLMProviderType;
     temperature: number;
     maxTokens?: number;
+    toolCalling?: boolean;
   };
 }
 
@@ -18,13 +21,51 @@ export interface LLMTaskConfigs {
   emailTask: TaskLLMConfig;
   guestServiceTask: TaskLLMConfig;
   excelSheetMatchingTask: TaskLLMConfig;
+  summarizationTask: TaskLLMConfig;
+  guestProfileTask: TaskLLMConfig;
+  escalationTask: TaskLLMConfig;
+  sheetCatalogueTask: TaskLLMConfig;
 }
 
+export interface EmbeddingConfig {
+  model: string;
+  provider: LLMProviderType; // Must implement createEmbeddings
+  dimensions?: number;
+  batchSize: number; // Inputs per embeddings request
+  timeoutMs: number;
+}
+
+export interface LLMResilienceConfig {
+  timeoutMs: number; // Deadline for a single provider call
+  totalTimeoutMs: number; // Deadline for a whole fallback chain, retries and backoff included
+  maxRetries: number; // Retries per chain entry on 429/5xx/timeouts
+  baseDelayMs: number; // First backoff delay, doubled on every retry
+  maxDelayMs: number;
+  circuitBreaker: {
+    failureThreshold: number; // Consecutive failures before a provider is skipped
+    cooldownMs: number; // How long a provider is skipped before it is tried again
+  };
+}
+
+export const LLM_RESILIENCE_CONFIG: LLMResilienceConfig = {
+  timeoutMs: 30000,
+  // Per chain; all chains of a chat turn also share the turn's deadline (TURN_LLM_DEADLINE_MS)
+  totalTimeoutMs: 60000,
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 4000,
+  circuitBreaker: {
+    failureThreshold: 5,
+    cooldownMs: 30000,
+  },
+};
+
 export const LLM_TASK_CONFIGS: LLMTaskConfigs = {
   buttonsTask: {
     model: "tngtech/deepseek-r1t2-chimera:free",
     provider: "openrouter",
     temperature: 0.7,
+    toolCalling: false,
     alternative: {
       model: "gemini-2.5-flash-lite-preview-06-17",
       provider: "google",
@@ -55,12 +96,119 @@ export const LLM_TASK_CONFIGS: LLMTaskConfigs = {
     model: "tngtech/deepseek-r1t2-chimera:free",
     provider: "openrouter",
     temperature: 0.7,
+    toolCalling: false,
     alternative: {
       model: "gemini-2.5-flash-lite-preview-06-17",
       provider: "google",
       temperature: 0.7,
     },
   },
+  summarizationTask: {
+    model: "gemini-2.5-flash-lite",
+    provider: "google",
+    temperature: 0.2,
+    maxTokens: 600,
+    alternative: {
+      model: "gpt-4.1-nano",
+      provider: "openai",
+      temperature: 0.2,
+      maxTokens: 600,
+    },
+  },
+  guestProfileTask: {
+    model: "gemini-2.5-flash-lite",
+    provider: "google",
+    temperature: 0,
+    alternative: {
+      model: "gpt-4.1-nano",
+      provider: "openai",
+      temperature: 0,
+    },
+  },
+  escalationTask: {
+    model: "gemini-2.5-flash-lite",
+    provider: "google",
+    temperature: 0,
+    maxTokens: 200,
+    alternative: {
+      model: "gpt-4.1-nano",
+      provider: "openai",
+      temperature: 0,
+      maxTokens: 200,
+    },
+  },
+  sheetCatalogueTask: {
+    model: "gemini-2.5-flash",
+    provider: "google",
+    temperature: 0.2,
+    maxTokens: 800,
+    alternative: {
+      model: "gpt-4.1-mini",
+      provider: "openai",
+      temperature: 0.2,
+      maxTokens: 800,
+    },
+  },
+};
+
+// Sheet rows and guest messages must be embedded with the same model and dimensions;
+// changing either re-embeds every indexed sheet on its next refresh
+export const EMBEDDING_CONFIG: EmbeddingConfig = {
+  model: "text-embedding-3-small",
+  provider: "openai",
+  dimensions: 256,
+  batchSize: 100,
+  timeoutMs: 15000,
+};
+
+// Cheaper models used once a tenant passes a soft budget limit
+export const BUDGET_LLM_TASK_CONFIGS: LLMTaskConfigs = {
+  buttonsTask: {
+    model: "gemini-2.5-flash-lite",
+    provider: "google",
+    temperature: 0.7,
+    alternative: {
+      model: "gpt-4.1-nano",
+      provider: "openai",
+      temperature: 0.7,
+    },
+  },
+  emailTask: {
+    model: "gpt-4.1-mini",
+    provider: "openai",
+    temperature: 0.7,
+    alternative: {
+      model: "gemini-2.5-flash-lite",
+      provider: "google",
+      temperature: 0.7,
+    },
+  },
+  guestServiceTask: {
+    model: "gemini-2.5-flash-lite",
+    provider: "google",
+    temperature: 0.7,
+    alternative: {
+      model: "gpt-4.1-nano",
+      provider: "openai",
+      temperature: 0.7,
+    },
+  },
+  excelSheetMatchingTask: {
+    model: "gemini-2.5-flash-lite",
+    provider: "google",
+    temperature: 0.7,
+    alternative: {
+      model: "gpt-4.1-nano",
+      provider: "openai",
+      temperature: 0.7,
+    },
+  },
+  // Already the cheapest models
+  summarizationTask: LLM_TASK_CONFIGS.summarizationTask,
+  guestProfileTask: LLM_TASK_CONFIGS.guestProfileTask,
+  escalationTask: LLM_TASK_CONFIGS.escalationTask,
+  // Run by admins, not on guest requests
+  sheetCatalogueTask: LLM_TASK_CONFIGS.sheetCatalogueTask,
 };
 
 /**
@@ -87,3 +235,35 @@ export function getLLMConfigWithOverrides(
     ...overrides,
   };
 }
+
+/**
+ * Build the ordered list of models to try for a task: primary first, then the alternative
+ * @param config - Task LLM configuration
+ * @returns Provider configs in fallback order, without duplicates
+ */
+export function buildFallbackChain(config: TaskLLMConfig): LLMProviderConfig[] {
+  const chain: LLMProviderConfig[] = [
+    {
+      provider: config.provider,
+      model: config.model,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      toolCalling: config.toolCalling,
+    },
+    {
+      provider: config.alternative.provider,
+      model: config.alternative.model,
+      temperature: config.alternative.temperature,
+      maxTokens: config.alternative.maxTokens,
+      toolCalling: config.alternative.toolCalling,
+    },
+  ];
+
+  return chain.filter(
+    (entry, index) =>
+      chain.findIndex(
+        (other) =>
+          other.provider === entry.provider && other.model === entry.model
+      ) === index
+  );
+}
@@ -0,0 +1,92 @@
+import { LLMProviderType } from "../types";
+
+export interface ModelPrice {
+  prompt: number; // USD per 1M uncached prompt tokens
+  completion: number; // USD per 1M completion tokens
+  cachedPrompt?: number; // USD per 1M cached prompt tokens, defaults to the prompt rate
+}
+
+// Date the prices below were last checked against the providers' pricing pages
+export const MODEL_PRICING_UPDATED_AT = "2025-07-01";
+
+/**
+ * List prices per provider and model. Lookups match the longest model prefix, so
+ * dated snapshots such as "gpt-4o-2024-08-06" are billed at the "gpt-4o" rate.
+ */
+export const MODEL_PRICING: Record<
+  LLMProviderType,
+  Record<string, ModelPrice>
+> = {
+  openai: {
+    "gpt-4o": { prompt: 2.5, completion: 10, cachedPrompt: 1.25 },
+    "gpt-4o-mini": { prompt: 0.15, completion: 0.6, cachedPrompt: 0.075 },
+    "gpt-4.1": { prompt: 2, completion: 8, cachedPrompt: 0.5 },
+    "gpt-4.1-mini": { prompt: 0.4, completion: 1.6, cachedPrompt: 0.1 },
+    "gpt-4.1-nano": { prompt: 0.1, completion: 0.4, cachedPrompt: 0.025 },
+    "gpt-3.5-turbo": { prompt: 0.5, completion: 1.5 },
+    "text-embedding-3-small": { prompt: 0.02, completion: 0 },
+  },
+  google: {
+    "gemini-2.5-pro": { prompt: 1.25, completion: 10, cachedPrompt: 0.31 },
+    "gemini-2.5-flash": { prompt: 0.3, completion: 2.5, cachedPrompt: 0.075 },
+    "gemini-2.5-flash-lite": {
+      prompt: 0.1,
+      completion: 0.4,
+      cachedPrompt: 0.025,
+    },
+    "gemini-2.0-flash": { prompt: 0.1, completion: 0.4, cachedPrompt: 0.025 },
+  },
+  anthropic: {
+    "claude-3-5-sonnet": { prompt: 3, completion: 15, cachedPrompt: 0.3 },
+    "claude-3-5-haiku": { prompt: 0.8, completion: 4, cachedPrompt: 0.08 },
+    "claude-3-7-sonnet": { prompt: 3, completion: 15, cachedPrompt: 0.3 },
+    "claude-sonnet-4": { prompt: 3, completion: 15, cachedPrompt: 0.3 },
+  },
+  openrouter: {
+    "openai/gpt-4o": { prompt: 2.5, completion: 10, cachedPrompt: 1.25 },
+    "openai/gpt-4o-mini": {
+      prompt: 0.15,
+      completion: 0.6,
+      cachedPrompt: 0.075,
+    },
+    "openai/gpt-4.1-mini": { prompt: 0.4, completion: 1.6, cachedPrompt: 0.1 },
+    "google/gemini-2.5-flash": {
+      prompt: 0.3,
+      completion: 2.5,
+      cachedPrompt: 0.075,
+    },
+    "anthropic/claude-3.5-sonnet": { prompt: 3, completion: 15 },
+  },
+  groq: {
+    "llama-3.3-70b-versatile": { prompt: 0.59, completion: 0.79 },
+    "llama-3.1-70b-versatile": { prompt: 0.59, completion: 0.79 },
+    "llama-3.1-8b-instant": { prompt: 0.05, completion: 0.08 },
+  },
+};
+
+// OpenRouter's free model variants
+const FREE_MODEL_SUFFIX = ":free";
+
+/**
+ * Look up the price of a model
+ * @param provider - Provider that served the request
+ * @param model - Model name as reported by the provider
+ * @returns The price, or null when the model is not in the table
+ */
+export function getModelPrice(
+  provider: LLMProviderType,
+  model: string
+): ModelPrice | null {
+  if (provider === "openrouter" && model.endsWith(FREE_MODEL_SUFFIX)) {
+    return { prompt: 0, completion: 0 };
+  }
+
+  // Anthropic reports dated snapshots (claude-3-5-sonnet-20241022), Google may prefix "models/"
+  const normalizedModel = model.replace(/^models\//, "");
+  const prices = MODEL_PRICING[provider];
+  const match = Object.keys(prices)
+    .filter((name) => normalizedModel.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? prices[match] : null;
+}
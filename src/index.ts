@@ -1,5 +1,163 @@
-import { Env, ChatRequest } from "./types";
-import { ChatHandler } from "./services/chatHandler";
+import { Env } from "./types";
+import { Router } from "./router";
+import { handleChat, handleGetStaffReplies } from "./routes/chat";
+import { handleHealthCheck, handleReadinessCheck } from "./routes/health";
+import {
+  handleApproveCatalogue,
+  handleCreateTenant,
+  handleDeleteCatalogue,
+  handleDeleteKnowledgeUpload,
+  handleDeleteTenant,
+  handleEraseSession,
+  handleExportSession,
+  handleGenerateCatalogue,
+  handleGetCatalogue,
+  handleGetKnowledgeUpload,
+  handleGetTenant,
+  handleGetTenantSpend,
+  handleGetTenantVersion,
+  handleListAuditRecords,
+  handleListKnowledgeChanges,
+  handleListKnowledgeUploads,
+  handleListTenants,
+  handleListTenantVersions,
+  handlePutKnowledgeUpload,
+  handleRollbackTenant,
+  handleSyncKnowledge,
+  handleUpdateCatalogue,
+  handleUpdateTenant,
+} from "./routes/admin";
+import {
+  handleEndHandoff,
+  handleGetConversation,
+  handleListHandoffs,
+  handlePostStaffReply,
+  handleStartHandoff,
+} from "./routes/staff";
+import {
+  handleRefreshKnowledge,
+  handleRefreshKnowledgeSheet,
+} from "./routes/webhooks";
+import { errorResponse, handleCORS } from "./utils/http";
+import { withAdminAuth, withTenantSecretAuth } from "./utils/auth";
+import { KnowledgeSyncService } from "./services/knowledgeSyncService";
+
+// Durable Object classes must be exported from the entry module
+export { SessionCoordinator } from "./services/sessionCoordinator";
+
+const router = new Router()
+  .post("/v1/chat", handleChat)
+  .get("/v1/chat/sessions/:sessionId/replies", handleGetStaffReplies)
+  .get("/v1/health", handleHealthCheck)
+  .get("/v1/health/ready", handleReadinessCheck)
+  .get("/v1/admin/tenants", withAdminAuth(handleListTenants))
+  .post("/v1/admin/tenants", withAdminAuth(handleCreateTenant))
+  .get("/v1/admin/tenants/:tenantId", withAdminAuth(handleGetTenant))
+  .put("/v1/admin/tenants/:tenantId", withAdminAuth(handleUpdateTenant))
+  .patch("/v1/admin/tenants/:tenantId", withAdminAuth(handleUpdateTenant))
+  .delete("/v1/admin/tenants/:tenantId", withAdminAuth(handleDeleteTenant))
+  .get(
+    "/v1/admin/tenants/:tenantId/versions",
+    withAdminAuth(handleListTenantVersions)
+  )
+  .get(
+    "/v1/admin/tenants/:tenantId/versions/:version",
+    withAdminAuth(handleGetTenantVersion)
+  )
+  .post(
+    "/v1/admin/tenants/:tenantId/versions/:version/rollback",
+    withAdminAuth(handleRollbackTenant)
+  )
+  .get("/v1/admin/tenants/:tenantId/spend", withAdminAuth(handleGetTenantSpend))
+  .get(
+    "/v1/admin/tenants/:tenantId/sessions/:sessionId/export",
+    withAdminAuth(handleExportSession)
+  )
+  .delete(
+    "/v1/admin/tenants/:tenantId/sessions/:sessionId",
+    withAdminAuth(handleEraseSession)
+  )
+  .get(
+    "/v1/admin/tenants/:tenantId/audit",
+    withAdminAuth(handleListAuditRecords)
+  )
+  .get(
+    "/v1/admin/tenants/:tenantId/knowledge",
+    withAdminAuth(handleListKnowledgeUploads)
+  )
+  .get(
+    "/v1/admin/tenants/:tenantId/knowledge/:name",
+    withAdminAuth(handleGetKnowledgeUpload)
+  )
+  .put(
+    "/v1/admin/tenants/:tenantId/knowledge/:name",
+    withAdminAuth(handlePutKnowledgeUpload)
+  )
+  .delete(
+    "/v1/admin/tenants/:tenantId/knowledge/:name",
+    withAdminAuth(handleDeleteKnowledgeUpload)
+  )
+  .post(
+    "/v1/admin/tenants/:tenantId/knowledge-sync",
+    withAdminAuth(handleSyncKnowledge)
+  )
+  .get(
+    "/v1/admin/tenants/:tenantId/knowledge-changes",
+    withAdminAuth(handleListKnowledgeChanges)
+  )
+  .get(
+    "/v1/admin/tenants/:tenantId/catalogue",
+    withAdminAuth(handleGetCatalogue)
+  )
+  .post(
+    "/v1/admin/tenants/:tenantId/catalogue",
+    withAdminAuth(handleGenerateCatalogue)
+  )
+  .put(
+    "/v1/admin/tenants/:tenantId/catalogue",
+    withAdminAuth(handleUpdateCatalogue)
+  )
+  .delete(
+    "/v1/admin/tenants/:tenantId/catalogue",
+    withAdminAuth(handleDeleteCatalogue)
+  )
+  .post(
+    "/v1/admin/tenants/:tenantId/catalogue/approve",
+    withAdminAuth(handleApproveCatalogue)
+  )
+  .post(
+    "/v1/webhooks/tenants/:tenantId/knowledge",
+    withTenantSecretAuth("knowledge-webhook-secret", handleRefreshKnowledge)
+  )
+  .post(
+    "/v1/webhooks/tenants/:tenantId/knowledge/:sheetName",
+    withTenantSecretAuth(
+      "knowledge-webhook-secret",
+      handleRefreshKnowledgeSheet
+    )
+  )
+  .get(
+    "/v1/staff/tenants/:tenantId/handoffs",
+    withTenantSecretAuth("staff-api-key", handleListHandoffs)
+  )
+  .get(
+    "/v1/staff/tenants/:tenantId/sessions/:sessionId",
+    withTenantSecretAuth("staff-api-key", handleGetConversation)
+  )
+  .post(
+    "/v1/staff/tenants/:tenantId/sessions/:sessionId/handoff",
+    withTenantSecretAuth("staff-api-key", handleStartHandoff)
+  )
+  .delete(
+    "/v1/staff/tenants/:tenantId/sessions/:sessionId/handoff",
+    withTenantSecretAuth("staff-api-key", handleEndHandoff)
+  )
+  .post(
+    "/v1/staff/tenants/:tenantId/sessions/:sessionId/messages",
+    withTenantSecretAuth("staff-api-key", handlePostStaffReply)
+  )
+  // Legacy widget integrations post chat messages to the root path
+  .post("/", handleChat);
 
 export default {
   async fetch(
@@ -12,87 +170,27 @@ export default {
       return handleCORS();
     }
 
-    // Only allow POST requests
-    if (request.method !== "POST") {
-      return new Response("Method not allowed", {
-        status: 405,
-        headers: { "Content-Type": "application/json" },
-      });
+    try {
+      return await router.handle(request, env, ctx);
+    } catch (error) {
+      console.error("Unhandled error while routing request:", error);
+      return errorResponse(500, "Internal server error");
     }
+  },
 
+  // Cron Trigger: pre-warm the knowledge cache and detect sheet changes
+  async scheduled(controller: ScheduledController, env: Env): Promise<void> {
     try {
-      // Parse request body
-      const chatRequest: ChatRequest = await request.json();
-
-      // Validate required fields
-      if (!chatRequest.sessionId || !chatRequest.message) {
-        return new Response(
-          JSON.stringify({
-            error: "Missing required fields: sessionId and message",
-          }),
-          {
-            status: 400,
-            headers: getCORSHeaders(),
-          }
-        );
-      }
-
-      // Process chat using ChatHandler
-      const chatHandler = new ChatHandler(env);
-      const response = await chatHandler.processChat(chatRequest);
-
-      // Return response
-      return new Response(JSON.stringify(response), {
-        status: 200,
-        headers: getCORSHeaders(),
+      const results = await new KnowledgeSyncService(env).syncAllTenants();
+      results.forEach((result) => {
+        if (result.status === "synced") {
+          console.log(
+            `Knowledge sync for ${result.tenantId}: ${result.checkedSheets} sheets checked, ${result.changes.length} changed, ${result.errors.length} failed`
+          );
+        }
       });
     } catch (error) {
-      console.error("Error processing chat request:", error);
-
-      // Return error response
-      return new Response(
-        JSON.stringify({
-          error: "Internal server error",
-          message:
-            "Przepraszam, wystąpił problem techniczny. Spróbuj ponownie lub skontaktuj się z recepcją hotelu.",
-        }),
-        {
-          status: 500,
-          headers: getCORSHeaders(),
-        }
-      );
+      console.error(`Knowledge sync (${controller.cron}) failed:`, error);
     }
   },
 };
-
-function handleCORS(): Response {
-  return new Response(null, {
-    status: 200,
-    headers: getCORSHeaders(),
-  });
-}
-
-function getCORSHeaders(): Headers {
-  const headers = new Headers();
-  headers.set("Content-Type", "application/json");
-  headers.set("Access-Control-Allow-Origin", "*");
-  headers.set("Access-Control-Allow-Methods", "POST, OPTIONS");
-  headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
-  headers.set("Access-Control-Max-Age", "86400");
-  return headers;
-}
-
-// Health check endpoint
-export async function handleHealthCheck(): Promise<Response> {
-  return new Response(
-    JSON.stringify({
-      status: "healthy",
-      timestamp: new Date().toISOString(),
-      service: "Hotel Chat Agent",
-    }),
-    {
-      status: 200,
-      headers: getCORSHeaders(),
-    }
-  );
-}
@@ -0,0 +1,114 @@
+import { Env } from "./types";
+import { errorResponse } from "./utils/http";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface RouteContext {
+  request: Request;
+  env: Env;
+  ctx: ExecutionContext;
+  url: URL;
+  params: Record<string, string>;
+}
+
+export type RouteHandler = (context: RouteContext) => Promise<Response>;
+
+interface Route {
+  method: HttpMethod;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: RouteHandler;
+}
+
+/**
+ * Minimal path router supporting `:param` segments.
+ * Unknown paths resolve to 404 and known paths with the wrong method to 405.
+ */
+export class Router {
+  private routes: Route[] = [];
+
+  on(method: HttpMethod, path: string, handler: RouteHandler): this {
+    const paramNames: string[] = [];
+    const source = path
+      .split("/")
+      .map((segment) => {
+        if (segment.startsWith(":")) {
+          paramNames.push(segment.slice(1));
+          return "([^/]+)";
+        }
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      })
+      .join("/");
+
+    this.routes.push({
+      method,
+      pattern: new RegExp(`^${source}/?$`),
+      paramNames,
+      handler,
+    });
+    return this;
+  }
+
+  get(path: string, handler: RouteHandler): this {
+    return this.on("GET", path, handler);
+  }
+
+  post(path: string, handler: RouteHandler): this {
+    return this.on("POST", path, handler);
+  }
+
+  put(path: string, handler: RouteHandler): this {
+    return this.on("PUT", path, handler);
+  }
+
+  patch(path: string, handler: RouteHandler): this {
+    return this.on("PATCH", path, handler);
+  }
+
+  delete(path: string, handler: RouteHandler): this {
+    return this.on("DELETE", path, handler);
+  }
+
+  async handle(
+    request: Request,
+    env: Env,
+    ctx: ExecutionContext
+  ): Promise<Response> {
+    const url = new URL(request.url);
+    const allowedMethods: HttpMethod[] = [];
+
+    for (const route of this.routes) {
+      const match = url.pathname.match(route.pattern);
+      if (!match) continue;
+
+      if (route.method !== request.method) {
+        allowedMethods.push(route.method);
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      try {
+        route.paramNames.forEach((name, index) => {
+          params[name] = decodeURIComponent(match[index + 1]);
+        });
+      } catch {
+        // A malformed percent-escape is the client's fault, not a server error
+        return errorResponse(400, "Malformed path", { path: url.pathname });
+      }
+
+      return route.handler({ request, env, ctx, url, params });
+    }
+
+    if (allowedMethods.length > 0) {
+      const allow = [...allowedMethods, "OPTIONS"].join(", ");
+      return errorResponse(
+        405,
+        "Method not allowed",
+        { method: request.method, allowed: allowedMethods },
+        { Allow: allow }
+      );
+    }
+
+    return errorResponse(404, "Not found", { path: url.pathname });
+  }
+}
@@ -0,0 +1,822 @@
+import { RouteContext } from "../router";
+import {
+  TenantConfigService,
+  TenantConfigVersion,
+} from "../services/tenantConfigService";
+import {
+  DailySpendRecord,
+  SessionSpend,
+  SpendService,
+  SpendTotals,
+  toSpendDate,
+} from "../services/spendService";
+import {
+  DataSubjectService,
+  SessionErasureResult,
+} from "../services/dataSubjectService";
+import { SessionBusyError } from "../services/sessionCoordinator";
+import { AuditLogService } from "../services/auditLogService";
+import {
+  CatalogueReviewResult,
+  SheetCatalogue,
+  SheetCatalogueService,
+} from "../services/sheetCatalogueService";
+import { KnowledgeSyncService } from "../services/knowledgeSyncService";
+import { knowledgeSyncResponse } from "./webhooks";
+import {
+  KnowledgeUploadFormat,
+  KnowledgeUploadStore,
+} from "../services/knowledge";
+import { TenantConfig } from "../tasks/dataCollectionTask";
+import { MODEL_PRICING_UPDATED_AT } from "../config/modelPricing";
+import { Env } from "../types";
+import { errorResponse, jsonResponse, readJsonBody } from "../utils/http";
+import {
+  FieldError,
+  RESERVED_TENANT_IDS,
+  isValidTenantId,
+  validateCatalogueSheets,
+  validateTenantConfig,
+} from "../utils/tenantConfigValidator";
+import {
+  REDACTED_SECRET,
+  hasPlaintextSecrets,
+  isTenantSecretField,
+  redactConfigDiff,
+  redactTenantConfig,
+} from "../utils/tenantSecrets";
+
+/**
+ * Identify who made a change from the X-Admin-User header
+ */
+function getAuthor(request: Request): string {
+  return request.headers.get("X-Admin-User")?.trim() || "admin";
+}
+
+function validationErrorResponse(errors: FieldError[]): Response {
+  return errorResponse(422, "Validation failed", { fields: errors });
+}
+
+function invalidTenantIdResponse(tenantId: unknown): Response {
+  return validationErrorResponse([
+    {
+      field: "tenantId",
+      message: `Invalid tenant ID "${String(
+        tenantId
+      )}" - use 1-64 letters, digits, ".", "_" or "-", other than ${[
+        ...RESERVED_TENANT_IDS,
+      ].join(", ")}`,
+    },
+  ]);
+}
+
+/**
+ * API keys are write-only: they are accepted in plaintext but never returned
+ */
+function redactVersionRecord(record: TenantConfigVersion): TenantConfigVersion {
+  return {
+    ...record,
+    config: redactTenantConfig(record.config),
+    diff: redactConfigDiff(record.diff),
+  };
+}
+
+/**
+ * Check API keys in a config about to be stored
+ * @returns An error response, or null when the config can be saved
+ */
+function checkSecrets(
+  env: Env,
+  config: TenantConfig,
+  fieldPrefix = ""
+): Response | null {
+  const redactedFields = Object.entries(config)
+    .filter(
+      ([field, value]) =>
+        isTenantSecretField(field) && value === REDACTED_SECRET
+    )
+    .map(([field]) => ({
+      field: `${fieldPrefix}${field}`,
+      message: "Redacted placeholder cannot be stored - send the real key",
+    }));
+  if (redactedFields.length > 0) {
+    return validationErrorResponse(redactedFields);
+  }
+
+  if (hasPlaintextSecrets(config) && !env.TENANT_SECRETS_MASTER_KEY) {
+    console.error("Tenant API keys submitted but no master key configured");
+    return errorResponse(503, "Tenant secret encryption not configured");
+  }
+
+  return null;
+}
+
+// GET /v1/admin/tenants
+export async function handleListTenants({
+  env,
+  url,
+}: RouteContext): Promise<Response> {
+  const tenantConfigService = new TenantConfigService(env);
+  const cursor = url.searchParams.get("cursor") || undefined;
+  const page = await tenantConfigService.listTenants(cursor);
+
+  return jsonResponse(page);
+}
+
+// POST /v1/admin/tenants - body: { tenantId, config }
+export async function handleCreateTenant({
+  request,
+  env,
+}: RouteContext): Promise<Response> {
+  const body = await readJsonBody<{ tenantId?: unknown; config?: unknown }>(
+    request
+  );
+  if (!body) {
+    return errorResponse(400, "Request body must be valid JSON");
+  }
+
+  if (typeof body.tenantId !== "string" || !isValidTenantId(body.tenantId)) {
+    return invalidTenantIdResponse(body.tenantId);
+  }
+
+  const { config, errors } = validateTenantConfig(body.config);
+  if (!config) {
+    return validationErrorResponse(
+      errors.map((error) => ({ ...error, field: `config.${error.field}` }))
+    );
+  }
+
+  const secretsError = checkSecrets(env, config, "config.");
+  if (secretsError) {
+    return secretsError;
+  }
+
+  const tenantConfigService = new TenantConfigService(env);
+  if (await tenantConfigService.getConfig(body.tenantId)) {
+    return errorResponse(409, "Tenant already exists", {
+      tenantId: body.tenantId,
+    });
+  }
+
+  const versionRecord = await tenantConfigService.saveConfig(
+    body.tenantId,
+    config,
+    getAuthor(request)
+  );
+  return jsonResponse(
+    {
+      tenantId: body.tenantId,
+      version: versionRecord.version,
+      config: redactTenantConfig(versionRecord.config),
+    },
+    201
+  );
+}
+
+// GET /v1/admin/tenants/:tenantId
+export async function handleGetTenant({
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const tenantConfigService = new TenantConfigService(env);
+  const { config, version } = await tenantConfigService.getConfigWithVersion(
+    params.tenantId
+  );
+  if (!config) {
+    return errorResponse(404, "Tenant not found", {
+      tenantId: params.tenantId,
+    });
+  }
+
+  return jsonResponse({
+    tenantId: params.tenantId,
+    version,
+    config: redactTenantConfig(config),
+  });
+}
+
+// PUT /v1/admin/tenants/:tenantId - replaces the whole config
+// PATCH /v1/admin/tenants/:tenantId - merges the given fields into the stored config
+export async function handleUpdateTenant({
+  request,
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const body = await readJsonBody<Record<string, unknown>>(request);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return errorResponse(400, "Request body must be a JSON object");
+  }
+
+  const tenantConfigService = new TenantConfigService(env);
+  const existingConfig = await tenantConfigService.getConfig(params.tenantId);
+  if (!existingConfig) {
+    return errorResponse(404, "Tenant not found", {
+      tenantId: params.tenantId,
+    });
+  }
+
+  // PATCH may remove optional fields by setting them to null
+  const candidate =
+    request.method === "PATCH"
+      ? Object.fromEntries(
+          Object.entries({ ...existingConfig, ...body }).filter(
+            ([, value]) => value !== null
+          )
+        )
+      : body;
+
+  // A redacted key sent back unchanged (e.g. GET then PUT) keeps the stored key
+  Object.entries(candidate).forEach(([field, value]) => {
+    if (isTenantSecretField(field) && value === REDACTED_SECRET) {
+      candidate[field] = existingConfig[field];
+    }
+  });
+
+  const { config, errors } = validateTenantConfig(candidate);
+  if (!config) {
+    return validationErrorResponse(errors);
+  }
+
+  const secretsError = checkSecrets(env, config);
+  if (secretsError) {
+    return secretsError;
+  }
+
+  const versionRecord = await tenantConfigService.saveConfig(
+    params.tenantId,
+    config,
+    getAuthor(request)
+  );
+  return jsonResponse({
+    tenantId: params.tenantId,
+    version: versionRecord.version,
+    config: redactTenantConfig(versionRecord.config),
+  });
+}
+
+// DELETE /v1/admin/tenants/:tenantId
+export async function handleDeleteTenant({
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const tenantConfigService = new TenantConfigService(env);
+  if (!(await tenantConfigService.getConfig(params.tenantId))) {
+    return errorResponse(404, "Tenant not found", {
+      tenantId: params.tenantId,
+    });
+  }
+
+  await tenantConfigService.deleteConfig(params.tenantId);
+  return jsonResponse({ tenantId: params.tenantId, deleted: true });
+}
+
+/**
+ * Parse the :version path parameter
+ */
+function parseVersion(version: string): number | null {
+  const parsed = Number(version);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+// GET /v1/admin/tenants/:tenantId/versions
+export async function handleListTenantVersions({
+  env,
+  url,
+  params,
+}: RouteContext): Promise<Response> {
+  const tenantConfigService = new TenantConfigService(env);
+  const cursor = url.searchParams.get("cursor") || undefined;
+  const page = await tenantConfigService.listVersions(params.tenantId, cursor);
+
+  return jsonResponse({ tenantId: params.tenantId, ...page });
+}
+
+// GET /v1/admin/tenants/:tenantId/versions/:version
+export async function handleGetTenantVersion({
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const version = parseVersion(params.version);
+  if (version === null) {
+    return errorResponse(400, "Version must be a positive integer");
+  }
+
+  const tenantConfigService = new TenantConfigService(env);
+  const record = await tenantConfigService.getVersion(params.tenantId, version);
+  if (!record) {
+    return errorResponse(404, "Version not found", {
+      tenantId: params.tenantId,
+      version,
+    });
+  }
+
+  return jsonResponse(redactVersionRecord(record));
+}
+
+// POST /v1/admin/tenants/:tenantId/versions/:version/rollback
+export async function handleRollbackTenant({
+  request,
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const version = parseVersion(params.version);
+  if (version === null) {
+    return errorResponse(400, "Version must be a positive integer");
+  }
+
+  const tenantConfigService = new TenantConfigService(env);
+  const record = await tenantConfigService.rollback(
+    params.tenantId,
+    version,
+    getAuthor(request)
+  );
+  if (!record) {
+    return errorResponse(404, "Version not found", {
+      tenantId: params.tenantId,
+      version,
+    });
+  }
+
+  return jsonResponse(redactVersionRecord(record));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_SPEND_DAYS = 30;
+const MAX_SPEND_DAYS = 92;
+const TOP_SESSIONS_LIMIT = 20;
+
+/**
+ * Parse a YYYY-MM-DD query parameter as a UTC day
+ */
+function parseSpendDate(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) || toSpendDate(date) !== value ? null : date;
+}
+
+function sumSpendTotals(totals: SpendTotals[]): SpendTotals {
+  return totals.reduce(
+    (sum, item) => ({
+      costUsd: sum.costUsd + item.costUsd,
+      requests: sum.requests + item.requests,
+      promptTokens: sum.promptTokens + item.promptTokens,
+      completionTokens: sum.completionTokens + item.completionTokens,
+      cachedTokens: sum.cachedTokens + item.cachedTokens,
+      unpricedGenerations: sum.unpricedGenerations + item.unpricedGenerations,
+    }),
+    {
+      costUsd: 0,
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cachedTokens: 0,
+      unpricedGenerations: 0,
+    }
+  );
+}
+
+function pickTotals(record: SpendTotals): SpendTotals {
+  return {
+    costUsd: record.costUsd,
+    requests: record.requests,
+    promptTokens: record.promptTokens,
+    completionTokens: record.completionTokens,
+    cachedTokens: record.cachedTokens,
+    unpricedGenerations: record.unpricedGenerations,
+  };
+}
+
+/**
+ * Aggregate daily records into a spend report
+ */
+function buildSpendReport(records: DailySpendRecord[]) {
+  const byModel: Record<string, SpendTotals[]> = {};
+  const sessions: Record<string, SessionSpend> = {};
+
+  records.forEach((record) => {
+    Object.entries(record.byModel).forEach(([model, totals]) => {
+      (byModel[model] = byModel[model] || []).push(totals);
+    });
+    Object.entries(record.sessions).forEach(([sessionId, spend]) => {
+      const session = (sessions[sessionId] = sessions[sessionId] || {
+        costUsd: 0,
+        requests: 0,
+      });
+      session.costUsd += spend.costUsd;
+      session.requests += spend.requests;
+    });
+  });
+
+  return {
+    totals: sumSpendTotals(records),
+    days: records.map((record) => ({
+      date: record.date,
+      ...pickTotals(record),
+    })),
+    byModel: Object.fromEntries(
+      Object.entries(byModel).map(([model, totals]) => [
+        model,
+        sumSpendTotals(totals),
+      ])
+    ),
+    topSessions: Object.entries(sessions)
+      .map(([sessionId, spend]) => ({ sessionId, ...spend }))
+      .sort((a, b) => b.costUsd - a.costUsd)
+      .slice(0, TOP_SESSIONS_LIMIT),
+  };
+}
+
+// GET /v1/admin/tenants/:tenantId/spend?from=YYYY-MM-DD&to=YYYY-MM-DD - UTC days, inclusive
+export async function handleGetTenantSpend({
+  env,
+  url,
+  params,
+}: RouteContext): Promise<Response> {
+  const fromParam = url.searchParams.get("from");
+  const toParam = url.searchParams.get("to");
+
+  const to = toParam
+    ? parseSpendDate(toParam)
+    : parseSpendDate(toSpendDate(new Date()));
+  const from = fromParam
+    ? parseSpendDate(fromParam)
+    : to && new Date(to.getTime() - (DEFAULT_SPEND_DAYS - 1) * DAY_MS);
+  if (!from || !to) {
+    return errorResponse(400, "from and to must be dates in YYYY-MM-DD format");
+  }
+
+  const dayCount = Math.round((to.getTime() - from.getTime()) / DAY_MS) + 1;
+  if (dayCount < 1) {
+    return errorResponse(400, "from must not be after to");
+  }
+  if (dayCount > MAX_SPEND_DAYS) {
+    return errorResponse(400, `Range cannot exceed ${MAX_SPEND_DAYS} days`, {
+      maxDays: MAX_SPEND_DAYS,
+    });
+  }
+
+  const dates = Array.from({ length: dayCount }, (_, index) =>
+    toSpendDate(new Date(from.getTime() + index * DAY_MS))
+  );
+  const spendService = new SpendService(env);
+  const records = await spendService.getDailySpend(params.tenantId, dates);
+
+  return jsonResponse({
+    tenantId: params.tenantId,
+    from: dates[0],
+    to: dates[dates.length - 1],
+    currency: "USD",
+    pricesUpdatedAt: MODEL_PRICING_UPDATED_AT,
+    ...buildSpendReport(records),
+  });
+}
+
+// GET /v1/admin/tenants/:tenantId/sessions/:sessionId/export
+export async function handleExportSession({
+  request,
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const dataSubjectService = new DataSubjectService(env);
+  const sessionExport = await dataSubjectService.exportSession(
+    params.tenantId,
+    params.sessionId,
+    getAuthor(request)
+  );
+
+  return jsonResponse(sessionExport, 200, {
+    "Content-Disposition": `attachment; filename="session-export-${encodeURIComponent(
+      params.sessionId
+    )}.json"`,
+  });
+}
+
+// DELETE /v1/admin/tenants/:tenantId/sessions/:sessionId - erases KV data and Langfuse traces
+export async function handleEraseSession({
+  request,
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const dataSubjectService = new DataSubjectService(env);
+  let result: SessionErasureResult;
+  try {
+    result = await dataSubjectService.eraseSession(
+      params.tenantId,
+      params.sessionId,
+      getAuthor(request)
+    );
+  } catch (error) {
+    // Nothing was deleted yet, the request can be repeated once the turn is over
+    if (error instanceof SessionBusyError) {
+      return errorResponse(409, "Session busy", {
+        sessionId: params.sessionId,
+      });
+    }
+    throw error;
+  }
+
+  // Session data is gone either way; 502 tells the caller to retry for the traces
+  return jsonResponse(result, result.langfuseDeletion === "failed" ? 502 : 200);
+}
+
+// GET /v1/admin/tenants/:tenantId/audit
+export async function handleListAuditRecords({
+  env,
+  url,
+  params,
+}: RouteContext): Promise<Response> {
+  const auditLogService = new AuditLogService(env);
+  const cursor = url.searchParams.get("cursor") || undefined;
+  const page = await auditLogService.list(params.tenantId, cursor);
+
+  return jsonResponse({ tenantId: params.tenantId, ...page });
+}
+
+// Uploads are stored as a single KV value together with their metadata
+const MAX_UPLOAD_LENGTH = 1_000_000;
+const MAX_UPLOAD_NAME_LENGTH = 100;
+const UPLOAD_CONTENT_TYPES: Record<string, KnowledgeUploadFormat> = {
+  "text/csv": "csv",
+  "text/markdown": "markdown",
+};
+
+// GET /v1/admin/tenants/:tenantId/knowledge
+export async function handleListKnowledgeUploads({
+  env,
+  url,
+  params,
+}: RouteContext): Promise<Response> {
+  const uploadStore = new KnowledgeUploadStore(env);
+  const cursor = url.searchParams.get("cursor") || undefined;
+  const page = await uploadStore.list(params.tenantId, cursor);
+
+  return jsonResponse({ tenantId: params.tenantId, ...page });
+}
+
+// GET /v1/admin/tenants/:tenantId/knowledge/:name
+export async function handleGetKnowledgeUpload({
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const uploadStore = new KnowledgeUploadStore(env);
+  const upload = await uploadStore.get(params.tenantId, params.name);
+  if (!upload) {
+    return errorResponse(404, "Document not found", {
+      tenantId: params.tenantId,
+      name: params.name,
+    });
+  }
+
+  return jsonResponse({ tenantId: params.tenantId, ...upload });
+}
+
+// PUT /v1/admin/tenants/:tenantId/knowledge/:name - raw text/csv or text/markdown body
+export async function handlePutKnowledgeUpload({
+  request,
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const name = params.name.trim();
+  if (!name || name.length > MAX_UPLOAD_NAME_LENGTH) {
+    return errorResponse(
+      400,
+      `Document name must be 1-${MAX_UPLOAD_NAME_LENGTH} characters`
+    );
+  }
+
+  const contentType = (request.headers.get("Content-Type") || "")
+    .split(";")[0]
+    .trim()
+    .toLowerCase();
+  const format = UPLOAD_CONTENT_TYPES[contentType];
+  if (!format) {
+    return errorResponse(415, "Content-Type must be text/csv or text/markdown");
+  }
+
+  const content = await request.text();
+  if (content.trim().length === 0 || content.length > MAX_UPLOAD_LENGTH) {
+    return errorResponse(
+      400,
+      `Document must be non-empty and at most ${MAX_UPLOAD_LENGTH} characters`
+    );
+  }
+
+  const tenantConfigService = new TenantConfigService(env);
+  if (!(await tenantConfigService.getConfig(params.tenantId))) {
+    return errorResponse(404, "Tenant not found", {
+      tenantId: params.tenantId,
+    });
+  }
+
+  const uploadStore = new KnowledgeUploadStore(env);
+  const upload = await uploadStore.save(params.tenantId, {
+    name,
+    format,
+    content,
+    uploadedBy: getAuthor(request),
+  });
+
+  return jsonResponse({
+    tenantId: params.tenantId,
+    name: upload.name,
+    format: upload.format,
+    size: upload.content.length,
+    uploadedAt: upload.uploadedAt,
+    uploadedBy: upload.uploadedBy,
+  });
+}
+
+// DELETE /v1/admin/tenants/:tenantId/knowledge/:name
+export async function handleDeleteKnowledgeUpload({
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const uploadStore = new KnowledgeUploadStore(env);
+  if (!(await uploadStore.delete(params.tenantId, params.name))) {
+    return errorResponse(404, "Document not found", {
+      tenantId: params.tenantId,
+      name: params.name,
+    });
+  }
+
+  return jsonResponse({
+    tenantId: params.tenantId,
+    name: params.name,
+    deleted: true,
+  });
+}
+
+/**
+ * A catalogue with the excel-config text it would be approved as
+ */
+function catalogueResponse(
+  catalogueService: SheetCatalogueService,
+  catalogue: SheetCatalogue,
+  status = 200
+): Response {
+  return jsonResponse(
+    {
+      ...catalogue,
+      excelConfig: catalogueService.renderExcelConfig(catalogue),
+    },
+    status
+  );
+}
+
+/**
+ * Map the outcome of a catalogue review step to a response
+ */
+function catalogueReviewResponse(
+  catalogueService: SheetCatalogueService,
+  tenantId: string,
+  result: CatalogueReviewResult
+): Response {
+  switch (result.status) {
+    case "not-found":
+      return errorResponse(404, "Catalogue not found", { tenantId });
+    case "tenant-not-found":
+      return errorResponse(404, "Tenant not found", { tenantId });
+    case "not-draft":
+      return errorResponse(409, "Catalogue is already approved", {
+        tenantId,
+      });
+    case "approved":
+      return jsonResponse({
+        tenantId,
+        version: result.version,
+        catalogue: result.catalogue,
+      });
+    default:
+      return catalogueResponse(catalogueService, result.catalogue);
+  }
+}
+
+// POST /v1/admin/tenants/:tenantId/catalogue - describes every sheet with an LLM, stored as a draft
+export async function handleGenerateCatalogue({
+  request,
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const catalogueService = new SheetCatalogueService(env);
+  const result = await catalogueService.generate(
+    params.tenantId,
+    getAuthor(request)
+  );
+
+  switch (result.status) {
+    case "tenant-not-found":
+      return errorResponse(404, "Tenant not found", {
+        tenantId: params.tenantId,
+      });
+    case "no-knowledge-source":
+      return errorResponse(409, "Tenant has no knowledge source configured", {
+        tenantId: params.tenantId,
+      });
+    case "cannot-list-sheets":
+      return errorResponse(
+        409,
+        "Knowledge source cannot list its sheets, write excel-config by hand",
+        { tenantId: params.tenantId, knowledgeSource: result.sourceType }
+      );
+    case "source-unavailable":
+      return errorResponse(502, "Knowledge source unavailable", {
+        tenantId: params.tenantId,
+        details: result.error,
+      });
+    default:
+      return catalogueResponse(catalogueService, result.catalogue, 201);
+  }
+}
+
+// GET /v1/admin/tenants/:tenantId/catalogue
+export async function handleGetCatalogue({
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const catalogueService = new SheetCatalogueService(env);
+  const catalogue = await catalogueService.get(params.tenantId);
+  if (!catalogue) {
+    return errorResponse(404, "Catalogue not found", {
+      tenantId: params.tenantId,
+    });
+  }
+
+  return catalogueResponse(catalogueService, catalogue);
+}
+
+// PUT /v1/admin/tenants/:tenantId/catalogue - body: { sheets }, replaces the sheets of the draft
+export async function handleUpdateCatalogue({
+  request,
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const body = await readJsonBody<{ sheets?: unknown }>(request);
+  if (!body) {
+    return errorResponse(400, "Request body must be valid JSON");
+  }
+
+  const { sheets, errors } = validateCatalogueSheets(body.sheets);
+  if (!sheets) {
+    return validationErrorResponse(errors);
+  }
+
+  const catalogueService = new SheetCatalogueService(env);
+  const result = await catalogueService.updateDraft(
+    params.tenantId,
+    sheets,
+    getAuthor(request)
+  );
+  return catalogueReviewResponse(catalogueService, params.tenantId, result);
+}
+
+// POST /v1/admin/tenants/:tenantId/catalogue/approve - writes the draft as excel-config in a new config version
+export async function handleApproveCatalogue({
+  request,
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const catalogueService = new SheetCatalogueService(env);
+  const result = await catalogueService.approve(
+    params.tenantId,
+    getAuthor(request)
+  );
+  return catalogueReviewResponse(catalogueService, params.tenantId, result);
+}
+
+// DELETE /v1/admin/tenants/:tenantId/catalogue
+export async function handleDeleteCatalogue({
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const catalogueService = new SheetCatalogueService(env);
+  if (!(await catalogueService.delete(params.tenantId))) {
+    return errorResponse(404, "Catalogue not found", {
+      tenantId: params.tenantId,
+    });
+  }
+
+  return jsonResponse({ tenantId: params.tenantId, deleted: true });
+}
+
+// POST /v1/admin/tenants/:tenantId/knowledge-sync - runs the scheduled sync for one tenant now
+export async function handleSyncKnowledge({
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const syncService = new KnowledgeSyncService(env);
+  const result = await syncService.syncTenant(params.tenantId);
+  return knowledgeSyncResponse(params.tenantId, result, false);
+}
+
+// GET /v1/admin/tenants/:tenantId/knowledge-changes
+export async function handleListKnowledgeChanges({
+  env,
+  url,
+  params,
+}: RouteContext): Promise<Response> {
+  const syncService = new KnowledgeSyncService(env);
+  const cursor = url.searchParams.get("cursor") || undefined;
+  const page = await syncService.listChanges(params.tenantId, cursor);
+
+  return jsonResponse({ tenantId: params.tenantId, ...page });
+}
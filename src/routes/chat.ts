@@ -0,0 +1,183 @@
+import { Env, ChatRequest } from "../types";
+import { ChatHandler } from "../services/chatHandler";
+import { SessionBusyError } from "../services/sessionCoordinator";
+import { MemoryService } from "../services/memory";
+import { TenantConfigService } from "../services/tenantConfigService";
+import { RouteContext } from "../router";
+import { errorResponse, getSSEHeaders, jsonResponse } from "../utils/http";
+import { getBearerToken, timingSafeEqual } from "../utils/auth";
+
+const TECHNICAL_ERROR_MESSAGE =
+  "Przepraszam, wystąpił problem techniczny. Spróbuj ponownie lub skontaktuj się z recepcją hotelu.";
+
+const SESSION_BUSY_MESSAGE =
+  "Poprzednia wiadomość jest jeszcze przetwarzana. Spróbuj ponownie za chwilę.";
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 200;
+
+export async function handleChat({
+  request,
+  env,
+  ctx,
+}: RouteContext): Promise<Response> {
+  try {
+    // Parse request body
+    const chatRequest: ChatRequest = await request.json();
+
+    // Validate required fields
+    if (!chatRequest.sessionId || !chatRequest.message) {
+      return errorResponse(
+        400,
+        "Missing required fields: sessionId and message"
+      );
+    }
+
+    if (
+      chatRequest.idempotencyKey !== undefined &&
+      (typeof chatRequest.idempotencyKey !== "string" ||
+        !chatRequest.idempotencyKey ||
+        chatRequest.idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH)
+    ) {
+      return errorResponse(
+        400,
+        `idempotencyKey must be a non-empty string of at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`
+      );
+    }
+
+    // Stream the response as Server-Sent Events when the client opts in
+    const acceptsEventStream = request.headers
+      .get("Accept")
+      ?.includes("text/event-stream");
+    if (chatRequest.stream || acceptsEventStream) {
+      return handleStreamingChat(chatRequest, env, ctx);
+    }
+
+    // Process chat using ChatHandler
+    const chatHandler = new ChatHandler(env);
+    const response = await chatHandler.processChat(chatRequest);
+
+    return jsonResponse(response);
+  } catch (error) {
+    if (error instanceof SessionBusyError) {
+      console.warn(error.message);
+      return errorResponse(409, "Session busy", {
+        message: SESSION_BUSY_MESSAGE,
+      });
+    }
+    console.error("Error processing chat request:", error);
+
+    return errorResponse(500, "Internal server error", {
+      message: TECHNICAL_ERROR_MESSAGE,
+    });
+  }
+}
+
+/**
+ * Run the chat pipeline and stream its progress as Server-Sent Events:
+ * "token" for each guest service delta, "reset" when a fallback model restarts
+ * the answer, "buttons" once buttons are ready and "done" with the full ChatResponse
+ */
+function handleStreamingChat(
+  chatRequest: ChatRequest,
+  env: Env,
+  ctx: ExecutionContext
+): Response {
+  const { readable, writable } = new TransformStream<Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  const sendEvent = (event: string, data: unknown) => {
+    writer
+      .write(
+        encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+      )
+      .catch((error) => {
+        // The client may have disconnected - keep processing so memory is saved
+        console.warn(`Failed to write SSE event "${event}":`, error);
+      });
+  };
+
+  const chatHandler = new ChatHandler(env);
+  ctx.waitUntil(
+    (async () => {
+      try {
+        const response = await chatHandler.processChat(chatRequest, {
+          onToken: (token) => sendEvent("token", { text: token }),
+          onReset: () => sendEvent("reset", {}),
+          onButtons: ({ buttons, language }) =>
+            sendEvent("buttons", { buttons, language }),
+        });
+        sendEvent("done", response);
+      } catch (error) {
+        if (error instanceof SessionBusyError) {
+          console.warn(error.message);
+          sendEvent("error", {
+            error: "Session busy",
+            message: SESSION_BUSY_MESSAGE,
+          });
+          return;
+        }
+        console.error("Error processing streaming chat request:", error);
+        sendEvent("error", {
+          error: "Internal server error",
+          message: TECHNICAL_ERROR_MESSAGE,
+        });
+      } finally {
+        await writer.close().catch(() => undefined);
+      }
+    })()
+  );
+
+  return new Response(readable, {
+    status: 200,
+    headers: getSSEHeaders(),
+  });
+}
+
+// GET /v1/chat/sessions/:sessionId/replies?tenantId=&since=
+// Polled by the chat widget for staff replies while the conversation is handed over,
+// authorized by the sessionToken the widget received with its chat answers
+export async function handleGetStaffReplies({
+  request,
+  env,
+  url,
+  params,
+}: RouteContext): Promise<Response> {
+  const tenantId = url.searchParams.get("tenantId") || "default";
+  const since = Number(url.searchParams.get("since") || 0);
+  if (!Number.isFinite(since)) {
+    return errorResponse(400, "since must be a timestamp in milliseconds");
+  }
+
+  const tenantConfig = await new TenantConfigService(env).getConfig(tenantId);
+  const sessionMemory = await new MemoryService(env)
+    .forTenant(tenantConfig)
+    .getSessionMemory(tenantId, params.sessionId);
+
+  // Unknown sessions are answered like a wrong token, so session IDs cannot be probed
+  const token = getBearerToken(request);
+  if (
+    !token ||
+    !sessionMemory?.sessionToken ||
+    !timingSafeEqual(token, sessionMemory.sessionToken)
+  ) {
+    return errorResponse(
+      401,
+      "Unauthorized",
+      {},
+      {
+        "WWW-Authenticate": "Bearer",
+      }
+    );
+  }
+
+  const replies = sessionMemory.messages
+    .filter((message) => message.staffMember && message.timestamp > since)
+    .map(({ content, timestamp }) => ({ text: content, timestamp }));
+
+  return jsonResponse({
+    sessionId: params.sessionId,
+    handoff: sessionMemory.handoff ? sessionMemory.handoff.status : null,
+    replies,
+  });
+}
@@ -0,0 +1,115 @@
+import { Env } from "../types";
+import { RouteContext } from "../router";
+import { LangfuseService } from "../services/langfuse";
+import { LLMService } from "../services/llm";
+import { jsonResponse } from "../utils/http";
+
+const READINESS_CHECK_TIMEOUT_MS = 5000;
+// The endpoint is public, so upstream checks (paid provider calls) run at most this often per isolate
+const UPSTREAM_CHECK_CACHE_MS = 60 * 1000;
+
+interface UpstreamChecks {
+  langfuse: boolean;
+  llmProviders: Record<string, boolean>;
+}
+
+let upstreamChecks: {
+  checkedAt: number;
+  result: Promise<UpstreamChecks>;
+} | null = null;
+
+/**
+ * Resolve to the fallback value when a check fails or does not finish in time
+ */
+async function withTimeout<T>(check: Promise<T>, fallback: T): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const timeout = new Promise<T>((resolve) => {
+    timer = setTimeout(() => resolve(fallback), READINESS_CHECK_TIMEOUT_MS);
+  });
+
+  try {
+    return await Promise.race([check.catch(() => fallback), timeout]);
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+}
+
+/**
+ * Check that a KV binding exists and answers a read
+ */
+async function checkKV(kv: KVNamespace | undefined): Promise<boolean> {
+  if (!kv) return false;
+  await kv.get("__health_check__");
+  return true;
+}
+
+/**
+ * Check Langfuse and the LLM providers, reusing a recent result. Concurrent
+ * requests share the check in flight.
+ */
+function checkUpstreams(env: Env): Promise<UpstreamChecks> {
+  if (
+    upstreamChecks &&
+    Date.now() - upstreamChecks.checkedAt < UPSTREAM_CHECK_CACHE_MS
+  ) {
+    return upstreamChecks.result;
+  }
+
+  const langfuseService = new LangfuseService(env);
+  const llmService = new LLMService(env);
+  const result = Promise.all([
+    withTimeout(langfuseService.checkHealth(), false),
+    withTimeout(llmService.checkProviderHealth(), {}),
+  ]).then(([langfuse, llmProviders]) => ({ langfuse, llmProviders }));
+
+  upstreamChecks = { checkedAt: Date.now(), result };
+  return result;
+}
+
+// Liveness endpoint - answers without touching any dependency
+export async function handleHealthCheck(): Promise<Response> {
+  return jsonResponse({
+    status: "healthy",
+    timestamp: new Date().toISOString(),
+    service: "Hotel Chat Agent",
+  });
+}
+
+// Readiness endpoint - confirms KV bindings, Langfuse and at least one LLM provider respond
+export async function handleReadinessCheck({
+  env,
+}: RouteContext): Promise<Response> {
+  const [
+    chatSessions,
+    tenantConfig,
+    knowledgeCache,
+    { langfuse, llmProviders },
+  ] = await Promise.all([
+    withTimeout(checkKV(env.CHAT_SESSIONS), false),
+    withTimeout(checkKV(env.TENAT_CONFIG), false),
+    withTimeout(checkKV(env.TENAT_KNOWLEDGE_CACHE), false),
+    checkUpstreams(env),
+  ]);
+
+  const kv = {
+    CHAT_SESSIONS: chatSessions,
+    TENAT_CONFIG: tenantConfig,
+    TENAT_KNOWLEDGE_CACHE: knowledgeCache,
+  };
+  const hasHealthyProvider = Object.values(llmProviders).some(Boolean);
+  const ready =
+    Object.values(kv).every(Boolean) && langfuse && hasHealthyProvider;
+
+  return jsonResponse(
+    {
+      status: ready ? "ready" : "not_ready",
+      timestamp: new Date().toISOString(),
+      checks: {
+        kv,
+        langfuse,
+        llmProviders,
+      },
+    },
+    ready ? 200 : 503
+  );
+}
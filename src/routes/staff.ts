@@ -0,0 +1,171 @@
+import { RouteContext } from "../router";
+import { MemoryService } from "../services/memory";
+import { TenantConfigService } from "../services/tenantConfigService";
+import {
+  HandoffService,
+  HandoffUpdateResult,
+} from "../services/handoffService";
+import { SessionBusyError } from "../services/sessionCoordinator";
+import { Env } from "../types";
+import { errorResponse, jsonResponse, readJsonBody } from "../utils/http";
+
+// Handoff reasons and replies are stored in KV, reasons also in KV metadata
+const MAX_REASON_LENGTH = 200;
+const MAX_REPLY_LENGTH = 4000;
+
+/**
+ * Identify who replied from the X-Staff-User header
+ */
+function getStaffMember(request: Request): string {
+  return request.headers.get("X-Staff-User")?.trim() || "staff";
+}
+
+/**
+ * Services applying the tenant's session settings, like the chat itself
+ */
+async function getServices(
+  env: Env,
+  tenantId: string
+): Promise<{ memoryService: MemoryService; handoffService: HandoffService }> {
+  const tenantConfig = await new TenantConfigService(env).getConfig(tenantId);
+  const memoryService = new MemoryService(env).forTenant(tenantConfig);
+  return {
+    memoryService,
+    handoffService: new HandoffService(env, memoryService),
+  };
+}
+
+/**
+ * Run a handoff change and map its outcome to a response
+ */
+async function handoffUpdateResponse(
+  sessionId: string,
+  update: () => Promise<HandoffUpdateResult>
+): Promise<Response> {
+  let result: HandoffUpdateResult;
+  try {
+    result = await update();
+  } catch (error) {
+    if (error instanceof SessionBusyError) {
+      return errorResponse(409, "Session busy", { sessionId });
+    }
+    throw error;
+  }
+
+  switch (result.status) {
+    case "session-not-found":
+      return errorResponse(404, "Session not found", { sessionId });
+    case "not-in-handoff":
+      return errorResponse(409, "Session is not handed over to staff", {
+        sessionId,
+      });
+    default:
+      return jsonResponse({ sessionId, handoff: result.handoff });
+  }
+}
+
+// GET /v1/staff/tenants/:tenantId/handoffs
+export async function handleListHandoffs({
+  env,
+  url,
+  params,
+}: RouteContext): Promise<Response> {
+  const { handoffService } = await getServices(env, params.tenantId);
+  const cursor = url.searchParams.get("cursor") || undefined;
+  const page = await handoffService.listHandoffs(params.tenantId, cursor);
+
+  return jsonResponse({ tenantId: params.tenantId, ...page });
+}
+
+// GET /v1/staff/tenants/:tenantId/sessions/:sessionId
+export async function handleGetConversation({
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const { memoryService } = await getServices(env, params.tenantId);
+  const sessionMemory = await memoryService.getSessionMemory(
+    params.tenantId,
+    params.sessionId
+  );
+  if (!sessionMemory) {
+    return errorResponse(404, "Session not found", {
+      sessionId: params.sessionId,
+    });
+  }
+
+  return jsonResponse({
+    tenantId: params.tenantId,
+    sessionId: params.sessionId,
+    handoff: sessionMemory.handoff ?? null,
+    guestProfile: sessionMemory.guestProfile ?? null,
+    summary: sessionMemory.summary ?? null,
+    messages: sessionMemory.messages,
+  });
+}
+
+// POST /v1/staff/tenants/:tenantId/sessions/:sessionId/handoff
+export async function handleStartHandoff({
+  request,
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const body = (await readJsonBody<{ reason?: unknown }>(request)) ?? {};
+  if (
+    body.reason !== undefined &&
+    (typeof body.reason !== "string" || body.reason.length > MAX_REASON_LENGTH)
+  ) {
+    return errorResponse(
+      400,
+      `reason must be a string of at most ${MAX_REASON_LENGTH} characters`
+    );
+  }
+
+  const { handoffService } = await getServices(env, params.tenantId);
+  const reason =
+    (body.reason as string | undefined)?.trim() ||
+    `Taken over by ${getStaffMember(request)}`;
+  return handoffUpdateResponse(params.sessionId, () =>
+    handoffService.startHandoff(params.tenantId, params.sessionId, reason)
+  );
+}
+
+// POST /v1/staff/tenants/:tenantId/sessions/:sessionId/messages
+export async function handlePostStaffReply({
+  request,
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const body = await readJsonBody<{ text?: unknown }>(request);
+  if (
+    typeof body?.text !== "string" ||
+    body.text.trim().length === 0 ||
+    body.text.length > MAX_REPLY_LENGTH
+  ) {
+    return errorResponse(
+      400,
+      `text must be a non-empty string of at most ${MAX_REPLY_LENGTH} characters`
+    );
+  }
+
+  const { handoffService } = await getServices(env, params.tenantId);
+  const text = body.text.trim();
+  return handoffUpdateResponse(params.sessionId, () =>
+    handoffService.postStaffReply(
+      params.tenantId,
+      params.sessionId,
+      text,
+      getStaffMember(request)
+    )
+  );
+}
+
+// DELETE /v1/staff/tenants/:tenantId/sessions/:sessionId/handoff
+export async function handleEndHandoff({
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const { handoffService } = await getServices(env, params.tenantId);
+  return handoffUpdateResponse(params.sessionId, () =>
+    handoffService.endHandoff(params.tenantId, params.sessionId)
+  );
+}
@@ -0,0 +1,69 @@
+import { RouteContext } from "../router";
+import {
+  KnowledgeSyncResult,
+  KnowledgeSyncService,
+} from "../services/knowledgeSyncService";
+import { errorResponse, jsonResponse } from "../utils/http";
+
+/**
+ * Map a sync outcome to a response
+ * @param tenantId The tenant ID
+ * @param result The sync outcome
+ * @param failOnErrors Answer 502 when a sheet could not be refreshed
+ */
+export function knowledgeSyncResponse(
+  tenantId: string,
+  result: KnowledgeSyncResult,
+  failOnErrors: boolean
+): Response {
+  switch (result.status) {
+    case "tenant-not-found":
+      return errorResponse(404, "Tenant not found", { tenantId });
+    case "no-knowledge-source":
+      return errorResponse(409, "Tenant has no knowledge source configured", {
+        tenantId,
+      });
+    case "source-unavailable":
+      return errorResponse(502, "Knowledge source unavailable", {
+        tenantId,
+        details: result.error,
+      });
+    default: {
+      const { status, ...summary } = result;
+      if (failOnErrors && summary.errors.length > 0) {
+        return errorResponse(502, "Sheet could not be refreshed", {
+          tenantId,
+          errors: summary.errors,
+        });
+      }
+      return jsonResponse(summary);
+    }
+  }
+}
+
+// POST /v1/webhooks/tenants/:tenantId/knowledge/:sheetName - called by the spreadsheet's onEdit trigger
+export async function handleRefreshKnowledgeSheet({
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const syncService = new KnowledgeSyncService(env);
+  const result = await syncService.syncTenant(params.tenantId, {
+    sheetNames: [params.sheetName],
+    purge: true,
+  });
+
+  return knowledgeSyncResponse(params.tenantId, result, true);
+}
+
+// POST /v1/webhooks/tenants/:tenantId/knowledge - purges and refreshes every sheet of the tenant
+export async function handleRefreshKnowledge({
+  env,
+  params,
+}: RouteContext): Promise<Response> {
+  const syncService = new KnowledgeSyncService(env);
+  const result = await syncService.syncTenant(params.tenantId, {
+    purge: true,
+  });
+
+  return knowledgeSyncResponse(params.tenantId, result, false);
+}
@@ -0,0 +1,75 @@
+import { Env } from "../types";
+
+export type AuditAction = "session.export" | "session.erase";
+
+export interface AuditRecord {
+  id: string;
+  tenantId: string;
+  action: AuditAction;
+  actor: string;
+  createdAt: string;
+  target: Record<string, string>; // e.g. { sessionId }
+  outcome: "success" | "partial" | "failure";
+  details: Record<string, unknown>; // Counts and errors only, never the personal data itself
+}
+
+export class AuditLogService {
+  private kv: KVNamespace;
+
+  constructor(env: Env) {
+    this.kv = env.TENAT_CONFIG;
+  }
+
+  /**
+   * Audit records live next to the configs, under a prefix that can never be a tenant ID.
+   * The timestamp comes first so KV's lexicographic listing returns records in order.
+   */
+  private getAuditKeyPrefix(tenantId: string): string {
+    return `audit:${tenantId}:`;
+  }
+
+  /**
+   * Write an audit record. Records have no TTL: they prove that a request was handled.
+   * @returns The stored record
+   */
+  async record(
+    entry: Omit<AuditRecord, "id" | "createdAt">
+  ): Promise<AuditRecord> {
+    const createdAt = new Date().toISOString();
+    const id = crypto.randomUUID();
+    const record: AuditRecord = { id, createdAt, ...entry };
+
+    await this.kv.put(
+      `${this.getAuditKeyPrefix(entry.tenantId)}${createdAt}:${id}`,
+      JSON.stringify(record)
+    );
+    return record;
+  }
+
+  /**
+   * List audit records of a tenant, oldest first, one KV page at a time
+   * @param tenantId The tenant ID
+   * @param cursor Cursor returned by the previous page
+   */
+  async list(
+    tenantId: string,
+    cursor?: string
+  ): Promise<{ records: AuditRecord[]; cursor?: string }> {
+    const result = await this.kv.list({
+      prefix: this.getAuditKeyPrefix(tenantId),
+      cursor,
+      limit: 100,
+    });
+
+    const records = await Promise.all(
+      result.keys.map((key) => this.kv.get<AuditRecord>(key.name, "json"))
+    );
+
+    return {
+      records: records.filter(
+        (record): record is AuditRecord => record !== null
+      ),
+      cursor: result.list_complete ? undefined : result.cursor,
+    };
+  }
+}
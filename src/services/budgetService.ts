@@ -0,0 +1,189 @@
+import { Env } from "../types";
+import { BudgetLimit, TenantBudget } from "../tasks/dataCollectionTask";
+import { EmailService } from "./emailService";
+import {
+  SpendService,
+  SpendTotals,
+  toSpendDate,
+  toSpendMonth,
+} from "./spendService";
+
+export type BudgetPeriod = "daily" | "monthly";
+export type BudgetMetric = "costUsd" | "tokens";
+export type BudgetLevel = "soft" | "hard";
+
+export interface BudgetBreach {
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  level: BudgetLevel;
+  limit: number;
+  used: number;
+}
+
+export interface BudgetCheckResult {
+  status: "ok" | BudgetLevel; // The most severe level reached
+  breaches: BudgetBreach[];
+}
+
+// Alert markers outlive their period slightly, then expire on their own
+const ALERT_MARKER_TTL_SECONDS: Record<BudgetPeriod, number> = {
+  daily: 2 * 24 * 60 * 60,
+  monthly: 32 * 24 * 60 * 60,
+};
+
+function getUsed(totals: SpendTotals, metric: BudgetMetric): number {
+  return metric === "costUsd"
+    ? totals.costUsd
+    : totals.promptTokens + totals.completionTokens;
+}
+
+function getPeriodKey(period: BudgetPeriod, now: Date): string {
+  return period === "daily" ? toSpendDate(now) : toSpendMonth(now);
+}
+
+function formatAmount(metric: BudgetMetric, amount: number): string {
+  return metric === "costUsd"
+    ? `$${amount.toFixed(2)}`
+    : `${Math.round(amount).toLocaleString("en-US")} tokens`;
+}
+
+export class BudgetService {
+  private kv: KVNamespace;
+  private spendService: SpendService;
+  private emailService: EmailService;
+
+  constructor(
+    env: Env,
+    spendService: SpendService,
+    emailService: EmailService
+  ) {
+    this.kv = env.TENAT_CONFIG;
+    this.spendService = spendService;
+    this.emailService = emailService;
+  }
+
+  private getAlertKey(
+    tenantId: string,
+    breach: BudgetBreach,
+    periodKey: string
+  ): string {
+    return `budget-alert:${tenantId}:${periodKey}:${breach.metric}:${breach.level}`;
+  }
+
+  /**
+   * Compare a tenant's spend so far with its budget
+   * @param tenantId The tenant ID
+   * @param budget The tenant's budget, if any
+   * @returns "ok" without reading KV when the tenant has no budget
+   */
+  async checkBudget(
+    tenantId: string,
+    budget: TenantBudget | undefined
+  ): Promise<BudgetCheckResult> {
+    if (!budget || (!budget.daily && !budget.monthly)) {
+      return { status: "ok", breaches: [] };
+    }
+
+    const totals = await this.spendService.getCurrentTotals(tenantId);
+    const breaches: BudgetBreach[] = [];
+
+    (["daily", "monthly"] as const).forEach((period) => {
+      (["costUsd", "tokens"] as const).forEach((metric) => {
+        const limit: BudgetLimit | undefined = budget[period]?.[metric];
+        if (!limit) return;
+
+        const used = getUsed(totals[period], metric);
+        if (limit.hard !== undefined && used >= limit.hard) {
+          breaches.push({
+            period,
+            metric,
+            level: "hard",
+            limit: limit.hard,
+            used,
+          });
+        }
+        if (limit.soft !== undefined && used >= limit.soft) {
+          breaches.push({
+            period,
+            metric,
+            level: "soft",
+            limit: limit.soft,
+            used,
+          });
+        }
+      });
+    });
+
+    const status = breaches.some((breach) => breach.level === "hard")
+      ? "hard"
+      : breaches.length > 0
+      ? "soft"
+      : "ok";
+    return { status, breaches };
+  }
+
+  /**
+   * Email the tenant about limits reached for the first time in the current period.
+   * Each limit is reported once per day or month; concurrent requests may rarely
+   * send a duplicate because KV has no compare-and-set.
+   * @param tenantId The tenant ID
+   * @param breaches Breaches returned by checkBudget
+   * @param recipients Addresses to notify
+   */
+  async sendAlerts(
+    tenantId: string,
+    breaches: BudgetBreach[],
+    recipients: string[]
+  ): Promise<void> {
+    if (breaches.length === 0 || recipients.length === 0) return;
+
+    const now = new Date();
+    const markers = await Promise.all(
+      breaches.map(async (breach) => {
+        const key = this.getAlertKey(
+          tenantId,
+          breach,
+          getPeriodKey(breach.period, now)
+        );
+        return { breach, key, alreadySent: (await this.kv.get(key)) !== null };
+      })
+    );
+    const newBreaches = markers.filter((marker) => !marker.alreadySent);
+    if (newBreaches.length === 0) return;
+
+    const lines = newBreaches.map(
+      ({ breach }) =>
+        `- ${breach.period} ${breach.level} limit: ${formatAmount(
+          breach.metric,
+          breach.used
+        )} used of ${formatAmount(breach.metric, breach.limit)}`
+    );
+    const hardLimitReached = newBreaches.some(
+      ({ breach }) => breach.level === "hard"
+    );
+
+    await this.emailService.sendEmail({
+      to: recipients,
+      subject: `[${tenantId}] Chat assistant ${
+        hardLimitReached ? "budget exhausted" : "budget limit reached"
+      }`,
+      text: [
+        `The chat assistant for ${tenantId} has reached the following usage limits:`,
+        "",
+        ...lines,
+        "",
+        hardLimitReached
+          ? "Guests now receive a fixed reply until the period ends or the budget is raised."
+          : "Cheaper models are used until the period ends or the budget is raised.",
+      ].join("\n"),
+    });
+
+    await Promise.all(
+      newBreaches.map(({ breach, key }) =>
+        this.kv.put(key, now.toISOString(), {
+          expirationTtl: ALERT_MARKER_TTL_SECONDS[breach.period],
+        })
+      )
+    );
+  }
+}
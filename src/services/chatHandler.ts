@@ -1,36 +1,221 @@
 import { Env, ChatRequest, ChatResponse } from "../types";
-import { DataCollectionTask } from "../tasks/dataCollectionTask";
+import { DataCollectionTask, TenantConfig } from "../tasks/dataCollectionTask";
 import { GuestServiceTask } from "../tasks/guestServiceTask";
-import { ButtonsTask } from "../tasks/buttonsTask";
+import { ButtonsTask, ButtonsTaskOutput } from "../tasks/buttonsTask";
 import { EmailTask } from "../tasks/emailTask";
 import { ExcelSheetMatchingTask } from "../tasks/excelSheetMatchingTask";
 import { ExcelDataFetchingTask } from "../tasks/excelDataFetchingTask";
+import {
+  GuestProfileTask,
+  GuestProfileTaskOutput,
+} from "../tasks/guestProfileTask";
+import {
+  SummarizationTask,
+  SummarizationTaskOutput,
+} from "../tasks/summarizationTask";
+import { EscalationTask, EscalationTaskOutput } from "../tasks/escalationTask";
 import { MemoryService } from "./memory";
 import { LangfuseService } from "./langfuse";
 import { LLMService } from "./llm";
-import { GoogleSheets } from "./googleSheets";
+import { createKnowledgeSource } from "./knowledge";
 import { EmailService } from "./emailService";
-import { DetailedUsage } from "../utils/usageTracker";
+import { TenantConfigService } from "./tenantConfigService";
+import { SpendService, GenerationSpend } from "./spendService";
+import { BudgetService, BudgetCheckResult } from "./budgetService";
+import { HandoffService } from "./handoffService";
+import { SheetRetrievalService } from "./sheetRetrievalService";
+import { createVectorStore } from "./vectorStore";
+import { BUDGET_LLM_TASK_CONFIGS, LLM_TASK_CONFIGS } from "../config/llmConfig";
+import { DetailedUsage, calculateCost } from "../utils/usageTracker";
+import {
+  BeginTurnResult,
+  SessionBusyError,
+  SessionCoordinator,
+  TURN_LLM_DEADLINE_MS,
+  getSessionCoordinator,
+} from "./sessionCoordinator";
+
+// Sent to guests once the tenant's hard budget limit is reached
+const DEFAULT_LIMIT_REACHED_MESSAGE =
+  "Dziękujemy za wiadomość! Asystent jest chwilowo niedostępny - prosimy o kontakt bezpośrednio z recepcją hotelu.";
+
+// Sent when a conversation is handed to staff, and to guest messages waiting for them
+const DEFAULT_HANDOFF_MESSAGE =
+  "Przekazuję rozmowę pracownikowi recepcji. Odpowiedź pojawi się w tym oknie czatu.";
+const DEFAULT_HANDOFF_QUEUED_MESSAGE =
+  "Dziękujemy! Wiadomość została przekazana do recepcji, odpowiemy najszybciej, jak to możliwe.";
+
+// Row retrieval defaults, tenants opt in with retrieval.enabled
+const DEFAULT_RETRIEVAL_TOP_K = 20;
+const DEFAULT_RETRIEVAL_MAX_TOKENS = 2000;
+
+export interface ChatStreamHandlers {
+  onToken: (token: string) => void;
+  onReset: () => void;
+  onButtons: (result: ButtonsTaskOutput) => void;
+}
 
 export class ChatHandler {
   private langfuseService: LangfuseService;
-  private llmService: LLMService;
   private memoryService: MemoryService;
-  private googleSheets: GoogleSheets;
   private emailService: EmailService;
+  private tenantConfigService: TenantConfigService;
+  private spendService: SpendService;
+  private budgetService: BudgetService;
   private env: Env;
 
   constructor(env: Env) {
     this.env = env;
     this.langfuseService = new LangfuseService(env);
-    this.llmService = new LLMService(env);
     this.memoryService = new MemoryService(env);
-    this.googleSheets = new GoogleSheets(env);
     this.emailService = new EmailService(env);
+    this.tenantConfigService = new TenantConfigService(env);
+    this.spendService = new SpendService(env);
+    this.budgetService = new BudgetService(
+      env,
+      this.spendService,
+      this.emailService
+    );
+  }
+
+  /**
+   * Check the tenant's budget and alert the tenant about newly reached limits.
+   * Budget tracking failures never block guests.
+   */
+  private async checkBudget(
+    tenantId: string,
+    tenantConfig: TenantConfig | null
+  ): Promise<BudgetCheckResult> {
+    const budget = tenantConfig?.budget;
+    let result: BudgetCheckResult;
+    try {
+      result = await this.budgetService.checkBudget(tenantId, budget);
+    } catch (error) {
+      console.error(`Failed to check budget for ${tenantId}:`, error);
+      return { status: "ok", breaches: [] };
+    }
+
+    try {
+      await this.budgetService.sendAlerts(
+        tenantId,
+        result.breaches,
+        budget?.alertEmailTo || tenantConfig?.emailTo || []
+      );
+    } catch (error) {
+      console.error(`Failed to send budget alert for ${tenantId}:`, error);
+    }
+    return result;
+  }
+
+  private buildResponse(
+    sessionId: string,
+    language: string,
+    text: string,
+    buttons: ChatResponse["message"]["attachment"]["payload"]["buttons"],
+    sessionToken?: string
+  ): ChatResponse {
+    return {
+      recipient: {
+        id: sessionId,
+      },
+      messaging_type: "RESPONSE",
+      message: {
+        attachment: {
+          type: "template",
+          payload: {
+            template_type: "button",
+            language,
+            text,
+            buttons,
+          },
+        },
+      },
+      ...(sessionToken && { sessionToken }),
+    };
+  }
+
+  /**
+   * Wait for the session's previous turn to finish, then start this one.
+   * Coordinator failures never block guests: the turn then runs unserialized.
+   * @returns The session's coordinator with the started turn, or null when unavailable
+   */
+  private async beginTurn(
+    tenantId: string,
+    sessionId: string,
+    idempotencyKey?: string
+  ): Promise<{
+    coordinator: DurableObjectStub<SessionCoordinator>;
+    turn: BeginTurnResult;
+  } | null> {
+    try {
+      const coordinator = getSessionCoordinator(
+        this.env.SESSION_COORDINATOR,
+        tenantId,
+        sessionId
+      );
+      return { coordinator, turn: await coordinator.beginTurn(idempotencyKey) };
+    } catch (error) {
+      console.error(`Failed to serialize turn for ${sessionId}:`, error);
+      return null;
+    }
   }
 
-  async processChat(chatRequest: ChatRequest): Promise<ChatResponse> {
+  /**
+   * Process a chat message through the full task pipeline, one turn per session at a time.
+   * A request repeating the idempotency key of an answered one gets the stored answer.
+   * @param chatRequest The incoming chat request
+   * @param streamHandlers Optional callbacks receiving guest service tokens and buttons as they are produced
+   * @returns Promise<ChatResponse>
+   * @throws SessionBusyError when the previous turn did not finish in time
+   */
+  async processChat(
+    chatRequest: ChatRequest,
+    streamHandlers?: ChatStreamHandlers
+  ): Promise<ChatResponse> {
+    const tenantId = chatRequest.tenantId || "default";
+    const sessionId = chatRequest.sessionId;
+    const idempotencyKey = chatRequest.idempotencyKey;
+
+    const started = await this.beginTurn(tenantId, sessionId, idempotencyKey);
+    if (!started) {
+      return this.runTurn(chatRequest, streamHandlers);
+    }
+
+    const { coordinator, turn } = started;
+    if (turn.status === "busy") {
+      throw new SessionBusyError(sessionId);
+    }
+    if (turn.status === "duplicate") {
+      // Streaming clients get the stored answer as one token, its buttons arrive with "done"
+      streamHandlers?.onToken(turn.response.message.attachment.payload.text);
+      return turn.response;
+    }
+
+    let response: ChatResponse | undefined;
+    try {
+      response = await this.runTurn(chatRequest, streamHandlers);
+      return response;
+    } finally {
+      // Without a response the turn failed, and a resubmission is processed again
+      const finish = response
+        ? coordinator.completeTurn(turn.turnId, idempotencyKey, response)
+        : coordinator.abortTurn(turn.turnId);
+      await finish.catch((error) => {
+        console.error(`Failed to finish turn for ${sessionId}:`, error);
+      });
+    }
+  }
+
+  /**
+   * Run the task pipeline for one turn, from reading session memory to saving it
+   */
+  private async runTurn(
+    chatRequest: ChatRequest,
+    streamHandlers?: ChatStreamHandlers
+  ): Promise<ChatResponse> {
     const { message: userMessage, ...metadata } = chatRequest;
+    // All LLM calls of the turn share one deadline, so it saves the session before its lease expires
+    const turnDeadline = Date.now() + TURN_LLM_DEADLINE_MS;
     const tenantId = chatRequest.tenantId || "default";
     const sessionId = chatRequest.sessionId;
     const language = chatRequest.language;
@@ -50,7 +235,7 @@ export class ChatHandler {
     const dataCollectionTask = new DataCollectionTask(
       this.langfuseService,
       this.memoryService,
-      this.env.TENAT_CONFIG
+      this.tenantConfigService
     );
     const collectedData = await dataCollectionTask.collectData({
       sessionId,
@@ -58,12 +243,120 @@ export class ChatHandler {
       trace,
     });
 
-    // Configure LLM service with tenant-specific API keys if available
-    this.llmService.configureTenantApiKeys(collectedData.tenantConfig);
+    // Record which config version serves this request, even if a later task fails
+    trace.update({
+      metadata: {
+        tenantConfigVersion: collectedData.tenantConfigVersion,
+      },
+    });
+
+    // Session history window, retention and context length follow the tenant's settings
+    const memoryService = this.memoryService.forTenant(
+      collectedData.tenantConfig
+    );
+    const handoffService = new HandoffService(this.env, memoryService);
+    const handoffSettings = collectedData.tenantConfig?.handoff;
+
+    // Staff replies are only handed to the widget holding the session's token,
+    // which is saved with the session and returned with every answer
+    const isNewSessionToken = !collectedData.sessionHistory.sessionToken;
+    if (isNewSessionToken) {
+      collectedData.sessionHistory.sessionToken = crypto.randomUUID();
+    }
+    const { sessionToken } = collectedData.sessionHistory;
+
+    // While staff handle the session, guest messages are queued for them without any LLM call
+    const openHandoff = collectedData.sessionHistory.handoff;
+    if (openHandoff) {
+      const handoff = await handoffService.queueGuestMessage(
+        tenantId,
+        sessionId,
+        collectedData.sessionHistory,
+        openHandoff,
+        userMessage
+      );
+      const queuedMessage =
+        handoffSettings?.queuedMessage || DEFAULT_HANDOFF_QUEUED_MESSAGE;
+      streamHandlers?.onToken(queuedMessage);
+
+      const response = this.buildResponse(
+        sessionId,
+        language || "pl",
+        queuedMessage,
+        [],
+        sessionToken
+      );
+      trace.update({ output: response, metadata: { handoff } });
+      await this.langfuseService.flush();
+      return response;
+    }
+
+    // Enforce the tenant's budget before any LLM call
+    const budgetCheck = await this.checkBudget(
+      tenantId,
+      collectedData.tenantConfig
+    );
+    if (budgetCheck.status !== "ok") {
+      trace.update({
+        metadata: {
+          budgetStatus: budgetCheck.status,
+          budgetBreaches: budgetCheck.breaches,
+        },
+      });
+    }
+
+    if (budgetCheck.status === "hard") {
+      const limitReachedMessage =
+        collectedData.tenantConfig?.budget?.limitReachedMessage ||
+        DEFAULT_LIMIT_REACHED_MESSAGE;
+      streamHandlers?.onToken(limitReachedMessage);
+
+      // No messages are saved, but a new token must be stored before it is handed out
+      if (isNewSessionToken) {
+        try {
+          await memoryService.saveSessionMemory(
+            tenantId,
+            sessionId,
+            collectedData.sessionHistory
+          );
+        } catch (error) {
+          console.error("Failed to save session token:", error);
+        }
+      }
+
+      const response = this.buildResponse(
+        sessionId,
+        language || "pl",
+        limitReachedMessage,
+        [],
+        sessionToken
+      );
+      trace.update({ output: response });
+      await this.langfuseService.flush();
+      return response;
+    }
+
+    // Past a soft limit every task runs on cheaper models
+    const llmConfigs =
+      budgetCheck.status === "soft"
+        ? {
+            guestService: BUDGET_LLM_TASK_CONFIGS.guestServiceTask,
+            buttons: BUDGET_LLM_TASK_CONFIGS.buttonsTask,
+            emailTool: BUDGET_LLM_TASK_CONFIGS.emailTask,
+            excel: BUDGET_LLM_TASK_CONFIGS.excelSheetMatchingTask,
+          }
+        : collectedData.configs;
+
+    // Build LLM providers for this request only, using tenant-specific API keys if available
+    const llmService = await LLMService.forTenant(
+      this.env,
+      collectedData.tenantConfig,
+      turnDeadline
+    );
 
     // Run Excel sheet matching task
     const excelSheetMatchingTask = new ExcelSheetMatchingTask(
-      this.llmService,
+      llmService,
       this.langfuseService
     );
     const excelSheetMatchingResult = await excelSheetMatchingTask.execute({
@@ -71,7 +364,7 @@ export class ChatHandler {
       excelConfig: collectedData.tenantConfig?.["excel-config"] ?? "",
       sessionId,
       excelPrompt: collectedData.prompts.excel || null,
-      llmConfig: collectedData.configs.excel,
+      llmConfig: llmConfigs.excel,
       sessionHistory: collectedData.sessionHistory,
       trace,
     });
@@ -79,71 +372,145 @@ export class ChatHandler {
     // Get recommended sheets from Excel sheet matching result
     const recommendedSheets = excelSheetMatchingResult.recommendedSheets;
 
-    // Run Excel data fetching task
+    // Run Excel data fetching task, retrieving only relevant rows when the tenant opted in
+    const knowledgeSource = await createKnowledgeSource(
+      this.env,
+      tenantId,
+      collectedData.tenantConfig
+    );
+    const retrievalSettings = collectedData.tenantConfig?.retrieval;
     const excelDataFetchingTask = new ExcelDataFetchingTask(
       this.langfuseService,
-      this.googleSheets,
-      this.env.TENAT_KNOWLEDGE_CACHE
+      knowledgeSource,
+      this.env.TENAT_KNOWLEDGE_CACHE,
+      retrievalSettings?.enabled && knowledgeSource
+        ? new SheetRetrievalService(
+            knowledgeSource,
+            createVectorStore(this.env),
+            llmService
+          )
+        : undefined
     );
     const excelDataResult = await excelDataFetchingTask.execute({
       recommendedSheets,
       tenantId,
       sessionId,
-      spreadsheetId: collectedData.tenantConfig?.spreadsheetId,
+      retrieval: retrievalSettings?.enabled
+        ? {
+            query: userMessage,
+            topK: retrievalSettings.topK ?? DEFAULT_RETRIEVAL_TOP_K,
+            maxTokens:
+              retrievalSettings.maxTokens ?? DEFAULT_RETRIEVAL_MAX_TOKENS,
+          }
+        : undefined,
       trace,
     });
 
     // Initialize tasks with shared services
     const guestServiceTask = new GuestServiceTask(
       this.langfuseService,
-      this.llmService
+      llmService
     );
-    const buttonsTask = new ButtonsTask(this.langfuseService, this.llmService);
+    const buttonsTask = new ButtonsTask(this.langfuseService, llmService);
     const emailTask = new EmailTask(
       this.langfuseService,
-      this.llmService,
+      llmService,
       this.emailService,
-      this.memoryService
+      memoryService
+    );
+
+    const guestProfileTask = new GuestProfileTask(
+      this.langfuseService,
+      llmService
     );
+    const escalationTask = new EscalationTask(this.langfuseService, llmService);
+    const previousAssistantMessage = [...collectedData.sessionHistory.messages]
+      .reverse()
+      .find((message) => message.role === "assistant")?.content;
+
+    // Started first, the email task waits for it
+    const guestProfileExtraction = guestProfileTask.execute({
+      userMessage,
+      previousAssistantMessage,
+      guestProfile: collectedData.sessionHistory.guestProfile,
+      sessionId,
+      llmConfig:
+        budgetCheck.status === "soft"
+          ? BUDGET_LLM_TASK_CONFIGS.guestProfileTask
+          : LLM_TASK_CONFIGS.guestProfileTask,
+      trace,
+    });
 
     // Execute all tasks in parallel with error handling
-    const [firstResponse, secondResponse, thirdResponse] =
-      await Promise.allSettled([
-        guestServiceTask.execute({
-          userMessage,
-          sessionHistory: collectedData.sessionHistory,
-          excelData: excelDataResult.excelData,
-          guestServicePrompt: collectedData.prompts.guestService,
-          tenantConfig: collectedData.tenantConfig,
-          sessionId,
-          llmConfig: collectedData.configs.guestService,
-          trace,
-        }),
-        buttonsTask.execute({
+    const [
+      firstResponse,
+      secondResponse,
+      thirdResponse,
+      fourthResponse,
+      fifthResponse,
+    ] = await Promise.allSettled([
+      guestServiceTask.execute({
+        userMessage,
+        sessionHistory: collectedData.sessionHistory,
+        excelData: excelDataResult.excelData,
+        guestServicePrompt: collectedData.prompts.guestService,
+        tenantConfig: collectedData.tenantConfig,
+        sessionId,
+        llmConfig: llmConfigs.guestService,
+        trace,
+        onToken: streamHandlers?.onToken,
+        onStreamReset: streamHandlers?.onReset,
+      }),
+      buttonsTask
+        .execute({
           userMessage,
           excelData: excelDataResult.excelData,
           buttonsPrompt: collectedData.prompts.buttons,
           tenantConfig: collectedData.tenantConfig,
           sessionId,
-          llmConfig: collectedData.configs.buttons,
+          llmConfig: llmConfigs.buttons,
           sessionHistory: collectedData.sessionHistory,
           previousMessageLanguage: language,
           trace,
+        })
+        .then((buttonsResult) => {
+          streamHandlers?.onButtons(buttonsResult);
+          return buttonsResult;
         }),
-        emailTask.execute({
-          userMessage,
-          excelData: excelDataResult.excelData,
-          emailToolPrompt: collectedData.prompts.emailTool,
-          tenantConfig: collectedData.tenantConfig,
-          sessionId,
-          tenantId,
-          llmConfig: collectedData.configs.emailTool,
-          trace,
-        }),
-      ]);
-
-    // Reset to default API keys after processing (optional, for cleanup)
-    this.llmService.resetToDefaultApiKeys();
+      // Prefilled with the details given in this very message, or the known profile if extraction failed
+      guestProfileExtraction
+        .catch(() => null)
+        .then((profileResult) =>
+          emailTask.execute({
+            userMessage,
+            excelData: excelDataResult.excelData,
+            emailToolPrompt: collectedData.prompts.emailTool,
+            tenantConfig: collectedData.tenantConfig,
+            sessionId,
+            tenantId,
+            guestProfile:
+              profileResult?.guestProfile ??
+              collectedData.sessionHistory.guestProfile,
+            llmConfig: llmConfigs.emailTool,
+            trace,
+          })
+        ),
+      // Guest details for the next turns, merged into session memory below
+      guestProfileExtraction,
+      // Only tenants with staff watching hand conversations over
+      handoffSettings?.autoDetect
+        ? escalationTask.execute({
+            userMessage,
+            previousAssistantMessage,
+            sessionId,
+            llmConfig:
+              budgetCheck.status === "soft"
+                ? BUDGET_LLM_TASK_CONFIGS.escalationTask
+                : LLM_TASK_CONFIGS.escalationTask,
+            trace,
+          })
+        : Promise.resolve(null),
+    ]);
 
     // Extract guest service task result - this is critical and should fail the request if it fails
     if (firstResponse.status === "rejected") {
@@ -166,12 +533,10 @@ export class ChatHandler {
       isUpsell: boolean;
     }> = [];
     let detectedLanguage = "en";
-    let buttonsUsage = undefined;
 
     if (secondResponse.status === "fulfilled") {
       buttons = secondResponse.value.buttons;
       detectedLanguage = secondResponse.value.language;
-      buttonsUsage = secondResponse.value.usage;
     } else {
       console.error("Buttons task failed:", secondResponse.reason);
       // Log failure for monitoring [[memory:3315930]]
@@ -192,14 +557,12 @@ export class ChatHandler {
 
     // Extract email task result with fallback to guest service response if failed
     let responseText = guestServiceResult.content;
-    let emailUsage = undefined;
 
     if (thirdResponse.status === "fulfilled") {
       // Use email response text if during email clarification, otherwise use guest service response
       responseText = thirdResponse.value.duringEmailClarification
         ? thirdResponse.value.responseText
         : guestServiceResult.content;
-      emailUsage = thirdResponse.value.usage;
     } else {
       console.error("Email task failed:", thirdResponse.reason);
       if (trace) {
@@ -219,80 +582,202 @@ export class ChatHandler {
       responseText = guestServiceResult.content;
     }
 
-    // Create the response structure
-    const response: ChatResponse = {
-      recipient: {
-        id: sessionId,
-      },
-      messaging_type: "RESPONSE",
-      message: {
-        attachment: {
-          type: "template",
-          payload: {
-            template_type: "button",
-            language: detectedLanguage,
-            text: responseText,
-            buttons,
+    // Keep the known profile if extraction failed
+    let guestProfileResult: GuestProfileTaskOutput | null = null;
+    if (fourthResponse.status === "fulfilled") {
+      guestProfileResult = fourthResponse.value;
+      collectedData.sessionHistory.guestProfile =
+        guestProfileResult.guestProfile;
+    } else {
+      console.error("Guest profile task failed:", fourthResponse.reason);
+      trace.update({
+        metadata: {
+          guestProfileTaskFailure: {
+            error:
+              fourthResponse.reason instanceof Error
+                ? fourthResponse.reason.message
+                : String(fourthResponse.reason),
+            timestamp: new Date().toISOString(),
           },
         },
-      },
-    };
+      });
+    }
+
+    // A guest asking for a person gets the handoff message instead of the bot's answer
+    let escalationResult: EscalationTaskOutput | null = null;
+    if (fifthResponse.status === "fulfilled") {
+      escalationResult = fifthResponse.value;
+    } else {
+      console.error("Escalation task failed:", fifthResponse.reason);
+      trace.update({
+        metadata: {
+          escalationTaskFailure: {
+            error:
+              fifthResponse.reason instanceof Error
+                ? fifthResponse.reason.message
+                : String(fifthResponse.reason),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      });
+    }
 
-    // Save session memory before sending response
+    if (escalationResult?.escalate) {
+      responseText = handoffSettings?.handoffMessage || DEFAULT_HANDOFF_MESSAGE;
+      buttons = [];
+      collectedData.sessionHistory.handoff = handoffService.createHandoff(
+        escalationResult.reason,
+        "guest"
+      );
+      streamHandlers?.onReset();
+      streamHandlers?.onToken(responseText);
+    }
+
+    // Create the response structure
+    const response = this.buildResponse(
+      sessionId,
+      detectedLanguage,
+      responseText,
+      buttons,
+      sessionToken
+    );
+
+    // Save session memory before sending response, summarizing messages that leave the context window
+    const summarizationTask = new SummarizationTask(
+      this.langfuseService,
+      llmService
+    );
+    let summarizationResult: SummarizationTaskOutput | null = null;
     try {
-      await this.memoryService.updateSessionWithConversation({
+      await memoryService.updateSessionWithConversation({
         tenantId,
         sessionId,
         sessionMemory: collectedData.sessionHistory,
         userMessage,
         assistantResponse: responseText,
+        summarize: async (evictedMessages, previousSummary) => {
+          summarizationResult = await summarizationTask.execute({
+            previousSummary,
+            evictedMessages,
+            sessionId,
+            llmConfig:
+              budgetCheck.status === "soft"
+                ? BUDGET_LLM_TASK_CONFIGS.summarizationTask
+                : LLM_TASK_CONFIGS.summarizationTask,
+            trace,
+          });
+          return summarizationResult.summary;
+        },
       });
+
+      // Listed for staff only once the session carrying it is saved
+      const newHandoff = collectedData.sessionHistory.handoff;
+      if (newHandoff) {
+        await handoffService.announceHandoff(
+          tenantId,
+          sessionId,
+          newHandoff,
+          handoffSettings?.notifyEmailTo ||
+            collectedData.tenantConfig?.emailTo ||
+            []
+        );
+      }
     } catch (error) {
       console.error("Failed to save session memory:", error);
       // Don't fail the request if memory saving fails
     }
 
-    // Calculate aggregate usage and costs
-    const allTaskUsages = [
-      guestServiceResult.usage,
-      buttonsUsage,
-      emailUsage,
-      excelSheetMatchingResult.usage,
-    ].filter(Boolean);
+    // Calculate aggregate usage and costs, per task and for the whole request
+    const taskResults = [
+      { task: "GuestServiceTask", result: guestServiceResult },
+      {
+        task: "ButtonsTask",
+        result:
+          secondResponse.status === "fulfilled" ? secondResponse.value : null,
+      },
+      {
+        task: "EmailTask",
+        result:
+          thirdResponse.status === "fulfilled" ? thirdResponse.value : null,
+      },
+      { task: "ExcelSheetMatchingTask", result: excelSheetMatchingResult },
+      { task: "ExcelDataFetchingTask", result: excelDataResult },
+      { task: "GuestProfileTask", result: guestProfileResult },
+      { task: "EscalationTask", result: escalationResult },
+      { task: "SummarizationTask", result: summarizationResult },
+    ];
+
+    const generations: GenerationSpend[] = [];
+    taskResults.forEach(({ task, result }) => {
+      // Tasks that failed or fell back without calling an LLM report no model
+      if (!result?.usage || !result.model || !result.provider) return;
+      generations.push({
+        task,
+        provider: result.provider,
+        model: result.model,
+        usage: result.usage,
+        costUsd:
+          calculateCost(result.usage, result.model, result.provider)?.total ??
+          null,
+      });
+    });
 
     const aggregateUsage: DetailedUsage = {
-      input: allTaskUsages.reduce(
-        (sum, usage) => sum + (usage?.promptTokens || 0),
+      input: generations.reduce(
+        (sum, generation) => sum + generation.usage.promptTokens,
         0
       ),
-      output: allTaskUsages.reduce(
-        (sum, usage) => sum + (usage?.completionTokens || 0),
+      output: generations.reduce(
+        (sum, generation) => sum + generation.usage.completionTokens,
         0
       ),
-      total: allTaskUsages.reduce(
-        (sum, usage) => sum + (usage?.totalTokens || 0),
+      total: generations.reduce(
+        (sum, generation) => sum + generation.usage.totalTokens,
         0
       ),
     };
+    const requestCostUsd = generations.reduce(
+      (sum, generation) => sum + (generation.costUsd ?? 0),
+      0
+    );
+
+    try {
+      await this.spendService.recordRequest(tenantId, sessionId, generations);
+    } catch (error) {
+      console.error("Failed to record tenant spend:", error);
+      // Don't fail the request if spend tracking fails
+    }
 
     // End the trace with the final response and usage summary
     trace.update({
       output: response,
       metadata: {
         tenantId,
+        tenantConfigVersion: collectedData.tenantConfigVersion,
         sessionId,
         detectedLanguage,
         upSellButtons: buttons.filter((button) => button.isUpsell === true)
           .length,
-        taskCount: 4, // guestService, buttons, email, excelSheetMatching
+        taskCount: escalationResult ? 6 : 5, // guestService, buttons, email, excelSheetMatching, guestProfile, escalation
+        handoffRequested: escalationResult?.escalate ?? false,
+        retrievedRows: excelDataResult.retrievedRows ?? null,
         totalTokensUsed: aggregateUsage.total,
         aggregateUsage,
+        requestCostUsd,
+        taskCosts: generations.map(({ task, provider, model, costUsd }) => ({
+          task,
+          provider,
+          model,
+          costUsd,
+        })),
         tasksCompleted: [
           "GuestServiceTask",
           "ButtonsTask",
           "EmailTask",
           "ExcelSheetMatchingTask",
           "ExcelDataFetchingTask",
+          "GuestProfileTask",
+          ...(escalationResult ? ["EscalationTask"] : []),
         ],
       },
     });
@@ -0,0 +1,237 @@
+import { Env, SessionMemory } from "../types";
+import { MemoryService } from "./memory";
+import { LangfuseService } from "./langfuse";
+import { AuditLogService } from "./auditLogService";
+import { HandoffService } from "./handoffService";
+import {
+  SessionCoordinator,
+  getSessionCoordinator,
+  withSessionTurn,
+} from "./sessionCoordinator";
+
+export interface ExportedTrace {
+  id: string;
+  timestamp: string;
+  name?: string | null;
+  input?: unknown;
+  output?: unknown;
+  metadata?: unknown;
+}
+
+export interface SessionExport {
+  tenantId: string;
+  sessionId: string;
+  exportedAt: string;
+  session: SessionMemory | null;
+  emailSession: SessionMemory | null;
+  traces: ExportedTrace[] | null; // null when Langfuse could not be read
+  langfuseError?: string;
+  notes: string[];
+}
+
+export interface SessionErasureResult {
+  tenantId: string;
+  sessionId: string;
+  erasedAt: string;
+  sessionRecordsDeleted: number;
+  langfuseTraceIds: string[];
+  langfuseDeletion: "requested" | "not-needed" | "failed";
+  langfuseError?: string;
+  notes: string[];
+}
+
+// Data this service cannot reach, reported with every export and erasure
+const EMAIL_NOTE =
+  "Emails sent to hotel staff are not stored by the chat service. The email session shows the conversation that produced them; copies remain in the recipients' mailboxes and in the Resend email log until its retention expires.";
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Export and erasure of everything stored about one chat session (GDPR articles 15, 17 and 20).
+ * Every request is written to the tenant's audit log, including failed ones.
+ */
+export class DataSubjectService {
+  private memoryService: MemoryService;
+  private langfuseService: LangfuseService;
+  private auditLogService: AuditLogService;
+  private handoffService: HandoffService;
+  private sessionCoordinator: DurableObjectNamespace<SessionCoordinator>;
+
+  constructor(env: Env) {
+    this.sessionCoordinator = env.SESSION_COORDINATOR;
+    this.memoryService = new MemoryService(env);
+    this.langfuseService = new LangfuseService(env);
+    this.auditLogService = new AuditLogService(env);
+    this.handoffService = new HandoffService(env, this.memoryService);
+  }
+
+  /**
+   * Collect the stored chat and email sessions and the session's Langfuse traces
+   * @param tenantId The tenant ID
+   * @param sessionId The chat session ID
+   * @param actor Who requested the export
+   */
+  async exportSession(
+    tenantId: string,
+    sessionId: string,
+    actor: string
+  ): Promise<SessionExport> {
+    const { session, emailSession } =
+      await this.memoryService.getStoredSessionData(tenantId, sessionId);
+
+    let traces: ExportedTrace[] | null = null;
+    let langfuseError: string | undefined;
+    try {
+      traces = (
+        await this.langfuseService.listSessionTraces(tenantId, sessionId)
+      ).map(({ id, timestamp, name, input, output, metadata }) => ({
+        id,
+        timestamp,
+        name,
+        input,
+        output,
+        metadata,
+      }));
+    } catch (error) {
+      console.error(`Failed to read Langfuse traces for ${sessionId}:`, error);
+      langfuseError = getErrorMessage(error);
+    }
+
+    await this.auditLogService.record({
+      tenantId,
+      action: "session.export",
+      actor,
+      target: { sessionId },
+      outcome: langfuseError ? "partial" : "success",
+      details: {
+        chatMessages: session?.messages.length ?? 0,
+        emailMessages: emailSession?.messages.length ?? 0,
+        traces: traces?.length ?? null,
+        ...(langfuseError && { langfuseError }),
+      },
+    });
+
+    return {
+      tenantId,
+      sessionId,
+      exportedAt: new Date().toISOString(),
+      session,
+      emailSession,
+      traces,
+      ...(langfuseError && { langfuseError }),
+      notes: [EMAIL_NOTE],
+    };
+  }
+
+  /**
+   * Delete the stored chat and email sessions and request deletion of the session's Langfuse traces.
+   * Safe to repeat: a retry after a Langfuse failure finds the remaining traces again.
+   * The records are deleted in a turn of the session, so a chat turn in progress
+   * cannot save the session again afterwards.
+   * @param tenantId The tenant ID
+   * @param sessionId The chat session ID
+   * @param actor Who requested the erasure
+   * @throws SessionBusyError when the guest's turn did not finish in time
+   */
+  async eraseSession(
+    tenantId: string,
+    sessionId: string,
+    actor: string
+  ): Promise<SessionErasureResult> {
+    let sessionRecordsDeleted: number;
+    try {
+      sessionRecordsDeleted = await withSessionTurn(
+        this.sessionCoordinator,
+        tenantId,
+        sessionId,
+        () => this.deleteSessionRecords(tenantId, sessionId)
+      );
+    } catch (error) {
+      await this.auditLogService.record({
+        tenantId,
+        action: "session.erase",
+        actor,
+        target: { sessionId },
+        outcome: "failure",
+        details: { error: getErrorMessage(error) },
+      });
+      throw error;
+    }
+
+    let langfuseTraceIds: string[] = [];
+    let langfuseError: string | undefined;
+    try {
+      langfuseTraceIds = (
+        await this.langfuseService.listSessionTraces(tenantId, sessionId)
+      ).map((trace) => trace.id);
+      if (langfuseTraceIds.length > 0) {
+        await this.langfuseService.deleteTraces(langfuseTraceIds);
+      }
+    } catch (error) {
+      console.error(
+        `Failed to delete Langfuse traces for ${sessionId}:`,
+        error
+      );
+      langfuseError = getErrorMessage(error);
+    }
+
+    const langfuseDeletion = langfuseError
+      ? "failed"
+      : langfuseTraceIds.length > 0
+      ? "requested"
+      : "not-needed";
+
+    await this.auditLogService.record({
+      tenantId,
+      action: "session.erase",
+      actor,
+      target: { sessionId },
+      outcome: langfuseError ? "partial" : "success",
+      details: {
+        sessionRecordsDeleted,
+        langfuseTraceIds,
+        langfuseDeletion,
+        ...(langfuseError && { langfuseError }),
+      },
+    });
+
+    return {
+      tenantId,
+      sessionId,
+      erasedAt: new Date().toISOString(),
+      sessionRecordsDeleted,
+      langfuseTraceIds,
+      langfuseDeletion,
+      ...(langfuseError && { langfuseError }),
+      notes: [EMAIL_NOTE],
+    };
+  }
+
+  /**
+   * Delete the KV records and stored answers of a session
+   * @returns How many session records existed
+   */
+  private async deleteSessionRecords(
+    tenantId: string,
+    sessionId: string
+  ): Promise<number> {
+    const { session, emailSession } =
+      await this.memoryService.getStoredSessionData(tenantId, sessionId);
+
+    await Promise.all([
+      this.memoryService.clearSessionMemory(tenantId, sessionId),
+      this.memoryService.clearEmailSessionMemory({ tenantId, sessionId }),
+      this.handoffService.deleteHandoffRecord(tenantId, sessionId),
+      // Answers kept for repeated submissions, they expire after minutes anyway
+      getSessionCoordinator(
+        this.sessionCoordinator,
+        tenantId,
+        sessionId
+      ).forgetAnswers(),
+    ]);
+
+    return [session, emailSession].filter(Boolean).length;
+  }
+}
@@ -2,12 +2,140 @@ import { GoogleSpreadsheet } from "google-spreadsheet";
 // @ts-ignore
 import json2md from "json2md";
 import { Env } from "../types";
+import {
+  KnowledgeSource,
+  SheetFetchErrorKind,
+  SheetFetchFailure,
+  SheetFetchResult,
+  SheetTable,
+  getSheetFetchErrorKind,
+  normalizeCell,
+  sheetTableToMarkdown,
+  sheetTableToMarkdownParts,
+  unwrapSheetFetchResult,
+} from "./knowledge/knowledgeSource";
+
+interface CachedAccessToken {
+  accessToken: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+// Tokens are replaced this long before Google expires them
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// KV rejects shorter TTLs
+const MIN_KV_TTL_SECONDS = 60;
+
+// Shared by every request this isolate serves, keyed by service account email
+const accessTokens = new Map<string, CachedAccessToken>();
+const pendingAccessTokens = new Map<string, Promise<CachedAccessToken>>();
+let privateKeyCache: { pem: string; key: Promise<CryptoKey> } | null = null;
+
+/**
+ * Thrown when no access token can be obtained for the service account
+ */
+export class GoogleAuthError extends Error {
+  readonly status?: number; // Status of the token endpoint, unset when it was never reached
+  readonly transient: boolean; // Network errors, 429 and 5xx may pass on their own
+
+  constructor(
+    message: string,
+    status?: number,
+    transient: boolean = status === 429 ||
+      (status !== undefined && status >= 500)
+  ) {
+    super(message);
+    this.name = "GoogleAuthError";
+    this.status = status;
+    this.transient = transient;
+  }
+}
+
+function isTokenUsable(token: CachedAccessToken): boolean {
+  return Date.now() < token.expiresAt - TOKEN_REFRESH_MARGIN_MS;
+}
+
+/**
+ * Error kind of a Google API answer. A disabled API and an exhausted quota are
+ * both 403s, told apart only by the message.
+ */
+function getGoogleErrorKind(
+  httpStatus: number | undefined,
+  message: string
+): SheetFetchErrorKind {
+  if (httpStatus === 403 && /has not been used|is disabled/i.test(message)) {
+    return "api-disabled";
+  }
+  if (httpStatus === 403 && /quota|rate limit/i.test(message)) {
+    return "quota";
+  }
+  // values:batchGet answers an unknown sheet name with a 400
+  if (httpStatus === 400 && /unable to parse range/i.test(message)) {
+    return "not-found";
+  }
+  return getSheetFetchErrorKind(httpStatus);
+}
+
+/**
+ * HTTP status of an error thrown by google-spreadsheet, whose axios errors carry the response
+ */
+function getGoogleHttpStatus(error: unknown): number | undefined {
+  const status = (error as { response?: { status?: unknown } } | null)?.response
+    ?.status;
+  return typeof status === "number" ? status : undefined;
+}
 
-export class GoogleSheets {
+/**
+ * Describe an error thrown while reading a spreadsheet as a failed result
+ */
+function toGoogleFetchFailure(error: unknown): SheetFetchFailure {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof GoogleAuthError) {
+    return {
+      status: "failed",
+      kind: error.transient ? "transient" : "auth",
+      message,
+      httpStatus: error.status,
+    };
+  }
+
+  const httpStatus = getGoogleHttpStatus(error);
+  return {
+    status: "failed",
+    kind: getGoogleErrorKind(httpStatus, message),
+    message,
+    httpStatus,
+  };
+}
+
+/**
+ * Describe an error answer of the Sheets REST API as a failed result
+ */
+async function toGoogleApiFailure(
+  response: Response
+): Promise<SheetFetchFailure> {
+  const errorBody = (await response.json().catch(() => null)) as {
+    error?: { message?: string };
+  } | null;
+  const message = errorBody?.error?.message || response.statusText;
+  return {
+    status: "failed",
+    kind: getGoogleErrorKind(response.status, message),
+    message: `Google API error - [${response.status}] ${message}`,
+    httpStatus: response.status,
+  };
+}
+
+export class GoogleSheets implements KnowledgeSource {
+  readonly type = "google-sheets";
   private env: Env;
+  private spreadsheetId?: string;
 
-  constructor(env: Env) {
+  /**
+   * @param spreadsheetId - Spreadsheet read as a knowledge source (optional, falls back to environment variable)
+   */
+  constructor(env: Env, spreadsheetId?: string) {
     this.env = env;
+    this.spreadsheetId = spreadsheetId;
   }
 
   /**
@@ -38,7 +166,7 @@ export class GoogleSheets {
       /\\n/g,
       "\n"
     );
-    const privateKey = await this.importPrivateKey(privateKeyPem);
+    const privateKey = await this.getPrivateKey(privateKeyPem);
 
     // Sign the token
     const encoder = new TextEncoder();
@@ -52,6 +180,22 @@ export class GoogleSheets {
     return `${unsignedToken}.${encodedSignature}`;
   }
 
+  /**
+   * Import the private key once per isolate, a failed import is retried on the next call
+   */
+  private getPrivateKey(privateKeyPem: string): Promise<CryptoKey> {
+    if (privateKeyCache?.pem !== privateKeyPem) {
+      const key = this.importPrivateKey(privateKeyPem);
+      privateKeyCache = { pem: privateKeyPem, key };
+      key.catch(() => {
+        if (privateKeyCache?.key === key) {
+          privateKeyCache = null;
+        }
+      });
+    }
+    return privateKeyCache.key;
+  }
+
   /**
    * Import private key for signing
    */
@@ -98,32 +242,146 @@ export class GoogleSheets {
     return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=/g, "");
   }
 
+  private getTokenCacheKey(): string {
+    return `google-token:${this.env.GOOGLE_SERVICE_ACCOUNT_EMAIL}`;
+  }
+
   /**
-   * Get access token using service account JWT
+   * Get an access token, reusing one cached in memory or KV until shortly before it expires.
+   * Concurrent callers in the same isolate share one refresh.
+   * @throws GoogleAuthError when no token can be obtained
    */
   private async getAccessToken(): Promise<string> {
-    const jwt = await this.createJWT();
+    const email = this.env.GOOGLE_SERVICE_ACCOUNT_EMAIL;
+    const cached = accessTokens.get(email);
+    if (cached && isTokenUsable(cached)) {
+      return cached.accessToken;
+    }
 
-    const response = await fetch("https://oauth2.googleapis.com/token", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
-        assertion: jwt,
-      }),
-    });
+    let pending = pendingAccessTokens.get(email);
+    if (!pending) {
+      pending = this.loadAccessToken().finally(() =>
+        pendingAccessTokens.delete(email)
+      );
+      pendingAccessTokens.set(email, pending);
+    }
+    return (await pending).accessToken;
+  }
+
+  /**
+   * Read the token other isolates cached in KV, or request a new one and cache it there
+   */
+  private async loadAccessToken(): Promise<CachedAccessToken> {
+    const email = this.env.GOOGLE_SERVICE_ACCOUNT_EMAIL;
+    const cacheKey = this.getTokenCacheKey();
+
+    try {
+      const stored =
+        await this.env.TENAT_KNOWLEDGE_CACHE.get<CachedAccessToken>(
+          cacheKey,
+          "json"
+        );
+      if (stored && isTokenUsable(stored)) {
+        accessTokens.set(email, stored);
+        return stored;
+      }
+    } catch (error) {
+      console.warn("Failed to read cached Google access token:", error);
+    }
+
+    const token = await this.requestAccessToken();
+    accessTokens.set(email, token);
+
+    const ttlSeconds = Math.floor(
+      (token.expiresAt - TOKEN_REFRESH_MARGIN_MS - Date.now()) / 1000
+    );
+    if (ttlSeconds >= MIN_KV_TTL_SECONDS) {
+      try {
+        await this.env.TENAT_KNOWLEDGE_CACHE.put(
+          cacheKey,
+          JSON.stringify(token),
+          { expirationTtl: ttlSeconds }
+        );
+      } catch (error) {
+        console.warn("Failed to cache Google access token:", error);
+        // The token still serves this isolate
+      }
+    }
+    return token;
+  }
+
+  /**
+   * Exchange a service account JWT for an access token
+   */
+  private async requestAccessToken(): Promise<CachedAccessToken> {
+    let jwt: string;
+    try {
+      jwt = await this.createJWT();
+    } catch (error) {
+      throw new GoogleAuthError(
+        `Failed to sign the service account JWT: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    let response: Response;
+    try {
+      response = await fetch("https://oauth2.googleapis.com/token", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+          assertion: jwt,
+        }),
+      });
+    } catch (error) {
+      throw new GoogleAuthError(
+        `Failed to reach the Google token endpoint: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        undefined,
+        true
+      );
+    }
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(
-        `Failed to get access token: ${response.status} ${errorText}`
+      throw new GoogleAuthError(
+        `Failed to get access token: ${response.status} ${errorText}`,
+        response.status
+      );
+    }
+
+    const data = (await response.json()) as {
+      access_token?: string;
+      expires_in?: number; // Seconds
+    };
+    if (!data.access_token) {
+      throw new GoogleAuthError(
+        "Google token response has no access_token",
+        response.status
       );
     }
 
-    const data = (await response.json()) as { access_token: string };
-    return data.access_token;
+    return {
+      accessToken: data.access_token,
+      expiresAt: Date.now() + (data.expires_in ?? 3600) * 1000,
+    };
+  }
+
+  /**
+   * Forget a token Google rejected, in this isolate and in KV
+   */
+  private async invalidateAccessToken(): Promise<void> {
+    accessTokens.delete(this.env.GOOGLE_SERVICE_ACCOUNT_EMAIL);
+    try {
+      await this.env.TENAT_KNOWLEDGE_CACHE.delete(this.getTokenCacheKey());
+    } catch (error) {
+      console.warn("Failed to delete cached Google access token:", error);
+    }
   }
 
   /**
@@ -140,186 +398,337 @@ export class GoogleSheets {
   }
 
   /**
-   * Collect markdown from every sheet in the spreadsheet
-   * @param spreadSheetId - The ID of the Google Sheets document (optional, falls back to environment variable)
-   * @returns Promise<string> - All sheets formatted as markdown
+   * Open a spreadsheet with its sheet list loaded. A cached token that Google rejects
+   * before it expires (e.g. after the key was rotated) is replaced once.
    */
-  async collectAllSheetsAsMarkdown(spreadSheetId?: string): Promise<string> {
+  private async loadDocument(documentId: string): Promise<GoogleSpreadsheet> {
+    const doc = await this.createAuthenticatedDoc(documentId);
     try {
-      const documentId = spreadSheetId || this.env.GOOGLE_SHEETS_DOCUMENT_ID;
-      const doc = await this.createAuthenticatedDoc(documentId);
-
       await doc.loadInfo();
+      return doc;
+    } catch (error) {
+      if (getGoogleHttpStatus(error) !== 401) {
+        throw error;
+      }
 
-      const markdownParts: any[] = [
-        { h1: doc.title },
-        {
-          blockquote: `Wszystkie dane z arkusza Google Sheets - ${doc.sheetCount} arkuszy`,
-        },
-        { hr: "" },
-      ];
-
-      // Process all sheets in parallel for much faster performance
-      const sheetPromises = [];
-      for (let i = 0; i < doc.sheetCount; i++) {
-        const sheet = doc.sheetsByIndex[i];
-        if (!sheet) continue;
+      await this.invalidateAccessToken();
+      const retryDoc = await this.createAuthenticatedDoc(documentId);
+      await retryDoc.loadInfo();
+      return retryDoc;
+    }
+  }
 
-        sheetPromises.push(this.processSheet(sheet, i));
-      }
+  /**
+   * Collect markdown from every sheet in the spreadsheet
+   * @param spreadSheetId - The ID of the Google Sheets document (optional, falls back to environment variable)
+   * @returns Promise<SheetFetchResult<string>> - All sheets formatted as markdown, or why they could not be read
+   */
+  async collectAllSheetsAsMarkdown(
+    spreadSheetId?: string
+  ): Promise<SheetFetchResult<string>> {
+    try {
+      const documentId = spreadSheetId || this.env.GOOGLE_SHEETS_DOCUMENT_ID;
+      const doc = await this.loadDocument(documentId);
 
-      // Wait for all sheets to be processed
-      const sheetResults = await Promise.allSettled(sheetPromises);
-
-      // Add results in original order
-      sheetResults.forEach((result) => {
-        if (result.status === "fulfilled") {
-          markdownParts.push(...result.value);
-        } else {
-          console.error("Sheet processing failed:", result.reason);
-          markdownParts.push(
-            { h2: "Błąd arkusza" },
-            {
-              blockquote: `Błąd podczas przetwarzania: ${
-                result.reason instanceof Error
-                  ? result.reason.message
-                  : String(result.reason)
-              }`,
-            }
-          );
-        }
-      });
+      // Read all sheets in parallel for much faster performance
+      const sheetTables = await Promise.all(
+        doc.sheetsByIndex.map((sheet) => this.readSheetTable(sheet))
+      );
 
-      return json2md(markdownParts);
+      return {
+        status: "fetched",
+        value: json2md([
+          { h1: doc.title },
+          {
+            blockquote: `Wszystkie dane z arkusza Google Sheets - ${doc.sheetCount} arkuszy`,
+          },
+          { hr: "" },
+          ...sheetTables.flatMap(sheetTableToMarkdownParts),
+        ]),
+      };
     } catch (error) {
       console.error("Error collecting all sheets as markdown:", error);
-      return json2md([
-        { h1: "Error" },
-        { p: "Spreadsheet ID: " + spreadSheetId },
-        {
-          blockquote: `Przepraszam, wystąpił błąd podczas odczytywania arkuszy: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        },
-      ]);
+      return toGoogleFetchFailure(error);
     }
   }
 
   /**
    * Collect markdown from a specific sheet by name
    * @param spreadSheetId - The ID of the Google Sheets document (optional, falls back to environment variable)
-   * @param sheetName - The name of the sheet to collect
-   * @returns Promise<string> - Sheet formatted as markdown
+   * @param sheetName - The name of the sheet to collect (optional, defaults to the first sheet)
+   * @returns Promise<SheetFetchResult<string>> - Sheet formatted as markdown, or why it could not be read
    */
   async collectSheetAsMarkdown(
     spreadSheetId?: string,
     sheetName?: string
-  ): Promise<string> {
+  ): Promise<SheetFetchResult<string>> {
+    const result = await this.fetchSheetTable(spreadSheetId, sheetName);
+    if (result.status === "failed") {
+      console.error(
+        `Error collecting sheet "${sheetName}" as markdown (${result.kind}):`,
+        result.message
+      );
+      return result;
+    }
+
+    return { status: "fetched", value: sheetTableToMarkdown(result.value) };
+  }
+
+  /**
+   * Read the rows of a specific sheet by name, for row-level processing
+   * @param spreadSheetId - The ID of the Google Sheets document (optional, falls back to environment variable)
+   * @param sheetName - The name of the sheet to read (optional, defaults to the first sheet)
+   * @returns Promise<SheetFetchResult<SheetTable>> - Headers and rows, no headers when the sheet has none
+   */
+  async fetchSheetTable(
+    spreadSheetId: string | undefined,
+    sheetName?: string
+  ): Promise<SheetFetchResult<SheetTable>> {
     try {
       const documentId = spreadSheetId || this.env.GOOGLE_SHEETS_DOCUMENT_ID;
-      const doc = await this.createAuthenticatedDoc(documentId);
-
-      await doc.loadInfo();
+      const doc = await this.loadDocument(documentId);
 
-      // Find the sheet by name
       const sheet = sheetName
         ? doc.sheetsByTitle[sheetName]
-        : doc.sheetsByIndex[0]; // Default to first sheet if no name provided
-
+        : doc.sheetsByIndex[0];
       if (!sheet) {
-        throw new Error(`Sheet "${sheetName}" not found in spreadsheet`);
+        return {
+          status: "failed",
+          kind: "not-found",
+          message: `Sheet "${sheetName}" not found in spreadsheet`,
+        };
       }
 
-      // Process the specific sheet
-      const sheetMarkdownParts = await this.processSheet(sheet, 0);
+      return { status: "fetched", value: await this.readSheetTable(sheet) };
+    } catch (error) {
+      return toGoogleFetchFailure(error);
+    }
+  }
+
+  /**
+   * Read the rows of a specific sheet by name, for row-level processing
+   * @param spreadSheetId - The ID of the Google Sheets document (optional, falls back to environment variable)
+   * @param sheetName - The name of the sheet to read
+   * @returns Promise<SheetTable> - Headers and rows; no headers when the sheet has none
+   * @throws SheetFetchError when the spreadsheet cannot be read or has no such sheet
+   */
+  async collectSheetTable(
+    spreadSheetId: string | undefined,
+    sheetName: string
+  ): Promise<SheetTable> {
+    return unwrapSheetFetchResult(
+      await this.fetchSheetTable(spreadSheetId, sheetName)
+    );
+  }
 
-      return json2md(sheetMarkdownParts);
+  async listSheetNames(): Promise<string[]> {
+    try {
+      const doc = await this.loadDocument(
+        this.spreadsheetId || this.env.GOOGLE_SHEETS_DOCUMENT_ID
+      );
+      return doc.sheetsByIndex.map((sheet) => sheet.title);
     } catch (error) {
-      console.error(
-        `Error collecting sheet "${sheetName}" as markdown:`,
-        error
+      return unwrapSheetFetchResult(toGoogleFetchFailure(error));
+    }
+  }
+
+  async getSheetTable(sheetName: string): Promise<SheetTable> {
+    return this.collectSheetTable(this.spreadsheetId, sheetName);
+  }
+
+  async getSheetMarkdown(sheetName: string): Promise<string> {
+    return unwrapSheetFetchResult(await this.fetchSheetMarkdown(sheetName));
+  }
+
+  async fetchSheetMarkdown(
+    sheetName: string
+  ): Promise<SheetFetchResult<string>> {
+    return this.collectSheetAsMarkdown(this.spreadsheetId, sheetName);
+  }
+
+  async fetchSheetMarkdowns(
+    sheetNames: string[]
+  ): Promise<SheetFetchResult<Map<string, string>>> {
+    const result = await this.batchGetSheetTables(
+      this.spreadsheetId || this.env.GOOGLE_SHEETS_DOCUMENT_ID,
+      sheetNames
+    );
+    if (result.status === "failed") {
+      return result;
+    }
+
+    return {
+      status: "fetched",
+      value: new Map(
+        result.value.map((table) => [table.title, sheetTableToMarkdown(table)])
+      ),
+    };
+  }
+
+  /**
+   * Read several sheets with a single values:batchGet call, without loading the spreadsheet info.
+   * values:batchGet fails as a whole on one unknown sheet name; the names are then checked
+   * against the spreadsheet's sheet titles and the batch is retried once without the missing ones.
+   * @param spreadSheetId - The ID of the Google Sheets document
+   * @param sheetNames - The names of the sheets to read
+   * @returns Promise<SheetFetchResult<SheetTable[]>> - One table per existing sheet in the order
+   * requested; sheets that do not exist are left out
+   */
+  async batchGetSheetTables(
+    spreadSheetId: string,
+    sheetNames: string[]
+  ): Promise<SheetFetchResult<SheetTable[]>> {
+    const result = await this.requestValueRanges(spreadSheetId, sheetNames);
+    if (result.status === "fetched" || result.kind !== "not-found") {
+      return result;
+    }
+
+    // Without the titles, a sheet that exists must not be reported as not found
+    const titles = await this.fetchSheetTitles(spreadSheetId);
+    if (titles.status === "failed") {
+      return titles;
+    }
+
+    const existingSheetNames = sheetNames.filter((sheetName) =>
+      titles.value.includes(sheetName)
+    );
+    if (existingSheetNames.length === sheetNames.length) {
+      // Every sheet exists, so the failure was not caused by a sheet name
+      return result;
+    }
+    console.warn(
+      `Sheets not found in spreadsheet, left out of the batch: ${sheetNames
+        .filter((sheetName) => !existingSheetNames.includes(sheetName))
+        .join(", ")}`
+    );
+    if (existingSheetNames.length === 0) {
+      return { status: "fetched", value: [] };
+    }
+    return this.requestValueRanges(spreadSheetId, existingSheetNames);
+  }
+
+  /**
+   * One values:batchGet call for whole sheets
+   */
+  private async requestValueRanges(
+    spreadSheetId: string,
+    sheetNames: string[]
+  ): Promise<SheetFetchResult<SheetTable[]>> {
+    const params = new URLSearchParams({
+      majorDimension: "ROWS",
+      valueRenderOption: "FORMATTED_VALUE",
+    });
+    sheetNames.forEach((sheetName) =>
+      // A quoted sheet name is read as the whole sheet
+      params.append("ranges", `'${sheetName.replace(/'/g, "''")}'`)
+    );
+
+    let response: Response;
+    try {
+      response = await this.fetchSheetsApi(
+        `https://sheets.googleapis.com/v4/spreadsheets/${encodeURIComponent(
+          spreadSheetId
+        )}/values:batchGet?${params}`
       );
-      return json2md([
-        { h2: "Error" },
-        { p: `Sheet: ${sheetName}` },
-        {
-          blockquote: `Przepraszam, wystąpił błąd podczas odczytywania arkusza: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        },
-      ]);
+    } catch (error) {
+      return toGoogleFetchFailure(error);
+    }
+
+    if (!response.ok) {
+      return toGoogleApiFailure(response);
     }
+
+    const data = (await response.json()) as {
+      valueRanges?: Array<{ values?: unknown[][] }>;
+    };
+
+    return {
+      status: "fetched",
+      value: sheetNames.map((sheetName, index) => {
+        const [headerRow = [], ...rows] =
+          data.valueRanges?.[index]?.values ?? [];
+        const headers = headerRow.map(normalizeCell);
+
+        return {
+          title: sheetName,
+          headers: headers.some(Boolean) ? headers : [],
+          rows: rows.map((row) =>
+            headers.map((_, column) => normalizeCell(row[column]))
+          ),
+        };
+      }),
+    };
   }
 
   /**
-   * Process a single sheet in parallel
-   * @param sheet The sheet to process
-   * @param index Sheet index for error reporting
-   * @returns Promise<any[]> Markdown parts for this sheet
+   * Titles of all sheets, read with the REST API without loading the sheets' cells
    */
-  private async processSheet(sheet: any, index: number): Promise<any[]> {
+  private async fetchSheetTitles(
+    spreadSheetId: string
+  ): Promise<SheetFetchResult<string[]>> {
+    let response: Response;
     try {
-      // Load header and rows in parallel
-      const [, rows] = await Promise.all([
-        sheet.loadHeaderRow(),
-        sheet.getRows(),
-      ]);
-
-      const headers = sheet.headerValues;
-
-      if (!headers || headers.length === 0) {
-        return [
-          { h2: sheet.title },
-          { p: "Arkusz nie zawiera nagłówków." },
-          { hr: "" },
-        ];
-      }
+      response = await this.fetchSheetsApi(
+        `https://sheets.googleapis.com/v4/spreadsheets/${encodeURIComponent(
+          spreadSheetId
+        )}?fields=sheets.properties.title`
+      );
+    } catch (error) {
+      return toGoogleFetchFailure(error);
+    }
 
-      if (rows.length === 0) {
-        return [
-          { h2: sheet.title },
-          { p: "Arkusz nie zawiera danych." },
-          { hr: "" },
-        ];
-      }
+    if (!response.ok) {
+      return toGoogleApiFailure(response);
+    }
+
+    const data = (await response.json()) as {
+      sheets?: Array<{ properties?: { title?: string } }>;
+    };
+    return {
+      status: "fetched",
+      value: (data.sheets ?? []).flatMap((sheet) =>
+        sheet.properties?.title !== undefined ? [sheet.properties.title] : []
+      ),
+    };
+  }
 
-      // Prepare table data
-      const tableRows = rows.map((row: any) => {
-        return headers.map((header: string) => {
-          const cellValue = row.get(header) || "";
-          return (
-            String(cellValue)
-              .replace(/\n/g, " ")
-              .replace(/\r/g, "")
-              .replace(/\|/g, "\\|")
-              .trim() || "-"
-          );
-        });
+  /**
+   * Call the Sheets REST API, replacing a cached token that Google rejects once
+   */
+  private async fetchSheetsApi(url: string): Promise<Response> {
+    const request = async () =>
+      fetch(url, {
+        headers: { Authorization: `Bearer ${await this.getAccessToken()}` },
       });
 
-      return [
-        { h2: sheet.title },
-        {
-          table: {
-            headers: headers,
-            rows: tableRows,
-          },
-        },
-        { hr: "" },
-      ];
-    } catch (sheetError) {
-      console.error(`Error processing sheet ${index}:`, sheetError);
-      return [
-        { h2: `Arkusz ${index + 1}` },
-        {
-          blockquote: `Błąd podczas przetwarzania: ${
-            sheetError instanceof Error
-              ? sheetError.message
-              : String(sheetError)
-          }`,
-        },
-        { hr: "" },
-      ];
+    const response = await request();
+    if (response.status !== 401) {
+      return response;
     }
+
+    await response.body?.cancel();
+    await this.invalidateAccessToken();
+    return request();
+  }
+
+  /**
+   * Load the header row and all rows of a sheet
+   */
+  private async readSheetTable(sheet: any): Promise<SheetTable> {
+    // Load header and rows in parallel
+    const [, rows] = await Promise.all([
+      sheet.loadHeaderRow(),
+      sheet.getRows(),
+    ]);
+
+    const headers: string[] = sheet.headerValues || [];
+
+    return {
+      title: sheet.title,
+      headers,
+      rows: rows.map((row: any) =>
+        headers.map((header: string) => normalizeCell(row.get(header)))
+      ),
+    };
   }
 }
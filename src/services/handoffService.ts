@@ -0,0 +1,300 @@
+import { Env, SessionHandoff, SessionMemory } from "../types";
+import { MemoryService } from "./memory";
+import { EmailService } from "./emailService";
+import { SessionCoordinator, withSessionTurn } from "./sessionCoordinator";
+
+export interface HandoffConversation extends SessionHandoff {
+  sessionId: string;
+}
+
+export type HandoffUpdateResult =
+  | { status: "updated"; handoff: SessionHandoff | null } // null once handed back to the bot
+  | { status: "session-not-found" }
+  | { status: "not-in-handoff" };
+
+/**
+ * Human handoff: while a session carries a handoff, guest messages are queued for
+ * hotel staff instead of being answered by the bot. Each handoff is also listed in a
+ * `handoff:` record whose KV metadata holds its state, so open conversations can be
+ * listed without reading every session.
+ */
+export class HandoffService {
+  private kv: KVNamespace;
+  private memoryService: MemoryService;
+  private emailService: EmailService;
+  private sessionCoordinator: DurableObjectNamespace<SessionCoordinator>;
+
+  /**
+   * @param env - Worker environment
+   * @param memoryService - Memory service with the tenant's session settings
+   */
+  constructor(env: Env, memoryService: MemoryService) {
+    this.kv = env.CHAT_SESSIONS;
+    this.memoryService = memoryService;
+    this.emailService = new EmailService(env);
+    this.sessionCoordinator = env.SESSION_COORDINATOR;
+  }
+
+  private getHandoffKeyPrefix(tenantId: string): string {
+    return `handoff:${tenantId}:`;
+  }
+
+  /**
+   * Create the handoff state of a session, stored by the caller with the session memory
+   */
+  createHandoff(
+    reason: string,
+    requestedBy: SessionHandoff["requestedBy"]
+  ): SessionHandoff {
+    return {
+      status: "waiting",
+      requestedBy,
+      reason,
+      requestedAt: new Date().toISOString(),
+      pendingMessages: 0,
+    };
+  }
+
+  /**
+   * List a stored handoff and tell reception about it
+   * @param notifyEmailTo - Recipients of the notification, none skips it
+   */
+  async announceHandoff(
+    tenantId: string,
+    sessionId: string,
+    handoff: SessionHandoff,
+    notifyEmailTo: string[]
+  ): Promise<void> {
+    await this.saveHandoffRecord(tenantId, sessionId, handoff);
+
+    if (notifyEmailTo.length === 0) return;
+    try {
+      await this.emailService.sendEmail({
+        to: notifyEmailTo,
+        subject: `[${tenantId}] Guest conversation waiting for staff`,
+        text: [
+          `A guest conversation was handed over to staff (${
+            handoff.requestedBy === "guest"
+              ? "requested by the guest"
+              : "taken over by staff"
+          }).`,
+          "",
+          `Session: ${sessionId}`,
+          `Reason: ${handoff.reason}`,
+          "",
+          "The bot will not answer this guest until the conversation is handed back.",
+        ].join("\n"),
+      });
+    } catch (error) {
+      // The conversation is listed either way
+      console.error(`Failed to send handoff email for ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Store a guest message for staff; called inside the guest's own turn
+   */
+  async queueGuestMessage(
+    tenantId: string,
+    sessionId: string,
+    sessionMemory: SessionMemory,
+    handoff: SessionHandoff,
+    message: string
+  ): Promise<SessionHandoff> {
+    const now = new Date();
+    sessionMemory.messages.push({
+      role: "user",
+      content: message,
+      timestamp: now.getTime(),
+    });
+    sessionMemory.handoff = {
+      ...handoff,
+      status: "waiting",
+      pendingMessages: handoff.pendingMessages + 1,
+      lastGuestMessageAt: now.toISOString(),
+    };
+
+    await this.memoryService.saveSessionMemory(
+      tenantId,
+      sessionId,
+      sessionMemory
+    );
+    await this.saveHandoffRecord(tenantId, sessionId, sessionMemory.handoff);
+    return sessionMemory.handoff;
+  }
+
+  /**
+   * Open conversations of a tenant, those waiting for staff first, one KV page at a time
+   * @param cursor Cursor returned by the previous page
+   */
+  async listHandoffs(
+    tenantId: string,
+    cursor?: string
+  ): Promise<{ conversations: HandoffConversation[]; cursor?: string }> {
+    const prefix = this.getHandoffKeyPrefix(tenantId);
+    const result = await this.kv.list<SessionHandoff>({
+      prefix,
+      cursor,
+      limit: 100,
+    });
+
+    const conversations = result.keys
+      .filter((key) => key.metadata)
+      .map((key) => ({
+        sessionId: key.name.slice(prefix.length),
+        ...(key.metadata as SessionHandoff),
+      }))
+      .sort(
+        (a, b) =>
+          Number(b.status === "waiting") - Number(a.status === "waiting") ||
+          a.requestedAt.localeCompare(b.requestedAt)
+      );
+
+    return {
+      conversations,
+      cursor: result.list_complete ? undefined : result.cursor,
+    };
+  }
+
+  /**
+   * Take a conversation over from the bot on behalf of staff, without notifying reception
+   */
+  async startHandoff(
+    tenantId: string,
+    sessionId: string,
+    reason: string
+  ): Promise<HandoffUpdateResult> {
+    return this.withSessionTurn(tenantId, sessionId, async () => {
+      const sessionMemory = await this.memoryService.getSessionMemory(
+        tenantId,
+        sessionId
+      );
+      if (!sessionMemory) return { status: "session-not-found" };
+      if (sessionMemory.handoff) {
+        return { status: "updated", handoff: sessionMemory.handoff };
+      }
+
+      sessionMemory.handoff = this.createHandoff(reason, "staff");
+      await this.memoryService.saveSessionMemory(
+        tenantId,
+        sessionId,
+        sessionMemory
+      );
+      await this.announceHandoff(
+        tenantId,
+        sessionId,
+        sessionMemory.handoff,
+        []
+      );
+      return { status: "updated", handoff: sessionMemory.handoff };
+    });
+  }
+
+  /**
+   * Add a staff reply to the session, where the guest's chat picks it up
+   */
+  async postStaffReply(
+    tenantId: string,
+    sessionId: string,
+    text: string,
+    staffMember: string
+  ): Promise<HandoffUpdateResult> {
+    return this.withSessionTurn(tenantId, sessionId, async () => {
+      const sessionMemory = await this.memoryService.getSessionMemory(
+        tenantId,
+        sessionId
+      );
+      if (!sessionMemory) return { status: "session-not-found" };
+      if (!sessionMemory.handoff) return { status: "not-in-handoff" };
+
+      const now = new Date();
+      sessionMemory.messages.push({
+        role: "assistant",
+        content: text,
+        timestamp: now.getTime(),
+        staffMember,
+      });
+      sessionMemory.handoff = {
+        ...sessionMemory.handoff,
+        status: "answered",
+        pendingMessages: 0,
+        lastStaffReplyAt: now.toISOString(),
+      };
+
+      await this.memoryService.saveSessionMemory(
+        tenantId,
+        sessionId,
+        sessionMemory
+      );
+      await this.saveHandoffRecord(tenantId, sessionId, sessionMemory.handoff);
+      return { status: "updated", handoff: sessionMemory.handoff };
+    });
+  }
+
+  /**
+   * Hand the conversation back to the bot
+   */
+  async endHandoff(
+    tenantId: string,
+    sessionId: string
+  ): Promise<HandoffUpdateResult> {
+    return this.withSessionTurn(tenantId, sessionId, async () => {
+      const sessionMemory = await this.memoryService.getSessionMemory(
+        tenantId,
+        sessionId
+      );
+      if (!sessionMemory) {
+        // The session expired, only its listing is left
+        await this.deleteHandoffRecord(tenantId, sessionId);
+        return { status: "session-not-found" };
+      }
+      if (!sessionMemory.handoff) return { status: "not-in-handoff" };
+
+      delete sessionMemory.handoff;
+      await this.memoryService.saveSessionMemory(
+        tenantId,
+        sessionId,
+        sessionMemory
+      );
+      await this.deleteHandoffRecord(tenantId, sessionId);
+      return { status: "updated", handoff: null };
+    });
+  }
+
+  async deleteHandoffRecord(
+    tenantId: string,
+    sessionId: string
+  ): Promise<void> {
+    await this.kv.delete(`${this.getHandoffKeyPrefix(tenantId)}${sessionId}`);
+  }
+
+  // The record expires with the session, so abandoned handoffs drop off the list
+  private async saveHandoffRecord(
+    tenantId: string,
+    sessionId: string,
+    handoff: SessionHandoff
+  ): Promise<void> {
+    await this.kv.put(`${this.getHandoffKeyPrefix(tenantId)}${sessionId}`, "", {
+      metadata: handoff,
+      expirationTtl: this.memoryService.getSessionTtlSeconds(),
+    });
+  }
+
+  /**
+   * Run a staff change as a turn of the session, so it cannot overwrite a guest turn.
+   * Like chat turns, it runs unserialized when the coordinator is unavailable.
+   * @throws SessionBusyError when the guest's turn did not finish in time
+   */
+  private async withSessionTurn<T>(
+    tenantId: string,
+    sessionId: string,
+    update: () => Promise<T>
+  ): Promise<T> {
+    return withSessionTurn(
+      this.sessionCoordinator,
+      tenantId,
+      sessionId,
+      update
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { TenantKnowledgeSource } from "../../tasks/dataCollectionTask";
+import {
+  KnowledgeSource,
+  SheetFetchError,
+  SheetTable,
+  getSheetFetchErrorKind,
+  normalizeCell,
+  sheetTableToMarkdown,
+} from "./knowledgeSource";
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export type HttpJsonSourceSettings = Extract<
+  TenantKnowledgeSource,
+  { type: "http-json" }
+>;
+
+/**
+ * Turn a response body into a table. Accepted shapes: an array of row objects,
+ * { rows: [...] } with row objects, or { headers: [...], rows: [[...]] }.
+ */
+function parseSheetResponse(sheetName: string, body: unknown): SheetTable {
+  const container =
+    body && typeof body === "object" && !Array.isArray(body)
+      ? (body as { headers?: unknown; rows?: unknown })
+      : null;
+  const rows = Array.isArray(body) ? body : container?.rows;
+  if (!Array.isArray(rows)) {
+    throw new Error(
+      `Response for sheet "${sheetName}" is not an array of rows or { rows }`
+    );
+  }
+
+  if (Array.isArray(container?.headers)) {
+    const headers = container!.headers.map(normalizeCell);
+    return {
+      title: sheetName,
+      headers,
+      rows: rows.map((row) =>
+        headers.map((_, column) =>
+          normalizeCell(Array.isArray(row) ? row[column] : undefined)
+        )
+      ),
+    };
+  }
+
+  // Columns in order of first appearance, so rows may leave out empty fields
+  const headers: string[] = [];
+  rows.forEach((row) => {
+    if (!row || typeof row !== "object") return;
+    Object.keys(row).forEach((key) => {
+      if (!headers.includes(key)) headers.push(key);
+    });
+  });
+
+  return {
+    title: sheetName,
+    headers,
+    rows: rows.map((row) =>
+      headers.map((header) => {
+        const value = row?.[header];
+        return normalizeCell(
+          value && typeof value === "object" ? JSON.stringify(value) : value
+        );
+      })
+    ),
+  };
+}
+
+/**
+ * Knowledge source reading sheets from a tenant's own JSON endpoint, e.g. an
+ * Airtable or Notion export behind a small proxy
+ */
+export class HttpJsonKnowledgeSource implements KnowledgeSource {
+  readonly type = "http-json";
+  private settings: HttpJsonSourceSettings;
+  private apiKey?: string;
+
+  /**
+   * @param apiKey - Sent as a bearer token when set
+   */
+  constructor(settings: HttpJsonSourceSettings, apiKey?: string) {
+    this.settings = settings;
+    this.apiKey = apiKey;
+  }
+
+  private getSheetUrl(sheetName: string): string {
+    if (this.settings.url.includes("{sheet}")) {
+      return this.settings.url.replace(
+        /\{sheet\}/g,
+        encodeURIComponent(sheetName)
+      );
+    }
+
+    const url = new URL(this.settings.url);
+    url.searchParams.set("sheet", sheetName);
+    return url.toString();
+  }
+
+  async getSheetTable(sheetName: string): Promise<SheetTable> {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(this.getSheetUrl(sheetName), {
+      headers,
+      signal: AbortSignal.timeout(
+        this.settings.timeoutMs ?? DEFAULT_TIMEOUT_MS
+      ),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new SheetFetchError(
+        getSheetFetchErrorKind(response.status),
+        `Knowledge endpoint error for sheet "${sheetName}": ${
+          response.status
+        } ${errorText.slice(0, 200)}`,
+        response.status
+      );
+    }
+
+    return parseSheetResponse(sheetName, await response.json());
+  }
+
+  async getSheetMarkdown(sheetName: string): Promise<string> {
+    return sheetTableToMarkdown(await this.getSheetTable(sheetName));
+  }
+}
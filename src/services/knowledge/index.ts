@@ -0,0 +1,60 @@
+import { Env } from "../../types";
+import { TenantConfig } from "../../tasks/dataCollectionTask";
+import { decryptTenantSecret } from "../../utils/tenantSecrets";
+import { GoogleSheets } from "../googleSheets";
+import { HttpJsonKnowledgeSource } from "./httpJsonSource";
+import { KnowledgeSource } from "./knowledgeSource";
+import { KnowledgeUploadStore, UploadKnowledgeSource } from "./uploadSource";
+
+export type {
+  KnowledgeSource,
+  KnowledgeSourceType,
+  SheetFetchErrorKind,
+  SheetFetchFailure,
+  SheetFetchResult,
+  SheetTable,
+} from "./knowledgeSource";
+export {
+  SheetFetchError,
+  getSheetFetchErrorKind,
+  normalizeCell,
+  sheetTableToMarkdown,
+  sheetTableToMarkdownParts,
+  toSheetFetchFailure,
+  unwrapSheetFetchResult,
+} from "./knowledgeSource";
+export { HttpJsonKnowledgeSource } from "./httpJsonSource";
+export type { HttpJsonSourceSettings } from "./httpJsonSource";
+export { KnowledgeUploadStore, UploadKnowledgeSource } from "./uploadSource";
+export type {
+  KnowledgeUpload,
+  KnowledgeUploadFormat,
+  KnowledgeUploadSummary,
+} from "./uploadSource";
+
+/**
+ * Build the knowledge source selected in the tenant config
+ * @returns The source, or null when the tenant has none configured
+ */
+export async function createKnowledgeSource(
+  env: Env,
+  tenantId: string,
+  tenantConfig: TenantConfig | null
+): Promise<KnowledgeSource | null> {
+  if (!tenantConfig) return null;
+
+  const settings = tenantConfig.knowledgeSource ?? { type: "google-sheets" };
+  switch (settings.type) {
+    case "upload":
+      return new UploadKnowledgeSource(new KnowledgeUploadStore(env), tenantId);
+    case "http-json":
+      return new HttpJsonKnowledgeSource(
+        settings,
+        await decryptTenantSecret(env, tenantConfig, "knowledge-source-api-key")
+      );
+    default:
+      return tenantConfig.spreadsheetId
+        ? new GoogleSheets(env, tenantConfig.spreadsheetId)
+        : null;
+  }
+}
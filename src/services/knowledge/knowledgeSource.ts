@@ -0,0 +1,186 @@
+// @ts-ignore
+import json2md from "json2md";
+
+export type KnowledgeSourceType = "google-sheets" | "upload" | "http-json";
+
+export interface SheetTable {
+  title: string;
+  headers: string[];
+  rows: string[][]; // Cell values in header order, newlines flattened, "" when empty
+}
+
+/**
+ * Why a sheet could not be read:
+ * - auth: credentials were rejected or lack access
+ * - not-found: the sheet or document does not exist
+ * - quota: a quota or rate limit was hit
+ * - api-disabled: the Google Sheets API is not enabled for the project
+ * - transient: network and server errors, anything else that may pass on its own
+ */
+export type SheetFetchErrorKind =
+  | "auth"
+  | "not-found"
+  | "quota"
+  | "api-disabled"
+  | "transient";
+
+export interface SheetFetchFailure {
+  status: "failed";
+  kind: SheetFetchErrorKind;
+  message: string;
+  httpStatus?: number;
+}
+
+export type SheetFetchResult<T> =
+  | { status: "fetched"; value: T }
+  | SheetFetchFailure;
+
+/**
+ * Thrown by the throwing source methods, carrying the same kinds as SheetFetchResult
+ */
+export class SheetFetchError extends Error {
+  readonly kind: SheetFetchErrorKind;
+  readonly status?: number; // HTTP status, when the source answered
+
+  constructor(kind: SheetFetchErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = "SheetFetchError";
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+/**
+ * Error kind of an HTTP status returned by a knowledge source
+ */
+export function getSheetFetchErrorKind(status?: number): SheetFetchErrorKind {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 404) return "not-found";
+  if (status === 429) return "quota";
+  return "transient";
+}
+
+/**
+ * Describe a thrown error as a failed result. Errors other than SheetFetchError
+ * are classified by the HTTP status they carry, if any.
+ */
+export function toSheetFetchFailure(error: unknown): SheetFetchFailure {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof SheetFetchError) {
+    return {
+      status: "failed",
+      kind: error.kind,
+      message,
+      httpStatus: error.status,
+    };
+  }
+
+  const status = (error as { status?: unknown } | null)?.status;
+  const httpStatus = typeof status === "number" ? status : undefined;
+  return {
+    status: "failed",
+    kind: getSheetFetchErrorKind(httpStatus),
+    message,
+    httpStatus,
+  };
+}
+
+/**
+ * Value of a fetched result
+ * @throws SheetFetchError for a failed result
+ */
+export function unwrapSheetFetchResult<T>(result: SheetFetchResult<T>): T {
+  if (result.status === "failed") {
+    throw new SheetFetchError(result.kind, result.message, result.httpStatus);
+  }
+  return result.value;
+}
+
+/**
+ * Where a tenant's hotel information comes from. Every source exposes its content as
+ * named sheets, the names listed in the tenant's excel-config.
+ */
+export interface KnowledgeSource {
+  readonly type: KnowledgeSourceType;
+  /**
+   * Names of all sheets, left out by sources that cannot enumerate them
+   */
+  listSheetNames?(): Promise<string[]>;
+  /**
+   * Read one sheet as a table, for row-level processing
+   * @throws SheetFetchError, or any error, when the source cannot be read or has no such sheet
+   */
+  getSheetTable(sheetName: string): Promise<SheetTable>;
+  /**
+   * Read one sheet formatted as markdown for the prompts
+   * @throws SheetFetchError, or any error, when the source cannot be read or has no such sheet
+   */
+  getSheetMarkdown(sheetName: string): Promise<string>;
+  /**
+   * Read one sheet formatted as markdown, reporting failures as a result instead of throwing
+   */
+  fetchSheetMarkdown?(sheetName: string): Promise<SheetFetchResult<string>>;
+  /**
+   * Read several sheets in one request, left out by sources without a batch API.
+   * Sheets that do not exist are left out; any other unreadable sheet fails the whole
+   * batch. Callers fetch sheets missing from the result on their own.
+   * @returns Markdown by sheet name
+   */
+  fetchSheetMarkdowns?(
+    sheetNames: string[]
+  ): Promise<SheetFetchResult<Map<string, string>>>;
+}
+
+/**
+ * Clean a cell value the way every source stores it: newlines flattened, trimmed
+ */
+export function normalizeCell(value: unknown): string {
+  return String(value ?? "")
+    .replace(/\n/g, " ")
+    .replace(/\r/g, "")
+    .trim();
+}
+
+/**
+ * Markdown parts of a sheet, as a heading with a table, or a note when the sheet is empty
+ */
+export function sheetTableToMarkdownParts(table: SheetTable): any[] {
+  if (table.headers.length === 0) {
+    return [
+      { h2: table.title },
+      { p: "Arkusz nie zawiera nagłówków." },
+      { hr: "" },
+    ];
+  }
+
+  if (table.rows.length === 0) {
+    return [
+      { h2: table.title },
+      { p: "Arkusz nie zawiera danych." },
+      { hr: "" },
+    ];
+  }
+
+  // Prepare table data
+  const tableRows = table.rows.map((row) =>
+    row.map((cellValue) => cellValue.replace(/\|/g, "\\|") || "-")
+  );
+
+  return [
+    { h2: table.title },
+    {
+      table: {
+        headers: table.headers,
+        rows: tableRows,
+      },
+    },
+    { hr: "" },
+  ];
+}
+
+/**
+ * Format a sheet as markdown
+ */
+export function sheetTableToMarkdown(table: SheetTable): string {
+  return json2md(sheetTableToMarkdownParts(table));
+}
@@ -0,0 +1,226 @@
+import { Env } from "../../types";
+import { parseCsv } from "../../utils/csv";
+import { getSheetCacheKey } from "../../utils/knowledgeCache";
+import { createVectorStore } from "../vectorStore";
+import {
+  KnowledgeSource,
+  SheetFetchError,
+  SheetTable,
+  normalizeCell,
+  sheetTableToMarkdown,
+} from "./knowledgeSource";
+
+export type KnowledgeUploadFormat = "csv" | "markdown";
+
+export interface KnowledgeUpload {
+  name: string; // Sheet name used in excel-config
+  format: KnowledgeUploadFormat;
+  content: string;
+  uploadedAt: string;
+  uploadedBy: string;
+}
+
+export type KnowledgeUploadSummary = Omit<KnowledgeUpload, "content"> & {
+  size: number; // Content length in characters
+};
+
+/**
+ * Documents uploaded through the admin API, one per sheet name. They live next to
+ * the tenant configs, under a prefix that can never be a tenant ID.
+ */
+export class KnowledgeUploadStore {
+  private env: Env;
+  private kv: KVNamespace;
+
+  constructor(env: Env) {
+    this.env = env;
+    this.kv = env.TENAT_CONFIG;
+  }
+
+  private getUploadKeyPrefix(tenantId: string): string {
+    return `knowledge:${tenantId}:`;
+  }
+
+  async get(tenantId: string, name: string): Promise<KnowledgeUpload | null> {
+    return this.kv.get<KnowledgeUpload>(
+      `${this.getUploadKeyPrefix(tenantId)}${name}`,
+      "json"
+    );
+  }
+
+  /**
+   * Store a document, replacing any earlier upload with the same name
+   * @returns The stored document
+   */
+  async save(
+    tenantId: string,
+    upload: Omit<KnowledgeUpload, "uploadedAt">
+  ): Promise<KnowledgeUpload> {
+    const record: KnowledgeUpload = {
+      ...upload,
+      uploadedAt: new Date().toISOString(),
+    };
+    const summary: KnowledgeUploadSummary = {
+      name: record.name,
+      format: record.format,
+      uploadedAt: record.uploadedAt,
+      uploadedBy: record.uploadedBy,
+      size: record.content.length,
+    };
+
+    await this.kv.put(
+      `${this.getUploadKeyPrefix(tenantId)}${upload.name}`,
+      JSON.stringify(record),
+      { metadata: summary }
+    );
+    await this.forgetDerivedData(tenantId, upload.name);
+    return record;
+  }
+
+  /**
+   * @returns False when there was no such document
+   */
+  async delete(tenantId: string, name: string): Promise<boolean> {
+    if (!(await this.get(tenantId, name))) {
+      return false;
+    }
+
+    await this.kv.delete(`${this.getUploadKeyPrefix(tenantId)}${name}`);
+    await this.forgetDerivedData(tenantId, name);
+    return true;
+  }
+
+  /**
+   * List a tenant's documents without their content, one KV page at a time
+   * @param tenantId The tenant ID
+   * @param cursor Cursor returned by the previous page
+   */
+  async list(
+    tenantId: string,
+    cursor?: string
+  ): Promise<{ uploads: KnowledgeUploadSummary[]; cursor?: string }> {
+    const result = await this.kv.list<KnowledgeUploadSummary>({
+      prefix: this.getUploadKeyPrefix(tenantId),
+      cursor,
+    });
+
+    return {
+      uploads: result.keys
+        .map((key) => key.metadata)
+        .filter((summary): summary is KnowledgeUploadSummary => !!summary),
+      cursor: result.list_complete ? undefined : result.cursor,
+    };
+  }
+
+  /**
+   * Drop the cached markdown and the row index built from an earlier upload,
+   * so the next message sees the new content
+   */
+  private async forgetDerivedData(
+    tenantId: string,
+    name: string
+  ): Promise<void> {
+    try {
+      await Promise.all([
+        this.env.TENAT_KNOWLEDGE_CACHE.delete(getSheetCacheKey(tenantId, name)),
+        createVectorStore(this.env).deleteSheetIndex(tenantId, name),
+      ]);
+    } catch (error) {
+      console.error(
+        `Failed to clear cached data for ${tenantId}:${name}:`,
+        error
+      );
+      // Cached data expires on its own within a day
+    }
+  }
+}
+
+/**
+ * Markdown documents have no columns: every paragraph becomes a row,
+ * with the nearest heading above it as its section
+ */
+function markdownToSheetTable(name: string, content: string): SheetTable {
+  const rows: string[][] = [];
+  let section = "";
+
+  content
+    .split(/\r?\n\s*\r?\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .forEach((block) => {
+      const [firstLine, ...otherLines] = block.split(/\r?\n/);
+      const heading = firstLine.match(/^#{1,6}\s+(.+)$/);
+      if (heading) {
+        section = heading[1].trim();
+      }
+      const text = heading ? otherLines.join("\n") : block;
+      if (text.trim()) {
+        rows.push([section, normalizeCell(text)]);
+      }
+    });
+
+  return { title: name, headers: ["Sekcja", "Treść"], rows };
+}
+
+function uploadToSheetTable(upload: KnowledgeUpload): SheetTable {
+  if (upload.format === "markdown") {
+    return markdownToSheetTable(upload.name, upload.content);
+  }
+
+  const [headers = [], ...rows] = parseCsv(upload.content);
+  return {
+    title: upload.name,
+    headers: headers.map(normalizeCell),
+    rows: rows.map((row) =>
+      headers.map((_, column) => normalizeCell(row[column]))
+    ),
+  };
+}
+
+/**
+ * Knowledge source reading the tenant's uploaded CSV and markdown documents
+ */
+export class UploadKnowledgeSource implements KnowledgeSource {
+  readonly type = "upload";
+  private store: KnowledgeUploadStore;
+  private tenantId: string;
+
+  constructor(store: KnowledgeUploadStore, tenantId: string) {
+    this.store = store;
+    this.tenantId = tenantId;
+  }
+
+  private async getUpload(sheetName: string): Promise<KnowledgeUpload> {
+    const upload = await this.store.get(this.tenantId, sheetName);
+    if (!upload) {
+      throw new SheetFetchError(
+        "not-found",
+        `Document "${sheetName}" has not been uploaded`
+      );
+    }
+    return upload;
+  }
+
+  async listSheetNames(): Promise<string[]> {
+    const names: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.store.list(this.tenantId, cursor);
+      names.push(...page.uploads.map((upload) => upload.name));
+      cursor = page.cursor;
+    } while (cursor);
+    return names;
+  }
+
+  async getSheetTable(sheetName: string): Promise<SheetTable> {
+    return uploadToSheetTable(await this.getUpload(sheetName));
+  }
+
+  async getSheetMarkdown(sheetName: string): Promise<string> {
+    const upload = await this.getUpload(sheetName);
+    // Markdown is already in prompt format
+    return upload.format === "markdown"
+      ? upload.content.trim()
+      : sheetTableToMarkdown(uploadToSheetTable(upload));
+  }
+}
@@ -0,0 +1,555 @@
+import { Env } from "../types";
+import {
+  KnowledgeSource,
+  SheetFetchResult,
+  createKnowledgeSource,
+} from "./knowledge";
+import { TenantConfigService } from "./tenantConfigService";
+import { createVectorStore } from "./vectorStore";
+import {
+  CachedSheetData,
+  KnowledgeSyncState,
+  getSheetCacheKey,
+  getSyncStateKey,
+} from "../utils/knowledgeCache";
+import { hashContent } from "../utils/sheetChunks";
+
+export type KnowledgeChangeType = "added" | "modified" | "removed";
+
+export interface KnowledgeChangeRecord {
+  id: string;
+  tenantId: string;
+  sheetName: string;
+  change: KnowledgeChangeType;
+  detectedAt: string;
+  previousHash?: string;
+  contentHash?: string; // Missing for removed sheets
+}
+
+export type KnowledgeSyncResult =
+  | {
+      status: "synced";
+      tenantId: string;
+      checkedSheets: number;
+      rewrittenSheets: string[]; // Sheets whose cache entry was overwritten
+      changes: KnowledgeChangeRecord[];
+      errors: Array<{ sheetName: string; error: string }>;
+    }
+  | { status: "tenant-not-found" }
+  | { status: "no-knowledge-source" }
+  | { status: "source-unavailable"; error: string };
+
+export interface KnowledgeSyncOptions {
+  sheetNames?: string[]; // Sync only these sheets instead of every sheet of the source
+  purge?: boolean; // Drop the cached copies first, so a failed fetch never leaves them in use
+}
+
+interface SheetSyncOutcome {
+  contentHash: string;
+  rewritten: boolean;
+  change?: KnowledgeChangeType;
+  previousHash?: string;
+}
+
+// Change records are for reviewing recent edits, not an audit trail
+const KNOWLEDGE_CHANGE_TTL_SECONDS = 90 * 24 * 60 * 60;
+// Sheets fetched at the same time, to stay within source rate limits
+const SYNC_CONCURRENCY = 4;
+// Sheets read per batch request, keeping the request URL short
+const SYNC_BATCH_SIZE = 20;
+// Tenants synced at the same time by the scheduled run
+const TENANT_SYNC_CONCURRENCY = 3;
+// A run cut off before finishing is resumed by the next one, unless this old
+const SYNC_PROGRESS_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// "sync-run" is a reserved tenant ID, so this is never a sheet entry
+const SYNC_PROGRESS_KEY = "sync-run:current";
+// KV accepts one write per second to a key; a cut-off run repeats at most this much work
+const SYNC_PROGRESS_SAVE_INTERVAL_MS = 5000;
+const KV_SAME_KEY_WRITE_INTERVAL_MS = 1000;
+
+/**
+ * Tenants the current scheduled run has finished, so a run cut off by the
+ * Workers time limit is resumed instead of started over
+ */
+interface KnowledgeSyncProgress {
+  startedAt: number;
+  syncedTenantIds: string[];
+}
+
+/**
+ * Re-fetches tenants' sheets on a schedule so guests never wait for a live fetch.
+ * A cache entry is only overwritten when its content changed, and every change
+ * is logged per tenant.
+ */
+export class KnowledgeSyncService {
+  private env: Env;
+  private kv: KVNamespace;
+  private cacheKv: KVNamespace;
+  private tenantConfigService: TenantConfigService;
+
+  constructor(env: Env) {
+    this.env = env;
+    this.kv = env.TENAT_CONFIG;
+    this.cacheKv = env.TENAT_KNOWLEDGE_CACHE;
+    this.tenantConfigService = new TenantConfigService(env);
+  }
+
+  /**
+   * Change records live next to the configs, under a prefix that can never be a tenant ID.
+   * The timestamp comes first so KV's lexicographic listing returns records in order.
+   */
+  private getChangeKeyPrefix(tenantId: string): string {
+    return `knowledge-change:${tenantId}:`;
+  }
+
+  async getSyncState(tenantId: string): Promise<KnowledgeSyncState | null> {
+    return this.cacheKv.get<KnowledgeSyncState>(
+      getSyncStateKey(tenantId),
+      "json"
+    );
+  }
+
+  /**
+   * Sync every tenant, a few at a time. Progress is recorded as tenants finish,
+   * so a run that is cut off is resumed by the next scheduled run.
+   * @returns One result per tenant synced in this run, tenants that failed outright are logged and left out
+   */
+  async syncAllTenants(): Promise<KnowledgeSyncResult[]> {
+    const progress = await this.getSyncProgress();
+    const syncedTenantIds = new Set(progress.syncedTenantIds);
+    if (syncedTenantIds.size > 0) {
+      console.log(
+        `Resuming knowledge sync started at ${new Date(
+          progress.startedAt
+        ).toISOString()}, ${syncedTenantIds.size} tenants already synced`
+      );
+    }
+
+    const results: KnowledgeSyncResult[] = [];
+    let progressSavedAt = 0;
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.tenantConfigService.listTenants(cursor);
+      const tenantIds = page.tenantIds.filter(
+        (tenantId) => !syncedTenantIds.has(tenantId)
+      );
+
+      for (let i = 0; i < tenantIds.length; i += TENANT_SYNC_CONCURRENCY) {
+        const group = tenantIds.slice(i, i + TENANT_SYNC_CONCURRENCY);
+        const groupResults = await Promise.allSettled(
+          group.map((tenantId) => this.syncTenant(tenantId))
+        );
+
+        groupResults.forEach((result, position) => {
+          if (result.status === "fulfilled") {
+            results.push(result.value);
+          } else {
+            console.error(
+              `Knowledge sync failed for ${group[position]}:`,
+              result.reason
+            );
+          }
+          // A tenant that failed outright is retried by the next run, not this one
+          syncedTenantIds.add(group[position]);
+        });
+
+        if (Date.now() - progressSavedAt >= SYNC_PROGRESS_SAVE_INTERVAL_MS) {
+          await this.saveSyncProgress({
+            startedAt: progress.startedAt,
+            syncedTenantIds: [...syncedTenantIds],
+          });
+          progressSavedAt = Date.now();
+        }
+      }
+      cursor = page.cursor;
+    } while (cursor);
+
+    await this.clearSyncProgress(progressSavedAt);
+    return results;
+  }
+
+  /**
+   * Progress of an unfinished run, or a fresh start when there is none or it is too old
+   */
+  private async getSyncProgress(): Promise<KnowledgeSyncProgress> {
+    try {
+      const progress = await this.cacheKv.get<KnowledgeSyncProgress>(
+        SYNC_PROGRESS_KEY,
+        "json"
+      );
+      if (
+        progress &&
+        Date.now() - progress.startedAt <= SYNC_PROGRESS_MAX_AGE_MS
+      ) {
+        return progress;
+      }
+    } catch (error) {
+      console.warn("Unreadable knowledge sync progress, starting over:", error);
+    }
+    return { startedAt: Date.now(), syncedTenantIds: [] };
+  }
+
+  private async saveSyncProgress(
+    progress: KnowledgeSyncProgress
+  ): Promise<void> {
+    try {
+      await this.cacheKv.put(SYNC_PROGRESS_KEY, JSON.stringify(progress), {
+        expirationTtl: SYNC_PROGRESS_MAX_AGE_MS / 1000,
+      });
+    } catch (error) {
+      // A lost update only means a few tenants are synced again after a cut-off
+      console.warn("Failed to record knowledge sync progress:", error);
+    }
+  }
+
+  /**
+   * Mark the run as finished, so the next one starts over
+   * @param savedAt When the progress was last written
+   */
+  private async clearSyncProgress(savedAt: number): Promise<void> {
+    const wait = savedAt + KV_SAME_KEY_WRITE_INTERVAL_MS - Date.now();
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+
+    try {
+      await this.cacheKv.delete(SYNC_PROGRESS_KEY);
+    } catch (error) {
+      console.error("Failed to clear knowledge sync progress:", error);
+      // The next run skips the tenants this run synced, until the progress expires
+    }
+  }
+
+  /**
+   * Re-fetch a tenant's sheets, overwrite the cache entries that changed and log the changes.
+   * Changes are compared with what the previous sync saw, so an edit that a guest
+   * request happened to cache first is still logged.
+   * @param tenantId The tenant ID
+   * @param options Sheets to sync and whether to purge them first
+   */
+  async syncTenant(
+    tenantId: string,
+    options: KnowledgeSyncOptions = {}
+  ): Promise<KnowledgeSyncResult> {
+    const tenantConfig = await this.tenantConfigService.getConfig(tenantId);
+    if (!tenantConfig) {
+      return { status: "tenant-not-found" };
+    }
+
+    const knowledgeSource = await createKnowledgeSource(
+      this.env,
+      tenantId,
+      tenantConfig
+    );
+    if (!knowledgeSource) {
+      return { status: "no-knowledge-source" };
+    }
+
+    // Sources that cannot list their sheets are synced for the sheets guests already asked about
+    let sheetNames: string[];
+    try {
+      sheetNames =
+        options.sheetNames ??
+        (knowledgeSource.listSheetNames
+          ? await knowledgeSource.listSheetNames()
+          : await this.listCachedSheetNames(tenantId));
+    } catch (error) {
+      console.error(`Failed to list sheets of ${tenantId}:`, error);
+      return {
+        status: "source-unavailable",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    if (options.purge) {
+      await Promise.all(
+        sheetNames.map((sheetName) =>
+          this.cacheKv.delete(getSheetCacheKey(tenantId, sheetName))
+        )
+      );
+    }
+
+    // Sheets that are not synced, or fail to sync, keep their last confirmation
+    const previousState = await this.getSyncState(tenantId);
+    const state: KnowledgeSyncState = {
+      tenantId,
+      syncedAt: Date.now(),
+      sheets: { ...previousState?.sheets },
+    };
+    const rewrittenSheets: string[] = [];
+    const changes: Array<Omit<KnowledgeChangeRecord, "id" | "detectedAt">> = [];
+    const errors: Array<{ sheetName: string; error: string }> = [];
+
+    for (let start = 0; start < sheetNames.length; start += SYNC_BATCH_SIZE) {
+      const chunk = sheetNames.slice(start, start + SYNC_BATCH_SIZE);
+      const batch = await this.fetchSheetBatch(
+        tenantId,
+        knowledgeSource,
+        chunk
+      );
+
+      // A failed batch fails every sheet it covered, the next run retries them
+      if (batch?.status === "failed") {
+        chunk.forEach((sheetName) =>
+          errors.push({ sheetName, error: batch.message })
+        );
+        continue;
+      }
+      const batchedData = batch?.status === "fetched" ? batch.value : undefined;
+
+      for (let i = 0; i < chunk.length; i += SYNC_CONCURRENCY) {
+        const group = chunk.slice(i, i + SYNC_CONCURRENCY);
+        const results = await Promise.allSettled(
+          group.map((sheetName) =>
+            this.syncSheet(
+              tenantId,
+              knowledgeSource,
+              sheetName,
+              previousState?.sheets[sheetName]?.contentHash,
+              batchedData?.get(sheetName)
+            )
+          )
+        );
+
+        results.forEach((result, position) => {
+          const sheetName = group[position];
+          if (result.status === "rejected") {
+            console.error(
+              `Knowledge sync failed for ${tenantId}:${sheetName}:`,
+              result.reason
+            );
+            errors.push({
+              sheetName,
+              error:
+                result.reason instanceof Error
+                  ? result.reason.message
+                  : String(result.reason),
+            });
+            return;
+          }
+
+          const outcome = result.value;
+          state.sheets[sheetName] = {
+            contentHash: outcome.contentHash,
+            checkedAt: state.syncedAt,
+          };
+          if (outcome.rewritten) {
+            rewrittenSheets.push(sheetName);
+          }
+          if (outcome.change) {
+            changes.push({
+              tenantId,
+              sheetName,
+              change: outcome.change,
+              previousHash: outcome.previousHash,
+              contentHash: outcome.contentHash,
+            });
+          }
+        });
+      }
+    }
+
+    // Only a listing proves that a sheet is gone, a failed fetch does not
+    if (
+      !options.sheetNames &&
+      knowledgeSource.listSheetNames &&
+      previousState
+    ) {
+      const removedSheets = Object.keys(previousState.sheets).filter(
+        (sheetName) => !sheetNames.includes(sheetName)
+      );
+      for (const sheetName of removedSheets) {
+        await this.forgetSheet(tenantId, sheetName);
+        delete state.sheets[sheetName];
+        changes.push({
+          tenantId,
+          sheetName,
+          change: "removed",
+          previousHash: previousState.sheets[sheetName].contentHash,
+        });
+      }
+    }
+
+    await this.cacheKv.put(getSyncStateKey(tenantId), JSON.stringify(state));
+    const records = await Promise.all(
+      changes.map((change) => this.recordChange(change))
+    );
+
+    return {
+      status: "synced",
+      tenantId,
+      checkedSheets: sheetNames.length,
+      rewrittenSheets,
+      changes: records,
+      errors,
+    };
+  }
+
+  /**
+   * Read several sheets in one request when the source can batch
+   * @returns Markdown by sheet name, or the batch failure; null when the source cannot batch
+   */
+  private async fetchSheetBatch(
+    tenantId: string,
+    knowledgeSource: KnowledgeSource,
+    sheetNames: string[]
+  ): Promise<SheetFetchResult<Map<string, string>> | null> {
+    if (!knowledgeSource.fetchSheetMarkdowns) {
+      return null;
+    }
+
+    const result = await knowledgeSource.fetchSheetMarkdowns(sheetNames);
+    if (result.status === "failed") {
+      console.warn(
+        `Batch fetch of ${sheetNames.length} sheets failed for ${tenantId} (${result.kind}):`,
+        result.message
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Fetch one sheet, unless the batch already read it, and overwrite its cache
+   * entry if the content differs
+   * @param lastSeenHash Hash the previous sync saw, if any
+   * @param batchedData Markdown read by the batch request, if any
+   */
+  private async syncSheet(
+    tenantId: string,
+    knowledgeSource: KnowledgeSource,
+    sheetName: string,
+    lastSeenHash?: string,
+    batchedData?: string
+  ): Promise<SheetSyncOutcome> {
+    const data =
+      batchedData ?? (await knowledgeSource.getSheetMarkdown(sheetName));
+    const contentHash = await hashContent(data);
+
+    const cacheKey = getSheetCacheKey(tenantId, sheetName);
+    let cached: CachedSheetData | null = null;
+    try {
+      cached = await this.cacheKv.get<CachedSheetData>(cacheKey, "json");
+    } catch (error) {
+      console.warn(`Unreadable cache entry for ${tenantId}:${sheetName}`);
+      // Overwritten below
+    }
+
+    // Records written before change detection carry no hash and are rewritten once
+    const rewritten = !cached || cached.contentHash !== contentHash;
+    if (rewritten) {
+      const record: CachedSheetData = {
+        data,
+        timestamp: Date.now(),
+        tenantId,
+        sheetName,
+        contentHash,
+      };
+      await this.cacheKv.put(cacheKey, JSON.stringify(record));
+    }
+
+    const previousHash =
+      lastSeenHash ??
+      (typeof cached?.data === "string"
+        ? cached.contentHash ?? (await hashContent(cached.data))
+        : undefined);
+    if (previousHash === contentHash) {
+      return { contentHash, rewritten };
+    }
+
+    if (previousHash) {
+      // The row index is rebuilt from the new content on the next retrieval
+      await this.forgetSheetIndex(tenantId, sheetName);
+    }
+    return {
+      contentHash,
+      rewritten,
+      change: previousHash ? "modified" : "added",
+      previousHash,
+    };
+  }
+
+  /**
+   * Names of the sheets cached for a tenant
+   */
+  private async listCachedSheetNames(tenantId: string): Promise<string[]> {
+    const prefix = getSheetCacheKey(tenantId, "");
+    const names: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await this.cacheKv.list({ prefix, cursor });
+      names.push(...result.keys.map((key) => key.name.slice(prefix.length)));
+      cursor = result.list_complete ? undefined : result.cursor;
+    } while (cursor);
+
+    return names;
+  }
+
+  private async forgetSheetIndex(
+    tenantId: string,
+    sheetName: string
+  ): Promise<void> {
+    try {
+      await createVectorStore(this.env).deleteSheetIndex(tenantId, sheetName);
+    } catch (error) {
+      console.error(
+        `Failed to drop the row index of ${tenantId}:${sheetName}:`,
+        error
+      );
+      // Retrieval re-embeds changed sheets within a day on its own
+    }
+  }
+
+  private async forgetSheet(
+    tenantId: string,
+    sheetName: string
+  ): Promise<void> {
+    await this.cacheKv.delete(getSheetCacheKey(tenantId, sheetName));
+    await this.forgetSheetIndex(tenantId, sheetName);
+  }
+
+  private async recordChange(
+    change: Omit<KnowledgeChangeRecord, "id" | "detectedAt">
+  ): Promise<KnowledgeChangeRecord> {
+    const detectedAt = new Date().toISOString();
+    const id = crypto.randomUUID();
+    const record: KnowledgeChangeRecord = { id, detectedAt, ...change };
+
+    await this.kv.put(
+      `${this.getChangeKeyPrefix(change.tenantId)}${detectedAt}:${id}`,
+      JSON.stringify(record),
+      { expirationTtl: KNOWLEDGE_CHANGE_TTL_SECONDS }
+    );
+    return record;
+  }
+
+  /**
+   * List the sheet changes of a tenant, oldest first, one KV page at a time
+   * @param tenantId The tenant ID
+   * @param cursor Cursor returned by the previous page
+   */
+  async listChanges(
+    tenantId: string,
+    cursor?: string
+  ): Promise<{ changes: KnowledgeChangeRecord[]; cursor?: string }> {
+    const result = await this.kv.list({
+      prefix: this.getChangeKeyPrefix(tenantId),
+      cursor,
+      limit: 100,
+    });
+
+    const changes = await Promise.all(
+      result.keys.map((key) =>
+        this.kv.get<KnowledgeChangeRecord>(key.name, "json")
+      )
+    );
+
+    return {
+      changes: changes.filter(
+        (change): change is KnowledgeChangeRecord => change !== null
+      ),
+      cursor: result.list_complete ? undefined : result.cursor,
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import {
+  ApiTraceWithDetails,
   Langfuse,
   LangfuseSpanClient,
   LangfuseTraceClient,
@@ -7,11 +8,18 @@ import {
 import { Env, LangfusePrompt } from "../types";
 import { extractModelNameForLangfuse } from "../utils/llmResultParser";
 import { LangfuseUsageDetails } from "../utils/usageTracker";
+import { SchemaValidationError } from "../utils/schemaValidator";
+
+const TRACE_PAGE_SIZE = 100;
+// A session far beyond this is not a guest conversation
+const MAX_TRACE_PAGES = 20;
 
 export class LangfuseService {
   private langfuse: Langfuse;
+  private baseUrl: string;
 
   constructor(env: Env) {
+    this.baseUrl = env.LANGFUSE_HOST;
     this.langfuse = new Langfuse({
       baseUrl: env.LANGFUSE_HOST,
       secretKey: env.LANGFUSE_SECRET_KEY,
@@ -90,12 +98,54 @@ export class LangfuseService {
           output: usageDetails.usageDetails.output,
           total: usageDetails.usageDetails.total,
         },
+        usageDetails: usageDetails.usageDetails as Record<string, number>,
+        ...(usageDetails.costDetails && {
+          costDetails: { ...usageDetails.costDetails },
+        }),
       });
     } else {
       generation.end({ output });
     }
   }
 
+  /**
+   * Record structured output validation as scores on the generation that produced it
+   * @param generation The generation to score
+   * @param validationErrors Schema violations in the first response
+   * @param repairErrors Schema violations after the repair attempt, when one was made
+   */
+  scoreStructuredOutput(
+    generation: LangfuseGenerationClient,
+    {
+      validationErrors,
+      repairErrors,
+    }: {
+      validationErrors: SchemaValidationError[];
+      repairErrors?: SchemaValidationError[];
+    }
+  ): void {
+    const formatErrors = (errors: SchemaValidationError[]) =>
+      errors.length > 0
+        ? errors.map((error) => `${error.path}: ${error.message}`).join("\n")
+        : undefined;
+
+    generation.score({
+      name: "output-schema-valid",
+      value: validationErrors.length === 0 ? 1 : 0,
+      dataType: "BOOLEAN",
+      comment: formatErrors(validationErrors),
+    });
+
+    if (repairErrors) {
+      generation.score({
+        name: "output-schema-repaired",
+        value: repairErrors.length === 0 ? 1 : 0,
+        dataType: "BOOLEAN",
+        comment: formatErrors(repairErrors),
+      });
+    }
+  }
+
   /**
    * Get a prompt from Langfuse by name
    * @param promptName The name of the prompt to retrieve
@@ -123,6 +173,59 @@ export class LangfuseService {
     }
   }
 
+  /**
+   * Check that the Langfuse API is reachable
+   * @returns Promise<boolean>
+   */
+  async checkHealth(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/public/health`);
+      return response.ok;
+    } catch (error) {
+      console.warn("Langfuse health check failed:", error);
+      return false;
+    }
+  }
+
+  /**
+   * List every trace recorded for a chat session of a tenant
+   * @param tenantId The tenant ID, traces of other tenants reusing the session ID are skipped
+   * @param sessionId The chat session ID
+   */
+  async listSessionTraces(
+    tenantId: string,
+    sessionId: string
+  ): Promise<ApiTraceWithDetails[]> {
+    const traces: ApiTraceWithDetails[] = [];
+    for (let page = 1; page <= MAX_TRACE_PAGES; page++) {
+      const result = await this.langfuse.api.traceList({
+        sessionId,
+        page,
+        limit: TRACE_PAGE_SIZE,
+        fields: "core,io",
+      });
+      traces.push(...result.data);
+      if (page >= result.meta.totalPages) break;
+    }
+
+    return traces.filter(
+      (trace) =>
+        (trace.metadata?.tenantId ?? trace.input?.tenantId) === tenantId
+    );
+  }
+
+  /**
+   * Ask Langfuse to delete traces with their observations and scores.
+   * Deletion is processed asynchronously by Langfuse.
+   */
+  async deleteTraces(traceIds: string[]): Promise<void> {
+    for (let i = 0; i < traceIds.length; i += TRACE_PAGE_SIZE) {
+      await this.langfuse.api.traceDeleteMultiple({
+        traceIds: traceIds.slice(i, i + TRACE_PAGE_SIZE),
+      });
+    }
+  }
+
   async flush() {
     await this.langfuse.flushAsync();
   }
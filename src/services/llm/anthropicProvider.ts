@@ -1,45 +1,47 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { BaseLLMProvider } from "./baseLLMProvider";
 import {
-  Env,
   ChatMessage,
   LLMCompletionOptions,
   LLMCompletionResponse,
+  LLMToolCall,
+  LLMToolChoice,
 } from "../../types";
 
 export class AnthropicProvider extends BaseLLMProvider {
   readonly type = "anthropic" as const;
+  protected readonly baseUrl = "https://api.anthropic.com";
 
-  private anthropic: Anthropic | null = null;
-  private defaultApiKey: string | undefined;
+  private readonly anthropic: Anthropic | null;
 
-  constructor(env: Env) {
-    super();
-    this.defaultApiKey = env.ANTHROPIC_API_KEY;
-    this.initializeClient();
+  constructor(apiKey: string | undefined) {
+    super(apiKey);
+    this.anthropic = this.apiKey
+      ? new Anthropic({
+          apiKey: this.apiKey,
+          // Retries and fallbacks are handled by LLMService
+          maxRetries: 0,
+        })
+      : null;
   }
 
-  private initializeClient(): void {
-    const keyToUse = this.getApiKey(this.defaultApiKey || "");
-    if (keyToUse) {
-      this.anthropic = new Anthropic({
-        apiKey: keyToUse,
+  async healthCheck(): Promise<boolean> {
+    if (!this.isAvailable()) return false;
+
+    try {
+      const response = await fetch("https://api.anthropic.com/v1/models", {
+        headers: {
+          "x-api-key": this.apiKey,
+          "anthropic-version": "2023-06-01",
+        },
       });
-    } else {
-      this.anthropic = null;
+      return response.ok;
+    } catch (error) {
+      console.warn("Anthropic health check failed:", error);
+      return false;
     }
   }
 
-  setTenantApiKey(apiKey: string | undefined): void {
-    super.setTenantApiKey(apiKey);
-    this.initializeClient();
-  }
-
-  isAvailable(): boolean {
-    const keyToUse = this.getApiKey(this.defaultApiKey || "");
-    return !!keyToUse && !!this.anthropic;
-  }
-
   async createCompletion(
     messages: ChatMessage[],
     options: LLMCompletionOptions = {}
@@ -72,21 +74,59 @@ export class AnthropicProvider extends BaseLLMProvider {
         content: msg.content,
       }));
 
-      const response = await this.anthropic.messages.create({
-        model,
-        max_tokens: maxTokens,
-        temperature,
-        system: systemPrompt,
-        messages: anthropicMessages,
-      });
+      if (options.stream) {
+        return await this.createStreamingCompletion({
+          model,
+          maxTokens,
+          temperature,
+          systemPrompt,
+          messages: anthropicMessages,
+          onToken: options.onToken,
+          signal: options.signal,
+        });
+      }
+
+      const response = await this.anthropic.messages.create(
+        {
+          model,
+          max_tokens: maxTokens,
+          temperature,
+          system: systemPrompt,
+          messages: anthropicMessages,
+          ...(options.tools && {
+            tools: options.tools.map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.parameters,
+            })),
+            tool_choice: this.toAnthropicToolChoice(options.toolChoice),
+          }),
+        },
+        { signal: options.signal }
+      );
 
-      const content = response.content[0];
-      if (content.type !== "text") {
+      // Tool calls come back as tool_use blocks next to any text blocks
+      const text = response.content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("");
+      const toolCalls: LLMToolCall[] = response.content.flatMap((block) =>
+        block.type === "tool_use"
+          ? [
+              {
+                id: block.id,
+                name: block.name,
+                arguments: (block.input as Record<string, unknown>) || {},
+              },
+            ]
+          : []
+      );
+      if (!text && toolCalls.length === 0) {
         throw new Error("Unexpected response type from Anthropic");
       }
 
       return {
-        content: content.text,
+        content: text,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         usage: response.usage
           ? {
               promptTokens: response.usage.input_tokens,
@@ -104,4 +144,84 @@ export class AnthropicProvider extends BaseLLMProvider {
       throw error;
     }
   }
+
+  private toAnthropicToolChoice(toolChoice: LLMToolChoice | undefined) {
+    if (!toolChoice || toolChoice === "auto") return { type: "auto" as const };
+    if (toolChoice === "required") return { type: "any" as const };
+    return { type: "tool" as const, name: toolChoice.name };
+  }
+
+  /**
+   * Stream the completion, forwarding each text delta to onToken
+   */
+  private async createStreamingCompletion({
+    model,
+    maxTokens,
+    temperature,
+    systemPrompt,
+    messages,
+    onToken,
+    signal,
+  }: {
+    model: string;
+    maxTokens: number;
+    temperature: number;
+    systemPrompt?: string;
+    messages: Array<{ role: "user" | "assistant"; content: string }>;
+    onToken?: (token: string) => void;
+    signal?: AbortSignal;
+  }): Promise<LLMCompletionResponse> {
+    const stream = await this.anthropic!.messages.create(
+      {
+        model,
+        max_tokens: maxTokens,
+        temperature,
+        system: systemPrompt,
+        messages,
+        stream: true,
+      },
+      { signal }
+    );
+
+    let content = "";
+    let responseModel = model;
+    let finishReason: string | null = null;
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case "message_start":
+          responseModel = event.message.model;
+          inputTokens = event.message.usage.input_tokens;
+          break;
+        case "content_block_delta":
+          if (event.delta.type === "text_delta") {
+            content += event.delta.text;
+            onToken?.(event.delta.text);
+          }
+          break;
+        case "message_delta":
+          finishReason = event.delta.stop_reason;
+          outputTokens = event.usage.output_tokens;
+          break;
+      }
+    }
+
+    if (!content) {
+      throw new Error("No content in Anthropic stream");
+    }
+
+    return {
+      content,
+      usage: {
+        promptTokens: inputTokens,
+        completionTokens: outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+      model: responseModel,
+      finishReason,
+      provider: this.type,
+    };
+  }
 }
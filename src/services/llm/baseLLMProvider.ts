@@ -3,24 +3,49 @@ import {
   LLMCompletionOptions,
   ChatMessage,
   LLMProviderType,
+  LLMToolCall,
+  LLMToolChoice,
+  LLMToolDefinition,
 } from "../../types";
 
 export abstract class BaseLLMProvider implements LLMProvider {
   abstract readonly type: LLMProviderType;
-  protected tenantApiKey?: string;
 
   /**
-   * Set tenant-specific API key
+   * API key fixed at construction - providers never switch credentials,
+   * a tenant gets its own provider instances instead
    */
-  setTenantApiKey(apiKey: string | undefined): void {
-    this.tenantApiKey = apiKey;
+  protected readonly apiKey: string;
+
+  constructor(apiKey: string | undefined) {
+    this.apiKey = apiKey || "";
   }
 
   /**
-   * Get the API key to use (tenant-specific if available, otherwise default)
+   * Endpoint the API key is used against
    */
-  protected getApiKey(defaultKey: string): string {
-    return this.tenantApiKey || defaultKey;
+  protected abstract readonly baseUrl: string;
+
+  private credentialId?: Promise<string>;
+
+  /**
+   * Hash of the endpoint and API key, so per-credential state such as circuit
+   * breakers can be kept without holding the key itself
+   */
+  getCredentialId(): Promise<string> {
+    if (!this.credentialId) {
+      this.credentialId = crypto.subtle
+        .digest(
+          "SHA-256",
+          new TextEncoder().encode(`${this.baseUrl}\n${this.apiKey}`)
+        )
+        .then((digest) =>
+          Array.from(new Uint8Array(digest), (byte) =>
+            byte.toString(16).padStart(2, "0")
+          ).join("")
+        );
+    }
+    return this.credentialId;
   }
 
   abstract createCompletion(
@@ -28,7 +53,14 @@ export abstract class BaseLLMProvider implements LLMProvider {
     options?: LLMCompletionOptions
   ): Promise<any>;
 
-  abstract isAvailable(): boolean;
+  isAvailable(): boolean {
+    return !!this.apiKey;
+  }
+
+  /**
+   * Verify the provider API responds to an authenticated request
+   */
+  abstract healthCheck(): Promise<boolean>;
 
   protected getDefaultOptions() {
     return {
@@ -43,4 +75,57 @@ export abstract class BaseLLMProvider implements LLMProvider {
       content: msg.content,
     }));
   }
+
+  /**
+   * Parse tool call arguments; malformed JSON yields an empty object so callers
+   * can fall back to the text content
+   */
+  protected parseToolArguments(
+    raw: string | undefined
+  ): Record<string, unknown> {
+    if (!raw) return {};
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === "object" ? parsed : {};
+    } catch (error) {
+      console.warn(`Failed to parse ${this.type} tool call arguments:`, error);
+      return {};
+    }
+  }
+
+  /**
+   * Tool definitions in the OpenAI function calling format (also used by OpenRouter and Groq)
+   */
+  protected toOpenAITools(tools: LLMToolDefinition[]) {
+    return tools.map((tool) => ({
+      type: "function" as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  protected toOpenAIToolChoice(toolChoice: LLMToolChoice | undefined) {
+    if (!toolChoice || typeof toolChoice === "string") return toolChoice;
+    return {
+      type: "function" as const,
+      function: { name: toolChoice.name },
+    };
+  }
+
+  protected fromOpenAIToolCalls(
+    toolCalls:
+      | Array<{ id: string; function: { name: string; arguments: string } }>
+      | undefined
+      | null
+  ): LLMToolCall[] | undefined {
+    if (!toolCalls || toolCalls.length === 0) return undefined;
+    return toolCalls.map((toolCall) => ({
+      id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: this.parseToolArguments(toolCall.function.arguments),
+    }));
+  }
 }
@@ -1,41 +1,59 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  FunctionCallingMode,
+  FunctionDeclarationSchema,
+  GoogleGenerativeAI,
+  ToolConfig,
+  UsageMetadata,
+} from "@google/generative-ai";
 import { BaseLLMProvider } from "./baseLLMProvider";
 import {
-  Env,
   ChatMessage,
   LLMCompletionOptions,
   LLMCompletionResponse,
+  LLMToolChoice,
+  LLMToolDefinition,
 } from "../../types";
 
+// JSON schema keywords supported by Gemini function declarations
+const GOOGLE_SCHEMA_KEYS = [
+  "type",
+  "format",
+  "description",
+  "nullable",
+  "enum",
+  "properties",
+  "required",
+  "items",
+];
+
 export class GoogleProvider extends BaseLLMProvider {
   readonly type = "google" as const;
+  protected readonly baseUrl = "https://generativelanguage.googleapis.com";
 
-  private genAI: GoogleGenerativeAI | null = null;
-  private defaultApiKey: string | undefined;
-
-  constructor(env: Env) {
-    super();
-    this.defaultApiKey = env.GOOGLE_AI_API_KEY;
-    this.initializeClient();
-  }
+  private readonly genAI: GoogleGenerativeAI | null;
 
-  private initializeClient(): void {
-    const keyToUse = this.getApiKey(this.defaultApiKey || "");
-    if (keyToUse) {
-      this.genAI = new GoogleGenerativeAI(keyToUse);
-    } else {
-      this.genAI = null;
-    }
+  constructor(apiKey: string | undefined) {
+    super(apiKey);
+    this.genAI = this.apiKey ? new GoogleGenerativeAI(this.apiKey) : null;
   }
 
-  setTenantApiKey(apiKey: string | undefined): void {
-    super.setTenantApiKey(apiKey);
-    this.initializeClient();
-  }
+  async healthCheck(): Promise<boolean> {
+    if (!this.isAvailable()) return false;
 
-  isAvailable(): boolean {
-    const keyToUse = this.getApiKey(this.defaultApiKey || "");
-    return !!keyToUse && !!this.genAI;
+    try {
+      const response = await fetch(
+        "https://generativelanguage.googleapis.com/v1beta/models?pageSize=1",
+        {
+          headers: {
+            "x-goog-api-key": this.apiKey,
+          },
+        }
+      );
+      return response.ok;
+    } catch (error) {
+      console.warn("Google AI health check failed:", error);
+      return false;
+    }
   }
 
   async createCompletion(
@@ -53,7 +71,13 @@ export class GoogleProvider extends BaseLLMProvider {
     } = options;
 
     try {
-      const genModel = this.genAI.getGenerativeModel({ model });
+      const genModel = this.genAI.getGenerativeModel({
+        model,
+        ...(options.tools && {
+          tools: [{ functionDeclarations: this.toGoogleTools(options.tools) }],
+          toolConfig: this.toGoogleToolConfig(options.toolChoice),
+        }),
+      });
 
       // Convert messages to Google's format
       const history = messages.slice(0, -1).map((msg) => ({
@@ -69,25 +93,51 @@ export class GoogleProvider extends BaseLLMProvider {
       });
 
       const lastMessage = messages[messages.length - 1];
-      const result = await chat.sendMessage(lastMessage.content);
+
+      if (options.stream) {
+        const streamResult = await chat.sendMessageStream(lastMessage.content, {
+          signal: options.signal,
+        });
+        let content = "";
+        for await (const chunk of streamResult.stream) {
+          const delta = chunk.text();
+          if (delta) {
+            content += delta;
+            options.onToken?.(delta);
+          }
+        }
+
+        if (!content) {
+          throw new Error("No content in Google AI stream");
+        }
+
+        const streamedResponse = await streamResult.response;
+        return {
+          content,
+          usage: this.extractUsage(streamedResponse.usageMetadata),
+          model,
+          finishReason: streamedResponse.candidates?.[0]?.finishReason || null,
+          provider: this.type,
+        };
+      }
+
+      const result = await chat.sendMessage(lastMessage.content, {
+        signal: options.signal,
+      });
       const response = await result.response;
+      const toolCalls = response.functionCalls()?.map((call) => ({
+        name: call.name,
+        arguments: call.args as Record<string, unknown>,
+      }));
 
-      if (!response.text()) {
+      if (!response.text() && !toolCalls?.length) {
         throw new Error("No content in Google AI response");
       }
 
-      // Google doesn't provide detailed usage stats in the same way
-      const usage = response.usageMetadata
-        ? {
-            promptTokens: response.usageMetadata.promptTokenCount || 0,
-            completionTokens: response.usageMetadata.candidatesTokenCount || 0,
-            totalTokens: response.usageMetadata.totalTokenCount || 0,
-          }
-        : undefined;
-
       return {
         content: response.text(),
-        usage,
+        toolCalls: toolCalls?.length ? toolCalls : undefined,
+        usage: this.extractUsage(response.usageMetadata),
         model,
         finishReason: response.candidates?.[0]?.finishReason || null,
         provider: this.type,
@@ -97,4 +147,72 @@ export class GoogleProvider extends BaseLLMProvider {
       throw error;
     }
   }
+
+  private toGoogleTools(tools: LLMToolDefinition[]) {
+    return tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: this.toGoogleSchema(
+        tool.parameters
+      ) as FunctionDeclarationSchema,
+    }));
+  }
+
+  /**
+   * Gemini accepts a subset of JSON schema and rejects unknown keywords
+   * such as additionalProperties, so everything else is dropped
+   */
+  private toGoogleSchema(schema: unknown): unknown {
+    if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+      return schema;
+    }
+
+    const source = schema as Record<string, unknown>;
+    const converted: Record<string, unknown> = {};
+    GOOGLE_SCHEMA_KEYS.forEach((key) => {
+      if (source[key] === undefined) return;
+      if (key === "properties") {
+        converted.properties = Object.fromEntries(
+          Object.entries(source.properties as Record<string, unknown>).map(
+            ([name, property]) => [name, this.toGoogleSchema(property)]
+          )
+        );
+      } else if (key === "items") {
+        converted.items = this.toGoogleSchema(source.items);
+      } else {
+        converted[key] = source[key];
+      }
+    });
+    return converted;
+  }
+
+  private toGoogleToolConfig(
+    toolChoice: LLMToolChoice | undefined
+  ): ToolConfig | undefined {
+    if (!toolChoice || toolChoice === "auto") return undefined;
+    return {
+      functionCallingConfig: {
+        mode: FunctionCallingMode.ANY,
+        ...(toolChoice !== "required" && {
+          allowedFunctionNames: [toolChoice.name],
+        }),
+      },
+    };
+  }
+
+  /**
+   * Google doesn't provide detailed usage stats in the same way
+   */
+  private extractUsage(
+    usageMetadata: UsageMetadata | undefined
+  ): LLMCompletionResponse["usage"] {
+    return usageMetadata
+      ? {
+          promptTokens: usageMetadata.promptTokenCount || 0,
+          completionTokens: usageMetadata.candidatesTokenCount || 0,
+          totalTokens: usageMetadata.totalTokenCount || 0,
+          cachedTokens: usageMetadata.cachedContentTokenCount,
+        }
+      : undefined;
+  }
 }
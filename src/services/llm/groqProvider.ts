@@ -1,7 +1,6 @@
 import Groq from "groq-sdk";
 import { BaseLLMProvider } from "./baseLLMProvider";
 import {
-  Env,
   ChatMessage,
   LLMCompletionOptions,
   LLMCompletionResponse,
@@ -9,32 +8,19 @@ import {
 
 export class GroqProvider extends BaseLLMProvider {
   readonly type = "groq" as const;
+  protected readonly baseUrl = "https://api.groq.com/openai/v1";
 
-  private groq: Groq;
-  private defaultApiKey: string;
+  private readonly groq: Groq;
 
-  constructor(env: Env) {
-    super();
-    this.defaultApiKey = env.GROQ_API_KEY || "";
+  constructor(apiKey: string | undefined) {
+    super(apiKey);
     this.groq = new Groq({
-      apiKey: this.defaultApiKey,
+      apiKey: this.apiKey,
+      // Retries and fallbacks are handled by LLMService
+      maxRetries: 0,
     });
   }
 
-  setTenantApiKey(apiKey: string | undefined): void {
-    super.setTenantApiKey(apiKey);
-    // Reinitialize client with the new API key
-    const keyToUse = this.getApiKey(this.defaultApiKey);
-    this.groq = new Groq({
-      apiKey: keyToUse,
-    });
-  }
-
-  isAvailable(): boolean {
-    const keyToUse = this.getApiKey(this.defaultApiKey);
-    return !!keyToUse;
-  }
-
   protected getDefaultOptions() {
     return {
       model: "llama-3.1-70b-versatile",
@@ -57,20 +43,39 @@ export class GroqProvider extends BaseLLMProvider {
     const groqMessages = this.normalizeMessages(messages);
 
     try {
-      const response = await this.groq.chat.completions.create({
-        model,
-        messages: groqMessages,
-        temperature,
-        max_tokens: maxTokens,
-      });
+      if (options.stream) {
+        return await this.createStreamingCompletion(groqMessages, {
+          model,
+          temperature,
+          maxTokens,
+          onToken: options.onToken,
+          signal: options.signal,
+        });
+      }
+
+      const response = await this.groq.chat.completions.create(
+        {
+          model,
+          messages: groqMessages,
+          temperature,
+          max_tokens: maxTokens,
+          ...(options.tools && {
+            tools: this.toOpenAITools(options.tools),
+            tool_choice: this.toOpenAIToolChoice(options.toolChoice),
+          }),
+        },
+        { signal: options.signal }
+      );
 
       const choice = response.choices[0];
-      if (!choice?.message?.content) {
+      const toolCalls = this.fromOpenAIToolCalls(choice?.message?.tool_calls);
+      if (!choice?.message?.content && !toolCalls) {
         throw new Error("No content in Groq response");
       }
 
       return {
-        content: choice.message.content,
+        content: choice.message.content || "",
+        toolCalls,
         usage: response.usage
           ? {
               promptTokens: response.usage.prompt_tokens,
@@ -88,6 +93,87 @@ export class GroqProvider extends BaseLLMProvider {
     }
   }
 
+  /**
+   * Stream the completion, forwarding each content delta to onToken
+   */
+  private async createStreamingCompletion(
+    messages: ReturnType<BaseLLMProvider["normalizeMessages"]>,
+    {
+      model,
+      temperature,
+      maxTokens,
+      onToken,
+      signal,
+    }: {
+      model: string;
+      temperature: number;
+      maxTokens?: number;
+      onToken?: (token: string) => void;
+      signal?: AbortSignal;
+    }
+  ): Promise<LLMCompletionResponse> {
+    const stream = await this.groq.chat.completions.create(
+      {
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        stream: true,
+      },
+      { signal }
+    );
+
+    let content = "";
+    let responseModel = model;
+    let finishReason: string | null = null;
+    let usage: LLMCompletionResponse["usage"];
+
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        content += delta;
+        onToken?.(delta);
+      }
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+      const chunkUsage = chunk.x_groq?.usage;
+      if (chunkUsage) {
+        usage = {
+          promptTokens: chunkUsage.prompt_tokens,
+          completionTokens: chunkUsage.completion_tokens,
+          totalTokens: chunkUsage.total_tokens,
+        };
+      }
+      responseModel = chunk.model || responseModel;
+    }
+
+    if (!content) {
+      throw new Error("No content in Groq stream");
+    }
+
+    return {
+      content,
+      usage,
+      model: responseModel,
+      finishReason,
+      provider: this.type,
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (!this.isAvailable()) return false;
+
+    try {
+      await this.groq.models.list();
+      return true;
+    } catch (error) {
+      console.warn("Groq health check failed:", error);
+      return false;
+    }
+  }
+
   getClient(): Groq {
     return this.groq;
   }
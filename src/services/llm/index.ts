@@ -1,7 +1,13 @@
 export { LLMService } from "./llmService";
+export type { StructuredCompletionResult } from "./llmService";
 export { BaseLLMProvider } from "./baseLLMProvider";
 export { OpenAIProvider } from "./openaiProvider";
 export { GoogleProvider } from "./googleProvider";
 export { AnthropicProvider } from "./anthropicProvider";
 export { OpenRouterProvider } from "./openrouterProvider";
 export { GroqProvider } from "./groqProvider";
+export {
+  LLMFallbackError,
+  LLMTimeoutError,
+  CircuitBreaker,
+} from "./resilience";
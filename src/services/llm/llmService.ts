@@ -3,9 +3,13 @@ import {
   ChatMessage,
   LLMProvider,
   LLMProviderType,
+  LLMApiKeys,
+  LLMToolChoice,
+  LLMToolDefinition,
   LLMProviderConfig,
   LLMCompletionOptions,
   LLMCompletionResponse,
+  LLMEmbeddingResponse,
 } from "../../types";
 import { TenantConfig } from "../../tasks/dataCollectionTask";
 import { OpenAIProvider } from "./openaiProvider";
@@ -13,72 +17,144 @@ import { GoogleProvider } from "./googleProvider";
 import { AnthropicProvider } from "./anthropicProvider";
 import { OpenRouterProvider } from "./openrouterProvider";
 import { GroqProvider } from "./groqProvider";
+import {
+  LLMAttempt,
+  LLMFallbackError,
+  LLMTimeoutError,
+  getBackoffDelay,
+  getCircuitBreaker,
+  getErrorStatus,
+  isRetryableError,
+  sleep,
+} from "./resilience";
+import {
+  EmbeddingConfig,
+  LLM_RESILIENCE_CONFIG,
+  TaskLLMConfig,
+  buildFallbackChain,
+} from "../../config/llmConfig";
+import {
+  TenantSecretField,
+  decryptSecret,
+  importMasterKey,
+} from "../../utils/tenantSecrets";
+import {
+  JsonSchema,
+  SchemaValidationError,
+  validateSchema,
+} from "../../utils/schemaValidator";
+import {
+  getCompletionContent,
+  parseToolCallResult,
+} from "../../utils/llmResultParser";
+
+export interface StructuredCompletionResult<T> {
+  response: LLMCompletionResponse; // Last response, with usage summed across the repair call
+  output: T | null; // null when the output still violates the schema after the repair attempt
+  validationErrors: SchemaValidationError[]; // Violations in the first response
+  repairErrors?: SchemaValidationError[]; // Violations after the repair attempt, when one was made
+}
 
 export class LLMService {
   private providers: Map<LLMProviderType, LLMProvider> = new Map();
   private env: Env;
+  private readonly deadline?: number; // Time (ms since epoch) every call of this service must finish by
 
-  constructor(env: Env) {
+  /**
+   * @param env Worker environment holding the default API keys
+   * @param tenantApiKeys Tenant-specific API keys that take precedence over the defaults
+   * @param deadline Time (ms since epoch) every call must finish by, such as the end of a chat turn
+   */
+  constructor(env: Env, tenantApiKeys: LLMApiKeys = {}, deadline?: number) {
     this.env = env;
-    this.initializeProviders();
-  }
-
-  private initializeProviders(): void {
-    // Initialize all available providers
-    const openai = new OpenAIProvider(this.env);
-    const google = new GoogleProvider(this.env);
-    const anthropic = new AnthropicProvider(this.env);
-    const openrouter = new OpenRouterProvider(this.env);
-    const groq = new GroqProvider(this.env);
-
-    this.providers.set("openai", openai);
-    this.providers.set("google", google);
-    this.providers.set("anthropic", anthropic);
-    this.providers.set("openrouter", openrouter);
-    this.providers.set("groq", groq);
+    this.deadline = deadline;
+    this.initializeProviders(tenantApiKeys);
   }
 
   /**
-   * Configure providers with tenant-specific API keys
+   * Create a service scoped to a single tenant. Providers are immutable, so every
+   * request gets its own instances and tenant keys can never leak between requests.
+   * Tenant keys are stored encrypted and are only decrypted here.
+   * @param env Worker environment holding the default API keys and the secrets master key
    * @param tenantConfig The tenant configuration containing optional API keys
+   * @param deadline Time (ms since epoch) every call must finish by, such as the end of a chat turn
    */
-  configureTenantApiKeys(tenantConfig: TenantConfig | null): void {
-    if (!tenantConfig) return;
-
-    // Set tenant API keys for each provider if available
-    const openaiProvider = this.providers.get("openai");
-    if (openaiProvider && tenantConfig["openai-api-key"]) {
-      openaiProvider.setTenantApiKey(tenantConfig["openai-api-key"]);
+  static async forTenant(
+    env: Env,
+    tenantConfig: TenantConfig | null,
+    deadline?: number
+  ): Promise<LLMService> {
+    if (!tenantConfig) {
+      return new LLMService(env, {}, deadline);
     }
 
-    const googleProvider = this.providers.get("google");
-    if (googleProvider && tenantConfig["google-ai-api-key"]) {
-      googleProvider.setTenantApiKey(tenantConfig["google-ai-api-key"]);
+    let masterKey: CryptoKey | null = null;
+    if (env.TENANT_SECRETS_MASTER_KEY) {
+      try {
+        masterKey = await importMasterKey(env.TENANT_SECRETS_MASTER_KEY);
+      } catch (error) {
+        console.error("Failed to import tenant secrets master key:", error);
+      }
     }
 
-    const anthropicProvider = this.providers.get("anthropic");
-    if (anthropicProvider && tenantConfig["anthropic-api-key"]) {
-      anthropicProvider.setTenantApiKey(tenantConfig["anthropic-api-key"]);
-    }
+    // A key that cannot be decrypted falls back to the default key for that provider
+    const decrypt = async (field: TenantSecretField) => {
+      const value = tenantConfig[field];
+      if (!value) return undefined;
+      try {
+        return await decryptSecret(value, masterKey);
+      } catch (error) {
+        console.error(
+          `Failed to decrypt tenant ${field}:`,
+          error instanceof Error ? error.message : "Unknown error"
+        );
+        return undefined;
+      }
+    };
 
-    const openrouterProvider = this.providers.get("openrouter");
-    if (openrouterProvider && tenantConfig["openrouter-api-key"]) {
-      openrouterProvider.setTenantApiKey(tenantConfig["openrouter-api-key"]);
-    }
+    const [openai, google, anthropic, openrouter, groq] = await Promise.all([
+      decrypt("openai-api-key"),
+      decrypt("google-ai-api-key"),
+      decrypt("anthropic-api-key"),
+      decrypt("openrouter-api-key"),
+      decrypt("groq-api-key"),
+    ]);
 
-    const groqProvider = this.providers.get("groq");
-    if (groqProvider && tenantConfig["groq-api-key"]) {
-      groqProvider.setTenantApiKey(tenantConfig["groq-api-key"]);
-    }
+    return new LLMService(
+      env,
+      { openai, google, anthropic, openrouter, groq },
+      deadline
+    );
   }
 
   /**
-   * Reset all providers to use default API keys
+   * Time left until the service's deadline, unlimited without one
    */
-  resetToDefaultApiKeys(): void {
-    this.providers.forEach((provider) => {
-      provider.setTenantApiKey(undefined);
-    });
+  private timeLeftForService(): number {
+    return this.deadline === undefined ? Infinity : this.deadline - Date.now();
+  }
+
+  private initializeProviders(tenantApiKeys: LLMApiKeys): void {
+    // Initialize all providers, preferring tenant keys over the defaults
+    const openai = new OpenAIProvider(
+      tenantApiKeys.openai || this.env.OPENAI_API_KEY
+    );
+    const google = new GoogleProvider(
+      tenantApiKeys.google || this.env.GOOGLE_AI_API_KEY
+    );
+    const anthropic = new AnthropicProvider(
+      tenantApiKeys.anthropic || this.env.ANTHROPIC_API_KEY
+    );
+    const openrouter = new OpenRouterProvider(
+      tenantApiKeys.openrouter || this.env.OPENROUTER_API_KEY
+    );
+    const groq = new GroqProvider(tenantApiKeys.groq || this.env.GROQ_API_KEY);
+
+    this.providers.set("openai", openai);
+    this.providers.set("google", google);
+    this.providers.set("anthropic", anthropic);
+    this.providers.set("openrouter", openrouter);
+    this.providers.set("groq", groq);
   }
 
   /**
@@ -98,6 +174,23 @@ export class LLMService {
     return provider && provider.isAvailable() ? provider : null;
   }
 
+  /**
+   * Run health checks against every provider that has an API key configured
+   * @returns Map of provider type to whether it responded successfully
+   */
+  async checkProviderHealth(): Promise<
+    Partial<Record<LLMProviderType, boolean>>
+  > {
+    const providers = this.getAvailableProviders();
+    const results = await Promise.all(
+      providers.map((provider) => provider.healthCheck())
+    );
+
+    return Object.fromEntries(
+      providers.map((provider, index) => [provider.type, results[index]])
+    );
+  }
+
   // getSupportedModels method removed - no longer restricting models
 
   /**
@@ -110,6 +203,8 @@ export class LLMService {
       temperature?: number;
       maxTokens?: number;
       provider?: LLMProviderType;
+      stream?: boolean;
+      onToken?: (token: string) => void;
     } = {}
   ): Promise<{
     content: string;
@@ -146,6 +241,8 @@ export class LLMService {
       model: config.model,
       temperature: config.temperature,
       maxTokens: config.maxTokens,
+      stream: options.stream,
+      onToken: options.onToken,
     };
 
     const response = await providerInstance.createCompletion(
@@ -162,6 +259,343 @@ export class LLMService {
     };
   }
 
+  /**
+   * Create a completion for a task, walking its fallback chain (primary, then alternative).
+   * Every call gets a deadline, retryable failures (429/5xx/timeouts) are retried with
+   * exponential backoff, and providers with an open circuit breaker are skipped. The whole
+   * chain shares one overall deadline, never later than the service's own; once it passes,
+   * nothing is retried or tried next.
+   * @param messages Messages to send
+   * @param llmConfig Task LLM configuration the chain is built from
+   * @param options.onToken Enables streaming when provided
+   * @param options.onReset Called before a retry or fallback when tokens were already streamed
+   * @param options.tools Tools offered to the model; skipped for chain entries with toolCalling: false
+   * @param options.deadline Time (ms since epoch) the call must finish by, defaults to totalTimeoutMs from now
+   * @throws LLMFallbackError with every failed attempt when the whole chain fails or runs out of time
+   */
+  async createTaskCompletion(
+    messages: ChatMessage[],
+    llmConfig: TaskLLMConfig,
+    options: {
+      onToken?: (token: string) => void;
+      onReset?: () => void;
+      tools?: LLMToolDefinition[];
+      toolChoice?: LLMToolChoice;
+      deadline?: number;
+    } = {}
+  ): Promise<LLMCompletionResponse> {
+    const resilience = LLM_RESILIENCE_CONFIG;
+    const timeoutMs = llmConfig.timeoutMs ?? resilience.timeoutMs;
+    const deadline = Math.min(
+      options.deadline ?? Date.now() + resilience.totalTimeoutMs,
+      this.deadline ?? Infinity
+    );
+    const timeLeft = () => deadline - Date.now();
+    const attempts: LLMAttempt[] = [];
+
+    // Track streamed output so the client can be told to discard it before a retry
+    let hasStreamedTokens = false;
+    const onToken = options.onToken
+      ? (token: string) => {
+          hasStreamedTokens = true;
+          options.onToken?.(token);
+        }
+      : undefined;
+
+    for (const config of buildFallbackChain(llmConfig)) {
+      if (timeLeft() <= 0) break;
+
+      const provider = this.getProvider(config.provider);
+      if (!provider) {
+        console.warn(`Skipping ${config.provider}: provider not available`);
+        continue;
+      }
+
+      const breaker = getCircuitBreaker(
+        config.provider,
+        await provider.getCredentialId(),
+        resilience
+      );
+
+      for (let attempt = 0; attempt <= resilience.maxRetries; attempt++) {
+        if (!breaker.canRequest()) {
+          console.warn(`Skipping ${config.provider}: circuit breaker is open`);
+          break;
+        }
+
+        if (attempt > 0) {
+          await sleep(
+            Math.min(getBackoffDelay(attempt - 1, resilience), timeLeft())
+          );
+        }
+        // No attempt may run past the overall deadline
+        const attemptTimeoutMs = Math.min(timeoutMs, timeLeft());
+        if (attemptTimeoutMs <= 0) break;
+        if (hasStreamedTokens) {
+          options.onReset?.();
+          hasStreamedTokens = false;
+        }
+
+        const startedAt = Date.now();
+        try {
+          const response = await this.callWithDeadline(
+            provider,
+            messages,
+            config,
+            attemptTimeoutMs,
+            {
+              onToken,
+              ...(config.toolCalling !== false && {
+                tools: options.tools,
+                toolChoice: options.toolChoice,
+              }),
+            }
+          );
+          breaker.recordSuccess();
+
+          if (attempts.length > 0) {
+            console.warn(
+              `LLM call succeeded with ${config.provider}/${config.model} after ${attempts.length} failed attempt(s)`
+            );
+          }
+          return response;
+        } catch (error) {
+          const retryable = isRetryableError(error);
+          attempts.push({
+            provider: config.provider,
+            model: config.model,
+            attempt: attempt + 1,
+            error: error instanceof Error ? error.message : String(error),
+            status: getErrorStatus(error),
+            durationMs: Date.now() - startedAt,
+          });
+          console.warn(
+            `LLM call to ${config.provider}/${config.model} failed (attempt ${
+              attempt + 1
+            }):`,
+            error instanceof Error ? error.message : error
+          );
+
+          // Auth and request errors say nothing about provider health
+          if (!retryable) break;
+          breaker.recordFailure();
+        }
+      }
+    }
+
+    if (timeLeft() <= 0) {
+      console.warn(
+        `LLM fallback chain ran out of time after ${attempts.length} attempt(s)`
+      );
+    }
+    throw new LLMFallbackError(attempts);
+  }
+
+  /**
+   * Embed texts in batches. There is no fallback model: vectors from different
+   * models cannot be compared, so a failure is left to the caller.
+   * @param texts Texts to embed
+   * @param config Embedding model, dimensions, batch size and per-batch deadline
+   * @returns One vector per text, with usage summed over all batches
+   */
+  async createEmbeddings(
+    texts: string[],
+    config: EmbeddingConfig
+  ): Promise<LLMEmbeddingResponse> {
+    const provider = this.getProvider(config.provider);
+    if (!provider?.createEmbeddings) {
+      throw new Error(`Provider ${config.provider} cannot create embeddings`);
+    }
+
+    const result: LLMEmbeddingResponse = {
+      embeddings: [],
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      model: config.model,
+      provider: config.provider,
+    };
+
+    for (let start = 0; start < texts.length; start += config.batchSize) {
+      // No batch may run past the service's deadline
+      const timeoutMs = Math.min(config.timeoutMs, this.timeLeftForService());
+      if (timeoutMs <= 0) {
+        throw new LLMTimeoutError(config.provider, config.model, 0);
+      }
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const batch = await provider.createEmbeddings(
+          texts.slice(start, start + config.batchSize),
+          {
+            model: config.model,
+            dimensions: config.dimensions,
+            signal: controller.signal,
+          }
+        );
+        result.embeddings.push(...batch.embeddings);
+        result.model = batch.model;
+        if (batch.usage && result.usage) {
+          result.usage.promptTokens += batch.usage.promptTokens;
+          result.usage.totalTokens += batch.usage.totalTokens;
+        }
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new LLMTimeoutError(config.provider, config.model, timeoutMs);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Create a completion whose output must match a tool's parameter schema.
+   * The model is asked to call the tool; its arguments (or JSON in the text for models
+   * without tool support) are validated, and on a violation the model is re-prompted
+   * once with the validation errors.
+   * @param messages Messages to send
+   * @param llmConfig Task LLM configuration
+   * @param tool Tool whose parameters describe the expected output
+   * @returns The validated output, or null with the errors when repair failed
+   */
+  async createStructuredCompletion<T>(
+    messages: ChatMessage[],
+    llmConfig: TaskLLMConfig,
+    tool: LLMToolDefinition
+  ): Promise<StructuredCompletionResult<T>> {
+    const schema = tool.parameters as JsonSchema;
+    // The repair call shares the deadline of the first call
+    const toolOptions = {
+      tools: [tool],
+      toolChoice: { name: tool.name },
+      deadline: Date.now() + LLM_RESILIENCE_CONFIG.totalTimeoutMs,
+    };
+
+    const extract = (response: LLMCompletionResponse) => {
+      const parseErrors: SchemaValidationError[] = [];
+      const output = parseToolCallResult<Record<string, unknown>>(
+        response,
+        tool.name,
+        {},
+        (error) => parseErrors.push({ path: "$", message: error.message })
+      );
+      return {
+        output,
+        errors:
+          parseErrors.length > 0 ? parseErrors : validateSchema(output, schema),
+      };
+    };
+
+    const response = await this.createTaskCompletion(
+      messages,
+      llmConfig,
+      toolOptions
+    );
+    const first = extract(response);
+    if (first.errors.length === 0) {
+      return {
+        response,
+        output: first.output as T,
+        validationErrors: [],
+      };
+    }
+
+    const repairMessages: ChatMessage[] = [
+      ...messages,
+      {
+        role: "assistant",
+        content: getCompletionContent(response),
+        timestamp: Date.now(),
+      },
+      {
+        role: "user",
+        content: `Your previous output did not match the required schema for ${
+          tool.name
+        }:\n${first.errors
+          .map((error) => `- ${error.path}: ${error.message}`)
+          .join("\n")}\nCall ${
+          tool.name
+        } again with corrected arguments, keeping everything else the same.`,
+        timestamp: Date.now(),
+      },
+    ];
+
+    let repairResponse: LLMCompletionResponse;
+    try {
+      repairResponse = await this.createTaskCompletion(
+        repairMessages,
+        llmConfig,
+        toolOptions
+      );
+    } catch (error) {
+      // The first response is still usable by the caller's fallback
+      return {
+        response,
+        output: null,
+        validationErrors: first.errors,
+        repairErrors: [
+          {
+            path: "$",
+            message: `Repair call failed: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          },
+        ],
+      };
+    }
+    const repaired = extract(repairResponse);
+
+    return {
+      response: {
+        ...repairResponse,
+        usage: sumUsage(response.usage, repairResponse.usage),
+      },
+      output: repaired.errors.length === 0 ? (repaired.output as T) : null,
+      validationErrors: first.errors,
+      repairErrors: repaired.errors,
+    };
+  }
+
+  /**
+   * Run a single provider call, aborting it once the deadline passes
+   */
+  private async callWithDeadline(
+    provider: LLMProvider,
+    messages: ChatMessage[],
+    config: LLMProviderConfig,
+    timeoutMs: number,
+    options: Pick<LLMCompletionOptions, "onToken" | "tools" | "toolChoice">
+  ): Promise<LLMCompletionResponse> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      return await provider.createCompletion(messages, {
+        model: config.model,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        stream: !!options.onToken,
+        onToken: options.onToken,
+        tools: options.tools,
+        toolChoice: options.toolChoice,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (timedOut) {
+        throw new LLMTimeoutError(config.provider, config.model, timeoutMs);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Create completion using LLMProviderConfig (for advanced usage)
    */
@@ -247,3 +681,16 @@ export class LLMService {
     return openaiProvider?.getClient();
   }
 }
+
+function sumUsage(
+  first: LLMCompletionResponse["usage"],
+  second: LLMCompletionResponse["usage"]
+): LLMCompletionResponse["usage"] {
+  if (!first || !second) return second || first;
+  return {
+    promptTokens: first.promptTokens + second.promptTokens,
+    completionTokens: first.completionTokens + second.completionTokens,
+    totalTokens: first.totalTokens + second.totalTokens,
+    cachedTokens: (first.cachedTokens || 0) + (second.cachedTokens || 0),
+  };
+}
@@ -1,40 +1,28 @@
 import OpenAI from "openai";
 import { BaseLLMProvider } from "./baseLLMProvider";
 import {
-  Env,
   ChatMessage,
   LLMCompletionOptions,
   LLMCompletionResponse,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
 } from "../../types";
 
 export class OpenAIProvider extends BaseLLMProvider {
   readonly type = "openai" as const;
+  protected readonly baseUrl = "https://api.openai.com/v1";
 
-  private openai: OpenAI;
-  private defaultApiKey: string;
+  private readonly openai: OpenAI;
 
-  constructor(env: Env) {
-    super();
-    this.defaultApiKey = env.OPENAI_API_KEY;
+  constructor(apiKey: string | undefined) {
+    super(apiKey);
     this.openai = new OpenAI({
-      apiKey: this.defaultApiKey,
+      apiKey: this.apiKey,
+      // Retries and fallbacks are handled by LLMService
+      maxRetries: 0,
     });
   }
 
-  setTenantApiKey(apiKey: string | undefined): void {
-    super.setTenantApiKey(apiKey);
-    // Reinitialize client with the new API key
-    const keyToUse = this.getApiKey(this.defaultApiKey);
-    this.openai = new OpenAI({
-      apiKey: keyToUse,
-    });
-  }
-
-  isAvailable(): boolean {
-    const keyToUse = this.getApiKey(this.defaultApiKey);
-    return !!keyToUse;
-  }
-
   async createCompletion(
     messages: ChatMessage[],
     options: LLMCompletionOptions = {}
@@ -49,25 +37,45 @@ export class OpenAIProvider extends BaseLLMProvider {
     const openaiMessages = this.normalizeMessages(messages);
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model,
-        messages: openaiMessages,
-        temperature,
-        max_tokens: maxTokens,
-      });
+      if (options.stream) {
+        return await this.createStreamingCompletion(openaiMessages, {
+          model,
+          temperature,
+          maxTokens,
+          onToken: options.onToken,
+          signal: options.signal,
+        });
+      }
+
+      const response = await this.openai.chat.completions.create(
+        {
+          model,
+          messages: openaiMessages,
+          temperature,
+          max_tokens: maxTokens,
+          ...(options.tools && {
+            tools: this.toOpenAITools(options.tools),
+            tool_choice: this.toOpenAIToolChoice(options.toolChoice),
+          }),
+        },
+        { signal: options.signal }
+      );
 
       const choice = response.choices[0];
-      if (!choice?.message?.content) {
+      const toolCalls = this.fromOpenAIToolCalls(choice?.message?.tool_calls);
+      if (!choice?.message?.content && !toolCalls) {
         throw new Error("No content in OpenAI response");
       }
 
       return {
-        content: choice.message.content,
+        content: choice.message.content || "",
+        toolCalls,
         usage: response.usage
           ? {
               promptTokens: response.usage.prompt_tokens,
               completionTokens: response.usage.completion_tokens,
               totalTokens: response.usage.total_tokens,
+              cachedTokens: response.usage.prompt_tokens_details?.cached_tokens,
             }
           : undefined,
         model: response.model,
@@ -80,6 +88,116 @@ export class OpenAIProvider extends BaseLLMProvider {
     }
   }
 
+  /**
+   * Stream the completion, forwarding each content delta to onToken
+   */
+  private async createStreamingCompletion(
+    messages: ReturnType<BaseLLMProvider["normalizeMessages"]>,
+    {
+      model,
+      temperature,
+      maxTokens,
+      onToken,
+      signal,
+    }: {
+      model: string;
+      temperature: number;
+      maxTokens?: number;
+      onToken?: (token: string) => void;
+      signal?: AbortSignal;
+    }
+  ): Promise<LLMCompletionResponse> {
+    const stream = await this.openai.chat.completions.create(
+      {
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal }
+    );
+
+    let content = "";
+    let responseModel = model;
+    let finishReason: string | null = null;
+    let usage: LLMCompletionResponse["usage"];
+
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        content += delta;
+        onToken?.(delta);
+      }
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+      const chunkUsage = chunk.usage;
+      if (chunkUsage) {
+        usage = {
+          promptTokens: chunkUsage.prompt_tokens,
+          completionTokens: chunkUsage.completion_tokens,
+          totalTokens: chunkUsage.total_tokens,
+          cachedTokens: chunkUsage.prompt_tokens_details?.cached_tokens,
+        };
+      }
+      responseModel = chunk.model || responseModel;
+    }
+
+    if (!content) {
+      throw new Error("No content in OpenAI stream");
+    }
+
+    return {
+      content,
+      usage,
+      model: responseModel,
+      finishReason,
+      provider: this.type,
+    };
+  }
+
+  async createEmbeddings(
+    texts: string[],
+    options: LLMEmbeddingOptions
+  ): Promise<LLMEmbeddingResponse> {
+    const response = await this.openai.embeddings.create(
+      {
+        model: options.model,
+        input: texts,
+        ...(options.dimensions && { dimensions: options.dimensions }),
+      },
+      { signal: options.signal }
+    );
+
+    return {
+      embeddings: [...response.data]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding),
+      usage: {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: 0,
+        totalTokens: response.usage.total_tokens,
+      },
+      model: response.model,
+      provider: this.type,
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (!this.isAvailable()) return false;
+
+    try {
+      await this.openai.models.list();
+      return true;
+    } catch (error) {
+      console.warn("OpenAI health check failed:", error);
+      return false;
+    }
+  }
+
   getClient(): OpenAI {
     return this.openai;
   }
@@ -1,7 +1,6 @@
 import OpenAI from "openai";
 import { BaseLLMProvider } from "./baseLLMProvider";
 import {
-  Env,
   ChatMessage,
   LLMCompletionOptions,
   LLMCompletionResponse,
@@ -9,21 +8,17 @@ import {
 
 export class OpenRouterProvider extends BaseLLMProvider {
   readonly type = "openrouter" as const;
+  protected readonly baseUrl = "https://openrouter.ai/api/v1";
 
-  private openai!: OpenAI;
-  private defaultApiKey: string;
+  private readonly openai: OpenAI;
 
-  constructor(env: Env) {
-    super();
-    this.defaultApiKey = env.OPENROUTER_API_KEY || "";
-    this.initializeClient();
-  }
-
-  private initializeClient(): void {
-    const keyToUse = this.getApiKey(this.defaultApiKey);
+  constructor(apiKey: string | undefined) {
+    super(apiKey);
     this.openai = new OpenAI({
-      apiKey: keyToUse,
-      baseURL: "https://openrouter.ai/api/v1",
+      apiKey: this.apiKey,
+      // Retries and fallbacks are handled by LLMService
+      maxRetries: 0,
+      baseURL: this.baseUrl,
       defaultHeaders: {
         "HTTP-Referer": "https://hotel-chat-script.com",
         "X-Title": "Hotel Chat Script",
@@ -31,16 +26,6 @@ export class OpenRouterProvider extends BaseLLMProvider {
     });
   }
 
-  setTenantApiKey(apiKey: string | undefined): void {
-    super.setTenantApiKey(apiKey);
-    this.initializeClient();
-  }
-
-  isAvailable(): boolean {
-    const keyToUse = this.getApiKey(this.defaultApiKey);
-    return !!keyToUse;
-  }
-
   async createCompletion(
     messages: ChatMessage[],
     options: LLMCompletionOptions = {}
@@ -55,25 +40,45 @@ export class OpenRouterProvider extends BaseLLMProvider {
     const openaiMessages = this.normalizeMessages(messages);
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model,
-        messages: openaiMessages,
-        temperature,
-        max_tokens: maxTokens,
-      });
+      if (options.stream) {
+        return await this.createStreamingCompletion(openaiMessages, {
+          model,
+          temperature,
+          maxTokens,
+          onToken: options.onToken,
+          signal: options.signal,
+        });
+      }
+
+      const response = await this.openai.chat.completions.create(
+        {
+          model,
+          messages: openaiMessages,
+          temperature,
+          max_tokens: maxTokens,
+          ...(options.tools && {
+            tools: this.toOpenAITools(options.tools),
+            tool_choice: this.toOpenAIToolChoice(options.toolChoice),
+          }),
+        },
+        { signal: options.signal }
+      );
 
       const choice = response.choices[0];
-      if (!choice?.message?.content) {
+      const toolCalls = this.fromOpenAIToolCalls(choice?.message?.tool_calls);
+      if (!choice?.message?.content && !toolCalls) {
         throw new Error("No content in OpenRouter response");
       }
 
       return {
-        content: choice.message.content,
+        content: choice.message.content || "",
+        toolCalls,
         usage: response.usage
           ? {
               promptTokens: response.usage.prompt_tokens,
               completionTokens: response.usage.completion_tokens,
               totalTokens: response.usage.total_tokens,
+              cachedTokens: response.usage.prompt_tokens_details?.cached_tokens,
             }
           : undefined,
         model: response.model,
@@ -86,6 +91,94 @@ export class OpenRouterProvider extends BaseLLMProvider {
     }
   }
 
+  /**
+   * Stream the completion, forwarding each content delta to onToken
+   */
+  private async createStreamingCompletion(
+    messages: ReturnType<BaseLLMProvider["normalizeMessages"]>,
+    {
+      model,
+      temperature,
+      maxTokens,
+      onToken,
+      signal,
+    }: {
+      model: string;
+      temperature: number;
+      maxTokens?: number;
+      onToken?: (token: string) => void;
+      signal?: AbortSignal;
+    }
+  ): Promise<LLMCompletionResponse> {
+    const stream = await this.openai.chat.completions.create(
+      {
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal }
+    );
+
+    let content = "";
+    let responseModel = model;
+    let finishReason: string | null = null;
+    let usage: LLMCompletionResponse["usage"];
+
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        content += delta;
+        onToken?.(delta);
+      }
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+      const chunkUsage = chunk.usage;
+      if (chunkUsage) {
+        usage = {
+          promptTokens: chunkUsage.prompt_tokens,
+          completionTokens: chunkUsage.completion_tokens,
+          totalTokens: chunkUsage.total_tokens,
+          cachedTokens: chunkUsage.prompt_tokens_details?.cached_tokens,
+        };
+      }
+      responseModel = chunk.model || responseModel;
+    }
+
+    if (!content) {
+      throw new Error("No content in OpenRouter stream");
+    }
+
+    return {
+      content,
+      usage,
+      model: responseModel,
+      finishReason,
+      provider: this.type,
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    if (!this.isAvailable()) return false;
+
+    try {
+      // The models endpoint is public, so check the key endpoint instead
+      const response = await fetch("https://openrouter.ai/api/v1/auth/key", {
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+      });
+      return response.ok;
+    } catch (error) {
+      console.warn("OpenRouter health check failed:", error);
+      return false;
+    }
+  }
+
   getClient(): OpenAI {
     return this.openai;
   }
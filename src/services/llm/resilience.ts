@@ -0,0 +1,142 @@
+import { LLMProviderType } from "../../types";
+import { LLMResilienceConfig } from "../../config/llmConfig";
+
+export interface LLMAttempt {
+  provider: LLMProviderType;
+  model: string;
+  attempt: number;
+  error: string;
+  status?: number;
+  durationMs: number;
+}
+
+export class LLMTimeoutError extends Error {
+  constructor(provider: LLMProviderType, model: string, timeoutMs: number) {
+    super(`${provider}/${model} did not respond within ${timeoutMs}ms`);
+    this.name = "LLMTimeoutError";
+  }
+}
+
+/**
+ * Thrown when every entry of a fallback chain failed
+ */
+export class LLMFallbackError extends Error {
+  readonly attempts: LLMAttempt[];
+
+  constructor(attempts: LLMAttempt[]) {
+    const last = attempts[attempts.length - 1];
+    super(
+      last
+        ? `All LLM providers failed, last error from ${last.provider}/${last.model}: ${last.error}`
+        : "No LLM provider in the fallback chain is available"
+    );
+    this.name = "LLMFallbackError";
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Read the HTTP status from provider SDK errors (OpenAI, Anthropic, Groq and Google all expose `status`)
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Rate limits, server errors, timeouts and network failures are worth retrying;
+ * other 4xx errors (bad request, invalid key, unknown model) will fail the same way again
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof LLMTimeoutError) return true;
+
+  const status = getErrorStatus(error);
+  if (status === undefined) return true;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+export function getBackoffDelay(
+  retry: number,
+  config: LLMResilienceConfig
+): number {
+  const ceiling = Math.min(
+    config.maxDelayMs,
+    config.baseDelayMs * Math.pow(2, retry)
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Tracks consecutive failures of one provider credential. After `failureThreshold`
+ * failures the circuit opens and the credential is skipped until `cooldownMs` has passed. Calls are
+ * then let through again: one success closes the circuit, one failure re-opens it.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+
+  constructor(failureThreshold: number, cooldownMs: number) {
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  canRequest(): boolean {
+    if (this.openedAt === null) return true;
+    return Date.now() - this.openedAt >= this.cooldownMs;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures >= this.failureThreshold) {
+      // Re-opening after a failed trial restarts the cooldown
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+// Module-level so breaker state is shared by all requests served by this isolate.
+// Breakers are kept per credential: a tenant's failing key must not block the
+// provider for tenants calling it with other keys.
+const circuitBreakers = new Map<string, CircuitBreaker>();
+// Tenant keys come and go, so the oldest breakers are dropped past this many
+const MAX_CIRCUIT_BREAKERS = 1000;
+
+/**
+ * Get the breaker of one provider credential
+ * @param provider The provider type
+ * @param credentialId Hash of the endpoint and API key, see LLMProvider.getCredentialId
+ */
+export function getCircuitBreaker(
+  provider: LLMProviderType,
+  credentialId: string,
+  config: LLMResilienceConfig
+): CircuitBreaker {
+  const key = `${provider}:${credentialId}`;
+  let breaker = circuitBreakers.get(key);
+  if (!breaker) {
+    if (circuitBreakers.size >= MAX_CIRCUIT_BREAKERS) {
+      const oldest = circuitBreakers.keys().next().value;
+      if (oldest !== undefined) circuitBreakers.delete(oldest);
+    }
+    breaker = new CircuitBreaker(
+      config.circuitBreaker.failureThreshold,
+      config.circuitBreaker.cooldownMs
+    );
+    circuitBreakers.set(key, breaker);
+  }
+  return breaker;
+}
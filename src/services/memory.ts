@@ -1,13 +1,55 @@
-import { Env, SessionMemory } from "../types";
+import { ChatMessage, Env, SessionMemory } from "../types";
+import {
+  TenantConfig,
+  TenantSessionSettings,
+} from "../tasks/dataCollectionTask";
+
+const DEFAULT_HISTORY_WINDOW_HOURS = 4;
+const DEFAULT_RETENTION_HOURS = 24 * 7; // 7 days
 
 export class MemoryService {
+  private env: Env;
   private kv: KVNamespace;
   private contextWindowLength: number;
-  private readonly MESSAGE_EXPIRY_MS = 4 * 60 * 60 * 1000; // 4 hours in milliseconds
+  private messageExpiryMs: number;
+  private sessionTtlSeconds: number;
 
-  constructor(env: Env) {
+  /**
+   * @param env - Worker environment; CONTEXT_WINDOW_LENGTH is the global default context length
+   * @param sessionSettings - Tenant overrides for the history window, retention and context length
+   */
+  constructor(env: Env, sessionSettings: TenantSessionSettings = {}) {
+    this.env = env;
     this.kv = env.CHAT_SESSIONS;
-    this.contextWindowLength = parseInt(env.CONTEXT_WINDOW_LENGTH) || 15;
+    this.contextWindowLength =
+      sessionSettings.contextWindowLength ||
+      parseInt(env.CONTEXT_WINDOW_LENGTH) ||
+      15;
+    const historyWindowHours =
+      sessionSettings.historyWindowHours ?? DEFAULT_HISTORY_WINDOW_HOURS;
+    this.messageExpiryMs = historyWindowHours * 60 * 60 * 1000;
+    // A long history window keeps sessions at least as long as the window
+    this.sessionTtlSeconds = Math.round(
+      (sessionSettings.retentionHours ??
+        Math.max(DEFAULT_RETENTION_HOURS, historyWindowHours)) *
+        60 *
+        60
+    );
+  }
+
+  /**
+   * Create a memory service applying a tenant's session settings
+   * @param tenantConfig - The tenant's configuration, null falls back to the global defaults
+   */
+  forTenant(tenantConfig: TenantConfig | null): MemoryService {
+    return new MemoryService(this.env, tenantConfig?.session);
+  }
+
+  /**
+   * TTL of stored sessions, for records that should expire together with them
+   */
+  getSessionTtlSeconds(): number {
+    return this.sessionTtlSeconds;
   }
 
   private getSessionKey(tenantId: string, sessionId: string): string {
@@ -19,13 +61,13 @@ export class MemoryService {
   }
 
   /**
-   * Filter messages to only include those newer than 4 hours
+   * Filter messages to only include those inside the tenant's history window
    * @param memory - SessionMemory to filter
    * @returns SessionMemory with filtered messages
    */
   private filterRecentMessages(memory: SessionMemory): SessionMemory {
     const currentTime = Date.now();
-    const cutoffTime = currentTime - this.MESSAGE_EXPIRY_MS;
+    const cutoffTime = currentTime - this.messageExpiryMs;
 
     const filteredMessages = memory.messages.filter(
       (message) => message.timestamp > cutoffTime
@@ -37,6 +79,28 @@ export class MemoryService {
     };
   }
 
+  /**
+   * Move messages outside the tenant's history window to expiredMessages,
+   * so they are summarized instead of silently dropped
+   * @param memory - SessionMemory as stored
+   * @returns SessionMemory whose messages are all inside the history window
+   */
+  private setAsideExpiredMessages(memory: SessionMemory): SessionMemory {
+    const cutoffTime = Date.now() - this.messageExpiryMs;
+    const expiredMessages = memory.messages.filter(
+      (message) => message.timestamp <= cutoffTime
+    );
+    if (expiredMessages.length === 0) return memory;
+
+    return {
+      ...memory,
+      messages: memory.messages.filter(
+        (message) => message.timestamp > cutoffTime
+      ),
+      expiredMessages: [...(memory.expiredMessages ?? []), ...expiredMessages],
+    };
+  }
+
   async getSessionMemory(
     tenantId: string,
     sessionId: string
@@ -48,10 +112,11 @@ export class MemoryService {
 
       const sessionMemory = JSON.parse(data) as SessionMemory;
 
-      // Filter messages to only include those from the last 4 hours
-      const filteredMemory = this.filterRecentMessages(sessionMemory);
+      // Staff still need the whole conversation of an open handoff
+      if (sessionMemory.handoff) return sessionMemory;
 
-      return filteredMemory;
+      // Only messages inside the history window are used as context
+      return this.setAsideExpiredMessages(sessionMemory);
     } catch (error) {
       console.error(
         `Error getting session memory for ${tenantId}:${sessionId}:`,
@@ -61,6 +126,27 @@ export class MemoryService {
     }
   }
 
+  /**
+   * Messages that saving the memory would drop: those that left the history
+   * window, then the oldest ones beyond the context window
+   * @param memory - SessionMemory about to be saved
+   * @returns The evicted messages, oldest first
+   */
+  getEvictedMessages(memory: SessionMemory): ChatMessage[] {
+    return [
+      ...(memory.expiredMessages ?? []),
+      ...memory.messages.slice(
+        0,
+        Math.max(0, memory.messages.length - this.contextWindowLength)
+      ),
+    ];
+  }
+
+  /**
+   * Save the memory as it is. Only updateSessionWithConversation trims it to the
+   * context window, once the trimmed messages are summarized, so guest messages
+   * queued during a handoff are kept until the bot answers again.
+   */
   async saveSessionMemory(
     tenantId: string,
     sessionId: string,
@@ -69,15 +155,10 @@ export class MemoryService {
     try {
       const key = this.getSessionKey(tenantId, sessionId);
 
-      // Apply context window limit
-      if (memory.messages.length > this.contextWindowLength) {
-        memory.messages = memory.messages.slice(-this.contextWindowLength);
-      }
-
       memory.updatedAt = new Date().toISOString();
 
       await this.kv.put(key, JSON.stringify(memory), {
-        expirationTtl: 86400 * 7, // 7 days expiration
+        expirationTtl: this.sessionTtlSeconds,
       });
     } catch (error) {
       console.error(`Error saving session memory for ${sessionId}:`, error);
@@ -92,12 +173,18 @@ export class MemoryService {
       sessionMemory,
       userMessage,
       assistantResponse,
+      summarize,
     }: {
       tenantId: string;
       sessionId: string;
       sessionMemory: SessionMemory;
       userMessage: string;
       assistantResponse: string;
+      // Folds messages about to leave the context window into the summary
+      summarize?: (
+        evictedMessages: ChatMessage[],
+        previousSummary?: string
+      ) => Promise<string>;
     }
   ): Promise<void> {
     try {
@@ -115,6 +202,30 @@ export class MemoryService {
         timestamp: Date.now(),
       });
 
+      const evictedMessages = this.getEvictedMessages(sessionMemory);
+      if (summarize && evictedMessages.length > 0) {
+        try {
+          sessionMemory.summary = await summarize(
+            evictedMessages,
+            sessionMemory.summary
+          );
+        } catch (error) {
+          // Fall back to plain truncation, keeping the previous summary
+          console.error(
+            `Failed to summarize session ${tenantId}:${sessionId}:`,
+            error
+          );
+        }
+      }
+      delete sessionMemory.expiredMessages;
+
+      // Apply context window limit
+      if (sessionMemory.messages.length > this.contextWindowLength) {
+        sessionMemory.messages = sessionMemory.messages.slice(
+          -this.contextWindowLength
+        );
+      }
+
       // Save updated session memory
       await this.saveSessionMemory(tenantId, sessionId, sessionMemory);
     } catch (error) {
@@ -123,6 +234,28 @@ export class MemoryService {
     }
   }
 
+  /**
+   * Read everything stored for a session, including messages outside the history window
+   * @returns Chat and email session records, null when nothing is stored
+   */
+  async getStoredSessionData(
+    tenantId: string,
+    sessionId: string
+  ): Promise<{
+    session: SessionMemory | null;
+    emailSession: SessionMemory | null;
+  }> {
+    const [session, emailSession] = await Promise.all([
+      this.kv.get<SessionMemory>(this.getSessionKey(tenantId, sessionId), "json"),
+      this.kv.get<SessionMemory>(
+        this.getEmailSessionKey(tenantId, sessionId),
+        "json"
+      ),
+    ]);
+
+    return { session, emailSession };
+  }
+
   async clearSessionMemory(tenantId: string, sessionId: string): Promise<void> {
     try {
       const key = this.getSessionKey(tenantId, sessionId);
@@ -147,7 +280,7 @@ export class MemoryService {
 
       const sessionMemory = JSON.parse(data) as SessionMemory;
 
-      // Filter messages to only include those from the last 4 hours
+      // Filter messages to only include those inside the history window
       const filteredMemory = this.filterRecentMessages(sessionMemory);
 
       return filteredMemory;
@@ -176,7 +309,7 @@ export class MemoryService {
       memory.updatedAt = new Date().toISOString();
 
       await this.kv.put(key, JSON.stringify(memory), {
-        expirationTtl: 86400 * 7, // 7 days expiration
+        expirationTtl: this.sessionTtlSeconds,
       });
     } catch (error) {
       console.error(
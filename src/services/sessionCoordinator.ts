@@ -0,0 +1,217 @@
+import { DurableObject } from "cloudflare:workers";
+import { ChatResponse, Env } from "../types";
+
+export type BeginTurnResult =
+  | { status: "started"; turnId: string }
+  | { status: "duplicate"; response: ChatResponse } // Same idempotency key already answered
+  | { status: "busy" }; // Another turn held the session for too long
+
+interface CompletedTurn {
+  response: ChatResponse;
+  completedAt: number;
+}
+
+// Longest a turn may hold the session before the next one is let through
+const TURN_LEASE_MS = 120000;
+// Every LLM call of a turn must finish by then, leaving the rest of the lease to save the session
+export const TURN_LLM_DEADLINE_MS = TURN_LEASE_MS - 20000;
+// Longest a request waits for the turn before it
+const TURN_WAIT_MS = 60000;
+// How long answers are kept to recognise repeated submissions
+const IDEMPOTENCY_TTL_MS = 10 * 60 * 1000;
+const IDEMPOTENCY_KEY_PREFIX = "idempotency:";
+
+/**
+ * Thrown when a chat turn cannot start because the session is still busy
+ */
+export class SessionBusyError extends Error {
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} is still processing a previous message`);
+    this.name = "SessionBusyError";
+  }
+}
+
+/**
+ * Get the coordinator of a tenant session
+ */
+export function getSessionCoordinator(
+  namespace: DurableObjectNamespace<SessionCoordinator>,
+  tenantId: string,
+  sessionId: string
+): DurableObjectStub<SessionCoordinator> {
+  return namespace.get(namespace.idFromName(`${tenantId}:${sessionId}`));
+}
+
+/**
+ * Run a change outside the chat pipeline (staff updates, erasure) as a turn of the
+ * session, so a guest turn in progress cannot save over it. Like chat turns, it runs
+ * unserialized when the coordinator is unavailable.
+ * @throws SessionBusyError when the guest's turn did not finish in time
+ */
+export async function withSessionTurn<T>(
+  namespace: DurableObjectNamespace<SessionCoordinator>,
+  tenantId: string,
+  sessionId: string,
+  update: () => Promise<T>
+): Promise<T> {
+  let coordinator: DurableObjectStub<SessionCoordinator> | null = null;
+  let turnId: string | null = null;
+  try {
+    coordinator = getSessionCoordinator(namespace, tenantId, sessionId);
+    const turn = await coordinator.beginTurn();
+    if (turn.status === "busy") {
+      throw new SessionBusyError(sessionId);
+    }
+    // Without an idempotency key a turn is never a duplicate
+    turnId = turn.status === "started" ? turn.turnId : null;
+  } catch (error) {
+    if (error instanceof SessionBusyError) throw error;
+    console.error(
+      `Failed to serialize session update for ${sessionId}:`,
+      error
+    );
+  }
+
+  try {
+    return await update();
+  } finally {
+    if (coordinator && turnId) {
+      await coordinator.completeTurn(turnId).catch((error) => {
+        console.error(`Failed to finish turn for ${sessionId}:`, error);
+      });
+    }
+  }
+}
+
+/**
+ * One instance per tenant session. Serializes chat turns so each turn reads the
+ * session memory written by the previous one, and remembers recent answers by
+ * idempotency key so a repeated submission gets the original answer instead of
+ * a second turn. Turn state is kept in memory: if the object is evicted, the lock
+ * is simply released.
+ */
+export class SessionCoordinator extends DurableObject<Env> {
+  private activeTurn: {
+    id: string;
+    timer: ReturnType<typeof setTimeout>;
+  } | null = null;
+  private waitingTurns: Array<() => void> = [];
+
+  /**
+   * Wait for the session to be free, then start a turn
+   * @param idempotencyKey Key sent by the client, identical for resubmissions of one message
+   */
+  async beginTurn(idempotencyKey?: string): Promise<BeginTurnResult> {
+    if (this.activeTurn && !(await this.waitForTurn())) {
+      return { status: "busy" };
+    }
+
+    // Take the session before any storage read lets another request in
+    const turnId = crypto.randomUUID();
+    this.activeTurn = {
+      id: turnId,
+      timer: setTimeout(() => {
+        console.warn(`Chat turn ${turnId} exceeded its lease, releasing it`);
+        this.finishTurn(turnId);
+      }, TURN_LEASE_MS),
+    };
+
+    // Checked after waiting, so a duplicate of the turn that just finished sees its answer
+    if (idempotencyKey) {
+      const completed = await this.ctx.storage.get<CompletedTurn>(
+        `${IDEMPOTENCY_KEY_PREFIX}${idempotencyKey}`
+      );
+      if (
+        completed &&
+        Date.now() - completed.completedAt < IDEMPOTENCY_TTL_MS
+      ) {
+        this.finishTurn(turnId);
+        return { status: "duplicate", response: completed.response };
+      }
+    }
+
+    return { status: "started", turnId };
+  }
+
+  /**
+   * Finish a turn, remembering its answer under the idempotency key
+   */
+  async completeTurn(
+    turnId: string,
+    idempotencyKey?: string,
+    response?: ChatResponse
+  ): Promise<void> {
+    if (idempotencyKey && response) {
+      const completed: CompletedTurn = { response, completedAt: Date.now() };
+      await this.ctx.storage.put(
+        `${IDEMPOTENCY_KEY_PREFIX}${idempotencyKey}`,
+        completed
+      );
+      if ((await this.ctx.storage.getAlarm()) === null) {
+        await this.ctx.storage.setAlarm(Date.now() + IDEMPOTENCY_TTL_MS);
+      }
+    }
+    this.finishTurn(turnId);
+  }
+
+  /**
+   * Finish a turn that failed; a resubmission will be processed again
+   */
+  async abortTurn(turnId: string): Promise<void> {
+    this.finishTurn(turnId);
+  }
+
+  /**
+   * Delete every stored answer, used when the session is erased
+   */
+  async forgetAnswers(): Promise<void> {
+    await this.ctx.storage.deleteAll();
+  }
+
+  // Drop expired answers, and come back while any are left
+  async alarm(): Promise<void> {
+    const entries = await this.ctx.storage.list<CompletedTurn>({
+      prefix: IDEMPOTENCY_KEY_PREFIX,
+    });
+    const now = Date.now();
+    const expired = [...entries]
+      .filter(([, turn]) => now - turn.completedAt >= IDEMPOTENCY_TTL_MS)
+      .map(([key]) => key);
+
+    if (expired.length > 0) {
+      await this.ctx.storage.delete(expired);
+    }
+    if (entries.size > expired.length) {
+      await this.ctx.storage.setAlarm(now + IDEMPOTENCY_TTL_MS);
+    }
+  }
+
+  /**
+   * Queue behind the active turn
+   * @returns false when the wait timed out
+   */
+  private waitForTurn(): Promise<boolean> {
+    return new Promise((resolve) => {
+      const grant = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.waitingTurns = this.waitingTurns.filter(
+          (waiting) => waiting !== grant
+        );
+        resolve(false);
+      }, TURN_WAIT_MS);
+      this.waitingTurns.push(grant);
+    });
+  }
+
+  // Hand the session to the next waiting request, in arrival order
+  private finishTurn(turnId: string): void {
+    // Ignore late calls for a turn whose lease already expired
+    if (this.activeTurn?.id !== turnId) return;
+    clearTimeout(this.activeTurn.timer);
+    this.activeTurn = null;
+    this.waitingTurns.shift()?.();
+  }
+}
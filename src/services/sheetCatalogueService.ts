@@ -0,0 +1,294 @@
+import { Env } from "../types";
+import { LangfuseService } from "./langfuse";
+import { LLMService } from "./llm";
+import { KnowledgeSourceType, createKnowledgeSource } from "./knowledge";
+import { SpendService, GenerationSpend } from "./spendService";
+import { TenantConfigService } from "./tenantConfigService";
+import {
+  SheetCatalogueEntry,
+  SheetCatalogueTask,
+} from "../tasks/sheetCatalogueTask";
+import { LLM_TASK_CONFIGS } from "../config/llmConfig";
+import { calculateCost } from "../utils/usageTracker";
+import { formatSheetCatalogue } from "../utils/format";
+
+export interface SheetCatalogue {
+  tenantId: string;
+  status: "draft" | "approved";
+  knowledgeSource: KnowledgeSourceType;
+  generatedAt: string;
+  generatedBy: string;
+  sheets: SheetCatalogueEntry[];
+  errors: Array<{ sheetName: string; error: string }>; // Sheets left out of the catalogue
+  editedAt?: string;
+  editedBy?: string;
+  approvedAt?: string;
+  approvedBy?: string;
+  approvedVersion?: number; // Config version that took over the catalogue as excel-config
+}
+
+export type CatalogueGenerationResult =
+  | { status: "generated"; catalogue: SheetCatalogue }
+  | { status: "tenant-not-found" }
+  | { status: "no-knowledge-source" }
+  | { status: "cannot-list-sheets"; sourceType: KnowledgeSourceType }
+  | { status: "source-unavailable"; error: string };
+
+export type CatalogueReviewResult =
+  | { status: "updated"; catalogue: SheetCatalogue }
+  | { status: "approved"; catalogue: SheetCatalogue; version: number }
+  | { status: "not-found" }
+  | { status: "not-draft" }
+  | { status: "tenant-not-found" };
+
+// Spend of catalogue generation is recorded under this session ID
+const CATALOGUE_SPEND_SESSION_ID = "sheet-catalogue";
+// Sheets described at the same time, to stay within provider rate limits
+const CATALOGUE_CONCURRENCY = 4;
+
+/**
+ * Generates the excel-config sheet catalogue from the tenant's knowledge source.
+ * A generated catalogue is a draft until an admin approves it, which writes it
+ * as a new config version.
+ */
+export class SheetCatalogueService {
+  private env: Env;
+  private kv: KVNamespace;
+  private tenantConfigService: TenantConfigService;
+  private spendService: SpendService;
+  private langfuseService: LangfuseService;
+
+  constructor(env: Env) {
+    this.env = env;
+    this.kv = env.TENAT_CONFIG;
+    this.tenantConfigService = new TenantConfigService(env);
+    this.spendService = new SpendService(env);
+    this.langfuseService = new LangfuseService(env);
+  }
+
+  /**
+   * Catalogues live next to the configs, under a prefix that can never be a tenant ID
+   */
+  private getCatalogueKey(tenantId: string): string {
+    return `catalogue:${tenantId}`;
+  }
+
+  async get(tenantId: string): Promise<SheetCatalogue | null> {
+    return this.kv.get<SheetCatalogue>(this.getCatalogueKey(tenantId), "json");
+  }
+
+  private async save(catalogue: SheetCatalogue): Promise<void> {
+    await this.kv.put(
+      this.getCatalogueKey(catalogue.tenantId),
+      JSON.stringify(catalogue)
+    );
+  }
+
+  /**
+   * @returns False when the tenant has no catalogue
+   */
+  async delete(tenantId: string): Promise<boolean> {
+    if (!(await this.get(tenantId))) {
+      return false;
+    }
+    await this.kv.delete(this.getCatalogueKey(tenantId));
+    return true;
+  }
+
+  /**
+   * The excel-config text a catalogue would be approved as
+   */
+  renderExcelConfig(catalogue: SheetCatalogue): string {
+    return formatSheetCatalogue(catalogue.sheets);
+  }
+
+  /**
+   * Describe every sheet of the tenant's knowledge source and store the result
+   * as a draft, replacing any earlier catalogue
+   * @param tenantId The tenant ID
+   * @param author Who requested the catalogue
+   */
+  async generate(
+    tenantId: string,
+    author: string
+  ): Promise<CatalogueGenerationResult> {
+    const tenantConfig = await this.tenantConfigService.getConfig(tenantId);
+    if (!tenantConfig) {
+      return { status: "tenant-not-found" };
+    }
+
+    const knowledgeSource = await createKnowledgeSource(
+      this.env,
+      tenantId,
+      tenantConfig
+    );
+    if (!knowledgeSource) {
+      return { status: "no-knowledge-source" };
+    }
+    if (!knowledgeSource.listSheetNames) {
+      return { status: "cannot-list-sheets", sourceType: knowledgeSource.type };
+    }
+
+    let sheetNames: string[];
+    try {
+      sheetNames = await knowledgeSource.listSheetNames();
+    } catch (error) {
+      console.error(`Failed to list sheets of ${tenantId}:`, error);
+      return {
+        status: "source-unavailable",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const llmService = await LLMService.forTenant(this.env, tenantConfig);
+    const task = new SheetCatalogueTask(this.langfuseService, llmService);
+
+    const sheets: SheetCatalogueEntry[] = [];
+    const errors: SheetCatalogue["errors"] = [];
+    const generations: GenerationSpend[] = [];
+
+    for (let i = 0; i < sheetNames.length; i += CATALOGUE_CONCURRENCY) {
+      const batch = sheetNames.slice(i, i + CATALOGUE_CONCURRENCY);
+      const results = await Promise.allSettled(
+        batch.map(async (sheetName) => {
+          const table = await knowledgeSource.getSheetTable(sheetName);
+          if (table.headers.length === 0 || table.rows.length === 0) {
+            throw new Error("Sheet has no headers or no rows");
+          }
+          return task.execute({
+            table,
+            llmConfig: LLM_TASK_CONFIGS.sheetCatalogueTask,
+          });
+        })
+      );
+
+      results.forEach((result, position) => {
+        const sheetName = batch[position];
+        if (result.status === "rejected") {
+          errors.push({
+            sheetName,
+            error:
+              result.reason instanceof Error
+                ? result.reason.message
+                : String(result.reason),
+          });
+          return;
+        }
+
+        const { entry, usage, model, provider } = result.value;
+        if (usage && model && provider) {
+          generations.push({
+            task: "SheetCatalogueTask",
+            provider,
+            model,
+            usage,
+            costUsd: calculateCost(usage, model, provider)?.total ?? null,
+          });
+        }
+        if (entry) {
+          sheets.push(entry);
+        } else {
+          errors.push({
+            sheetName,
+            error: "Model output did not match the catalogue schema",
+          });
+        }
+      });
+    }
+
+    try {
+      await this.spendService.recordRequest(
+        tenantId,
+        CATALOGUE_SPEND_SESSION_ID,
+        generations
+      );
+    } catch (error) {
+      console.error("Failed to record catalogue generation spend:", error);
+      // Don't fail the generation if spend tracking fails
+    }
+
+    const catalogue: SheetCatalogue = {
+      tenantId,
+      status: "draft",
+      knowledgeSource: knowledgeSource.type,
+      generatedAt: new Date().toISOString(),
+      generatedBy: author,
+      sheets,
+      errors,
+    };
+    await this.save(catalogue);
+
+    return { status: "generated", catalogue };
+  }
+
+  /**
+   * Replace the sheets of a draft with a reviewed version
+   */
+  async updateDraft(
+    tenantId: string,
+    sheets: SheetCatalogueEntry[],
+    author: string
+  ): Promise<CatalogueReviewResult> {
+    const catalogue = await this.get(tenantId);
+    if (!catalogue) {
+      return { status: "not-found" };
+    }
+    if (catalogue.status !== "draft") {
+      return { status: "not-draft" };
+    }
+
+    const updated: SheetCatalogue = {
+      ...catalogue,
+      sheets,
+      editedAt: new Date().toISOString(),
+      editedBy: author,
+    };
+    await this.save(updated);
+    return { status: "updated", catalogue: updated };
+  }
+
+  /**
+   * Write a draft catalogue into the tenant config as excel-config
+   */
+  async approve(
+    tenantId: string,
+    author: string
+  ): Promise<CatalogueReviewResult> {
+    const catalogue = await this.get(tenantId);
+    if (!catalogue) {
+      return { status: "not-found" };
+    }
+    if (catalogue.status !== "draft") {
+      return { status: "not-draft" };
+    }
+
+    const tenantConfig = await this.tenantConfigService.getConfig(tenantId);
+    if (!tenantConfig) {
+      return { status: "tenant-not-found" };
+    }
+
+    const versionRecord = await this.tenantConfigService.saveConfig(
+      tenantId,
+      {
+        ...tenantConfig,
+        "excel-config": this.renderExcelConfig(catalogue),
+      },
+      author
+    );
+
+    const approved: SheetCatalogue = {
+      ...catalogue,
+      status: "approved",
+      approvedAt: versionRecord.createdAt,
+      approvedBy: author,
+      approvedVersion: versionRecord.version,
+    };
+    await this.save(approved);
+
+    return {
+      status: "approved",
+      catalogue: approved,
+      version: versionRecord.version,
+    };
+  }
+}
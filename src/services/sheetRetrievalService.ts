@@ -0,0 +1,223 @@
+import { KnowledgeSource } from "./knowledge";
+import { LLMService } from "./llm";
+import { SheetIndex, VectorMatch, VectorStore } from "./vectorStore";
+import { EMBEDDING_CONFIG } from "../config/llmConfig";
+import { LLMCompletionResponse, LLMProviderType } from "../types";
+import { chunkSheetRows, hashSheetTable } from "../utils/sheetChunks";
+
+export interface SheetRetrievalInput {
+  tenantId: string;
+  sheetNames: string[]; // Sheets to search, most relevant first
+  query: string;
+  topK: number; // Rows considered before the token budget is applied
+  maxTokens: number; // Estimated token budget for the retrieved rows
+}
+
+export interface SheetRetrievalResult {
+  excelData: string;
+  matches: VectorMatch[]; // Rows included in excelData, best first
+  searchedSheets: string[];
+  reindexedSheets: string[]; // Sheets embedded again during this request
+  errors: string[];
+  usage?: LLMCompletionResponse["usage"];
+  model?: string;
+  provider?: LLMProviderType;
+}
+
+// Same lifetime as the whole-sheet cache
+const INDEX_REFRESH_MS = 24 * 60 * 60 * 1000;
+
+function addUsage(
+  total: LLMCompletionResponse["usage"],
+  usage: LLMCompletionResponse["usage"]
+): LLMCompletionResponse["usage"] {
+  if (!usage) return total;
+  if (!total) return { ...usage };
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
+
+/**
+ * Row-level retrieval over a tenant's knowledge source: every sheet row is embedded once
+ * and only the rows most similar to the guest's message are put into the prompts.
+ */
+export class SheetRetrievalService {
+  private knowledgeSource: KnowledgeSource;
+  private vectorStore: VectorStore;
+  private llmService: LLMService;
+
+  constructor(
+    knowledgeSource: KnowledgeSource,
+    vectorStore: VectorStore,
+    llmService: LLMService
+  ) {
+    this.knowledgeSource = knowledgeSource;
+    this.vectorStore = vectorStore;
+    this.llmService = llmService;
+  }
+
+  private getEmbeddingModelId(): string {
+    return `${EMBEDDING_CONFIG.model}:${EMBEDDING_CONFIG.dimensions ?? "full"}`;
+  }
+
+  /**
+   * Make sure a sheet's index is fresh, embedding its rows only when the content or
+   * the embedding model changed. A stale index is kept when the sheet cannot be read.
+   * @returns Embedding usage, and whether the rows were embedded again
+   */
+  async refreshSheetIndex(
+    tenantId: string,
+    sheetName: string
+  ): Promise<{ reindexed: boolean; usage?: LLMCompletionResponse["usage"] }> {
+    const existing = await this.vectorStore.getSheetIndex(tenantId, sheetName);
+    const embeddingModel = this.getEmbeddingModelId();
+    const isCurrentModel = existing?.embeddingModel === embeddingModel;
+    if (
+      existing &&
+      isCurrentModel &&
+      Date.now() - existing.indexedAt < INDEX_REFRESH_MS
+    ) {
+      return { reindexed: false };
+    }
+
+    let table;
+    try {
+      table = await this.knowledgeSource.getSheetTable(sheetName);
+    } catch (error) {
+      if (existing && isCurrentModel) {
+        console.warn(
+          `Using stale index for ${tenantId}:${sheetName}, sheet could not be read:`,
+          error
+        );
+        return { reindexed: false };
+      }
+      throw error;
+    }
+
+    const contentHash = await hashSheetTable(table);
+    if (existing && isCurrentModel && existing.contentHash === contentHash) {
+      await this.vectorStore.saveSheetIndex(tenantId, sheetName, {
+        ...existing,
+        indexedAt: Date.now(),
+      });
+      return { reindexed: false };
+    }
+
+    const chunks = chunkSheetRows(table);
+    const embedded =
+      chunks.length > 0
+        ? await this.llmService.createEmbeddings(
+            chunks.map((chunk) => chunk.text),
+            EMBEDDING_CONFIG
+          )
+        : null;
+
+    const index: SheetIndex = {
+      contentHash,
+      embeddingModel,
+      indexedAt: Date.now(),
+      chunks: chunks.map((chunk, position) => ({
+        ...chunk,
+        embedding: embedded?.embeddings[position] ?? [],
+      })),
+    };
+    await this.vectorStore.saveSheetIndex(tenantId, sheetName, index);
+    console.log(
+      `Indexed ${chunks.length} rows of ${tenantId}:${sheetName} for retrieval`
+    );
+
+    return { reindexed: true, usage: embedded?.usage };
+  }
+
+  /**
+   * Find the rows most relevant to the query within the token budget
+   * @throws When none of the sheets could be indexed or the query could not be embedded
+   */
+  async retrieve(input: SheetRetrievalInput): Promise<SheetRetrievalResult> {
+    const errors: string[] = [];
+    const searchedSheets: string[] = [];
+    const reindexedSheets: string[] = [];
+    let usage: LLMCompletionResponse["usage"];
+
+    const refreshResults = await Promise.allSettled(
+      input.sheetNames.map((sheetName) =>
+        this.refreshSheetIndex(input.tenantId, sheetName)
+      )
+    );
+    refreshResults.forEach((result, position) => {
+      const sheetName = input.sheetNames[position];
+      if (result.status === "rejected") {
+        errors.push(
+          `Failed to index sheet "${sheetName}": ${
+            result.reason instanceof Error
+              ? result.reason.message
+              : String(result.reason)
+          }`
+        );
+        return;
+      }
+      searchedSheets.push(sheetName);
+      if (result.value.reindexed) reindexedSheets.push(sheetName);
+      usage = addUsage(usage, result.value.usage);
+    });
+
+    if (searchedSheets.length === 0) {
+      throw new Error(`No sheet could be indexed: ${errors.join("; ")}`);
+    }
+
+    const queryEmbedding = await this.llmService.createEmbeddings(
+      [input.query],
+      EMBEDDING_CONFIG
+    );
+    usage = addUsage(usage, queryEmbedding.usage);
+
+    const candidates = await this.vectorStore.query(
+      input.tenantId,
+      searchedSheets,
+      queryEmbedding.embeddings[0],
+      input.topK
+    );
+
+    // Best rows first; a row over the remaining budget is skipped for smaller ones
+    const matches: VectorMatch[] = [];
+    let remainingTokens = input.maxTokens;
+    candidates.forEach((match) => {
+      if (match.chunk.tokens > remainingTokens) return;
+      matches.push(match);
+      remainingTokens -= match.chunk.tokens;
+    });
+
+    return {
+      excelData: this.formatMatches(searchedSheets, matches),
+      matches,
+      searchedSheets,
+      reindexedSheets,
+      errors,
+      usage,
+      model: queryEmbedding.model,
+      provider: queryEmbedding.provider,
+    };
+  }
+
+  /**
+   * Group the rows by sheet, in sheet relevance order and then row order
+   */
+  private formatMatches(sheetNames: string[], matches: VectorMatch[]): string {
+    return sheetNames
+      .map((sheetName) => {
+        const rows = matches
+          .filter((match) => match.chunk.sheetName === sheetName)
+          .sort((a, b) => a.chunk.rowNumber - b.chunk.rowNumber)
+          .map(
+            (match) =>
+              `- ${match.chunk.text.slice(match.chunk.sheetName.length + 2)}`
+          );
+        return rows.length > 0 ? `## ${sheetName}\n${rows.join("\n")}` : "";
+      })
+      .filter(Boolean)
+      .join("\n\n");
+  }
+}
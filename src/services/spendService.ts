@@ -0,0 +1,248 @@
+import { Env, LLMCompletionResponse, LLMProviderType } from "../types";
+
+/**
+ * One LLM generation that contributed to a request
+ */
+export interface GenerationSpend {
+  task: string;
+  provider: LLMProviderType;
+  model: string;
+  usage: NonNullable<LLMCompletionResponse["usage"]>;
+  costUsd: number | null; // null when the model has no known price
+}
+
+export interface SpendTotals {
+  costUsd: number;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  unpricedGenerations: number; // Generations whose cost is missing from costUsd
+}
+
+export interface SessionSpend {
+  costUsd: number;
+  requests: number;
+}
+
+export interface DailySpendRecord extends SpendTotals {
+  tenantId: string;
+  date: string; // UTC day, YYYY-MM-DD
+  byModel: Record<string, SpendTotals>; // Keyed by "provider/model"
+  sessions: Record<string, SessionSpend>;
+  updatedAt: string;
+}
+
+export interface MonthlySpendRecord extends SpendTotals {
+  tenantId: string;
+  month: string; // UTC month, YYYY-MM
+  updatedAt: string;
+}
+
+// Keep spend records for about 13 months so a full year can be billed
+const SPEND_RECORD_TTL_SECONDS = 400 * 24 * 60 * 60;
+
+// Bound the record size for tenants with many conversations a day
+const MAX_TRACKED_SESSIONS = 500;
+
+function emptyTotals(): SpendTotals {
+  return {
+    costUsd: 0,
+    requests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    cachedTokens: 0,
+    unpricedGenerations: 0,
+  };
+}
+
+function addGeneration(totals: SpendTotals, generation: GenerationSpend): void {
+  totals.costUsd += generation.costUsd ?? 0;
+  totals.promptTokens += generation.usage.promptTokens;
+  totals.completionTokens += generation.usage.completionTokens;
+  totals.cachedTokens += generation.usage.cachedTokens || 0;
+  if (generation.costUsd === null) {
+    totals.unpricedGenerations++;
+  }
+}
+
+/**
+ * Format a date as the UTC day used in spend keys
+ */
+export function toSpendDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Format a date as the UTC month used in monthly spend keys
+ */
+export function toSpendMonth(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+export class SpendService {
+  private kv: KVNamespace;
+
+  constructor(env: Env) {
+    this.kv = env.TENAT_CONFIG;
+  }
+
+  // Stored next to tenant configs, under a prefix that can never be a tenant ID
+  private getSpendKey(tenantId: string, date: string): string {
+    return `spend:${tenantId}:${date}`;
+  }
+
+  // Month keys ("YYYY-MM") never collide with day keys ("YYYY-MM-DD")
+  private getMonthlySpendKey(tenantId: string, month: string): string {
+    return `spend:${tenantId}:${month}`;
+  }
+
+  /**
+   * Add the generations of one request to the tenant's spend for today and this month.
+   * KV has no atomic increment, so concurrent requests of one tenant may
+   * occasionally overwrite each other's update; the figures are for reporting,
+   * the providers' invoices remain authoritative.
+   * @param tenantId The tenant ID
+   * @param sessionId The session the request belongs to
+   * @param generations Every LLM generation made while serving the request
+   */
+  async recordRequest(
+    tenantId: string,
+    sessionId: string,
+    generations: GenerationSpend[]
+  ): Promise<void> {
+    const now = new Date();
+    await Promise.all([
+      this.recordDailyRequest(tenantId, sessionId, generations, now),
+      this.recordMonthlyRequest(tenantId, generations, now),
+    ]);
+  }
+
+  private async recordDailyRequest(
+    tenantId: string,
+    sessionId: string,
+    generations: GenerationSpend[],
+    now: Date
+  ): Promise<void> {
+    const date = toSpendDate(now);
+    const key = this.getSpendKey(tenantId, date);
+    const record: DailySpendRecord = (await this.kv.get<DailySpendRecord>(
+      key,
+      "json"
+    )) || {
+      tenantId,
+      date,
+      ...emptyTotals(),
+      byModel: {},
+      sessions: {},
+      updatedAt: "",
+    };
+
+    let requestCost = 0;
+    generations.forEach((generation) => {
+      const modelKey = `${generation.provider}/${generation.model}`;
+      const modelTotals = (record.byModel[modelKey] =
+        record.byModel[modelKey] || emptyTotals());
+      addGeneration(record, generation);
+      addGeneration(modelTotals, generation);
+      modelTotals.requests++;
+      requestCost += generation.costUsd ?? 0;
+    });
+    record.requests++;
+
+    const session = (record.sessions[sessionId] = record.sessions[
+      sessionId
+    ] || { costUsd: 0, requests: 0 });
+    session.costUsd += requestCost;
+    session.requests++;
+    record.sessions = this.keepCostliestSessions(record.sessions);
+    record.updatedAt = now.toISOString();
+
+    await this.kv.put(key, JSON.stringify(record), {
+      expirationTtl: SPEND_RECORD_TTL_SECONDS,
+    });
+  }
+
+  // Month-to-date totals, so budget checks read one record instead of a month of days
+  private async recordMonthlyRequest(
+    tenantId: string,
+    generations: GenerationSpend[],
+    now: Date
+  ): Promise<void> {
+    const month = toSpendMonth(now);
+    const key = this.getMonthlySpendKey(tenantId, month);
+    const record: MonthlySpendRecord = (await this.kv.get<MonthlySpendRecord>(
+      key,
+      "json"
+    )) || { tenantId, month, ...emptyTotals(), updatedAt: "" };
+
+    generations.forEach((generation) => addGeneration(record, generation));
+    record.requests++;
+    record.updatedAt = now.toISOString();
+
+    await this.kv.put(key, JSON.stringify(record), {
+      expirationTtl: SPEND_RECORD_TTL_SECONDS,
+    });
+  }
+
+  /**
+   * Read today's and this month's spend of a tenant
+   * @param tenantId The tenant ID
+   * @returns Totals for the current UTC day and month, zero when nothing was spent yet
+   */
+  async getCurrentTotals(
+    tenantId: string
+  ): Promise<{ daily: SpendTotals; monthly: SpendTotals }> {
+    const now = new Date();
+    const [daily, monthly] = await Promise.all([
+      this.kv.get<DailySpendRecord>(
+        this.getSpendKey(tenantId, toSpendDate(now)),
+        "json"
+      ),
+      this.kv.get<MonthlySpendRecord>(
+        this.getMonthlySpendKey(tenantId, toSpendMonth(now)),
+        "json"
+      ),
+    ]);
+
+    return {
+      daily: daily || emptyTotals(),
+      monthly: monthly || emptyTotals(),
+    };
+  }
+
+  /**
+   * Read the daily spend records of a tenant
+   * @param tenantId The tenant ID
+   * @param dates UTC days to read, YYYY-MM-DD
+   * @returns One record per day that had any spend, in the order of `dates`
+   */
+  async getDailySpend(
+    tenantId: string,
+    dates: string[]
+  ): Promise<DailySpendRecord[]> {
+    const records = await Promise.all(
+      dates.map((date) =>
+        this.kv.get<DailySpendRecord>(this.getSpendKey(tenantId, date), "json")
+      )
+    );
+    return records.filter(
+      (record): record is DailySpendRecord => record !== null
+    );
+  }
+
+  private keepCostliestSessions(
+    sessions: Record<string, SessionSpend>
+  ): Record<string, SessionSpend> {
+    const entries = Object.entries(sessions);
+    if (entries.length <= MAX_TRACKED_SESSIONS) {
+      return sessions;
+    }
+
+    return Object.fromEntries(
+      entries
+        .sort(([, a], [, b]) => b.costUsd - a.costUsd)
+        .slice(0, MAX_TRACKED_SESSIONS)
+    );
+  }
+}
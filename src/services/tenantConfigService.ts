@@ -0,0 +1,238 @@
+import { Env } from "../types";
+import { TenantConfig } from "../tasks/dataCollectionTask";
+import { ConfigDiff, diffConfigs } from "../utils/configDiff";
+import { encryptTenantSecrets, redactConfigDiff } from "../utils/tenantSecrets";
+
+export interface TenantConfigVersion {
+  tenantId: string;
+  version: number;
+  author: string;
+  createdAt: string;
+  config: TenantConfig;
+  diff: ConfigDiff;
+  rolledBackFrom?: number;
+}
+
+export interface TenantConfigVersionSummary {
+  version: number;
+  author: string;
+  createdAt: string;
+  changedFields: string[];
+  rolledBackFrom?: number;
+}
+
+interface TenantConfigMetadata {
+  version: number;
+}
+
+export class TenantConfigService {
+  private kv: KVNamespace;
+  private secretsMasterKey?: string;
+
+  constructor(env: Env) {
+    this.kv = env.TENAT_CONFIG;
+    this.secretsMasterKey = env.TENANT_SECRETS_MASTER_KEY;
+  }
+
+  /**
+   * Version records live next to the configs, under a prefix that can never be a tenant ID.
+   * The version is zero-padded so KV's lexicographic listing returns versions in order.
+   */
+  private getVersionKeyPrefix(tenantId: string): string {
+    return `config-version:${tenantId}:`;
+  }
+
+  // Latest version number, kept separately so history survives deleting the config
+  private getHeadKey(tenantId: string): string {
+    return `config-head:${tenantId}`;
+  }
+
+  private getVersionKey(tenantId: string, version: number): string {
+    return `${this.getVersionKeyPrefix(tenantId)}${String(version).padStart(
+      8,
+      "0"
+    )}`;
+  }
+
+  /**
+   * Read a tenant configuration
+   * @param tenantId The tenant ID
+   * @returns Promise<TenantConfig | null> - null when the tenant does not exist
+   */
+  async getConfig(tenantId: string): Promise<TenantConfig | null> {
+    const { config } = await this.getConfigWithVersion(tenantId);
+    return config;
+  }
+
+  /**
+   * Read a tenant configuration together with the version that produced it
+   * @param tenantId The tenant ID
+   * @returns version is null for configs written before versioning existed
+   */
+  async getConfigWithVersion(
+    tenantId: string
+  ): Promise<{ config: TenantConfig | null; version: number | null }> {
+    const { value, metadata } =
+      await this.kv.getWithMetadata<TenantConfigMetadata>(tenantId);
+    if (!value) {
+      return { config: null, version: null };
+    }
+
+    return {
+      config: JSON.parse(value) as TenantConfig,
+      version: metadata?.version ?? null,
+    };
+  }
+
+  /**
+   * List tenant IDs, one KV page at a time
+   * @param cursor Cursor returned by the previous page
+   */
+  async listTenants(
+    cursor?: string
+  ): Promise<{ tenantIds: string[]; cursor?: string }> {
+    const result = await this.kv.list({ cursor });
+
+    return {
+      // Skip internal records such as config versions
+      tenantIds: result.keys
+        .map((key) => key.name)
+        .filter((name) => !name.includes(":")),
+      cursor: result.list_complete ? undefined : result.cursor,
+    };
+  }
+
+  /**
+   * Write a tenant configuration as a new immutable version.
+   * Plaintext API keys are encrypted before anything reaches KV.
+   * @param tenantId The tenant ID
+   * @param config The full configuration to store
+   * @param author Who made the change
+   * @param rolledBackFrom Set when the write restores an earlier version
+   * @returns Promise<TenantConfigVersion> - The version record that was written
+   */
+  async saveConfig(
+    tenantId: string,
+    config: TenantConfig,
+    author: string,
+    rolledBackFrom?: number
+  ): Promise<TenantConfigVersion> {
+    const encryptedConfig = await encryptTenantSecrets(
+      config,
+      this.secretsMasterKey
+    );
+    const [current, head] = await Promise.all([
+      this.getConfigWithVersion(tenantId),
+      this.kv.get(this.getHeadKey(tenantId)),
+    ]);
+    let previousVersion = head ? parseInt(head) : 0;
+
+    // Preserve a config written before versioning so it can be rolled back to
+    if (current.config && previousVersion === 0) {
+      const legacyConfig = await encryptTenantSecrets(
+        current.config,
+        this.secretsMasterKey
+      );
+      await this.writeVersion({
+        tenantId,
+        version: 1,
+        author: "system",
+        createdAt: new Date().toISOString(),
+        config: legacyConfig,
+        diff: redactConfigDiff(diffConfigs(null, legacyConfig)),
+      });
+      previousVersion = 1;
+    }
+
+    // KV has no compare-and-swap: concurrent writers can race for the same number,
+    // in which case the last write wins for both the version record and the config
+    const versionRecord: TenantConfigVersion = {
+      tenantId,
+      version: previousVersion + 1,
+      author,
+      createdAt: new Date().toISOString(),
+      config: encryptedConfig,
+      // Diffs only record that a key changed, never its value
+      diff: redactConfigDiff(diffConfigs(current.config, encryptedConfig)),
+      ...(rolledBackFrom !== undefined && { rolledBackFrom }),
+    };
+
+    await this.writeVersion(versionRecord);
+    await this.kv.put(this.getHeadKey(tenantId), String(versionRecord.version));
+    await this.kv.put(tenantId, JSON.stringify(encryptedConfig), {
+      metadata: { version: versionRecord.version } as TenantConfigMetadata,
+    });
+
+    return versionRecord;
+  }
+
+  private async writeVersion(record: TenantConfigVersion): Promise<void> {
+    const summary: TenantConfigVersionSummary = {
+      version: record.version,
+      author: record.author,
+      createdAt: record.createdAt,
+      changedFields: Object.keys(record.diff),
+      ...(record.rolledBackFrom !== undefined && {
+        rolledBackFrom: record.rolledBackFrom,
+      }),
+    };
+
+    await this.kv.put(
+      this.getVersionKey(record.tenantId, record.version),
+      JSON.stringify(record),
+      { metadata: summary }
+    );
+  }
+
+  /**
+   * List version summaries for a tenant, oldest first, one KV page at a time
+   * @param tenantId The tenant ID
+   * @param cursor Cursor returned by the previous page
+   */
+  async listVersions(
+    tenantId: string,
+    cursor?: string
+  ): Promise<{ versions: TenantConfigVersionSummary[]; cursor?: string }> {
+    const result = await this.kv.list<TenantConfigVersionSummary>({
+      prefix: this.getVersionKeyPrefix(tenantId),
+      cursor,
+    });
+
+    return {
+      versions: result.keys
+        .map((key) => key.metadata)
+        .filter((summary): summary is TenantConfigVersionSummary => !!summary),
+      cursor: result.list_complete ? undefined : result.cursor,
+    };
+  }
+
+  async getVersion(
+    tenantId: string,
+    version: number
+  ): Promise<TenantConfigVersion | null> {
+    const record = await this.kv.get(this.getVersionKey(tenantId, version));
+    return record ? (JSON.parse(record) as TenantConfigVersion) : null;
+  }
+
+  /**
+   * Restore an earlier version by writing its config as a new version
+   * @returns Promise<TenantConfigVersion | null> - null when the version does not exist
+   */
+  async rollback(
+    tenantId: string,
+    version: number,
+    author: string
+  ): Promise<TenantConfigVersion | null> {
+    const target = await this.getVersion(tenantId, version);
+    if (!target) return null;
+
+    return this.saveConfig(tenantId, target.config, author, version);
+  }
+
+  /**
+   * Delete the active config; version history is kept so the tenant can be restored
+   */
+  async deleteConfig(tenantId: string): Promise<void> {
+    await this.kv.delete(tenantId);
+  }
+}
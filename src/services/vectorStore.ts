@@ -0,0 +1,177 @@
+import { Env } from "../types";
+import { SheetChunk, cosineSimilarity } from "../utils/sheetChunks";
+
+export interface EmbeddedChunk extends SheetChunk {
+  embedding: number[];
+}
+
+export interface SheetIndex {
+  contentHash: string; // Hash of the sheet content the chunks were built from
+  embeddingModel: string; // "{model}:{dimensions}", vectors of another model are not comparable
+  indexedAt: number;
+  chunks: EmbeddedChunk[];
+}
+
+export interface VectorMatch {
+  chunk: SheetChunk;
+  score: number; // Cosine similarity to the query
+}
+
+/**
+ * Per-tenant storage of embedded sheet rows, one index per sheet
+ */
+export interface VectorStore {
+  getSheetIndex(
+    tenantId: string,
+    sheetName: string
+  ): Promise<SheetIndex | null>;
+  saveSheetIndex(
+    tenantId: string,
+    sheetName: string,
+    index: SheetIndex
+  ): Promise<void>;
+  deleteSheetIndex(tenantId: string, sheetName: string): Promise<void>;
+  /**
+   * Rows of the given sheets most similar to the query vector, best first
+   */
+  query(
+    tenantId: string,
+    sheetNames: string[],
+    vector: number[],
+    topK: number
+  ): Promise<VectorMatch[]>;
+}
+
+/**
+ * Score every row of the given indexes against the query vector
+ */
+function rankChunks(
+  indexes: Array<SheetIndex | null>,
+  vector: number[],
+  topK: number
+): VectorMatch[] {
+  return indexes
+    .flatMap((index) => index?.chunks ?? [])
+    .map(({ embedding, ...chunk }) => ({
+      chunk,
+      score: cosineSimilarity(vector, embedding),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+/**
+ * Sheet indexes stored as JSON in the knowledge cache. Sheets are small enough
+ * (hundreds of rows) for an exact search over all rows of the matched sheets.
+ */
+export class KVVectorStore implements VectorStore {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  private getIndexKey(tenantId: string, sheetName: string): string {
+    return `vectors:${tenantId}:${sheetName}`;
+  }
+
+  async getSheetIndex(
+    tenantId: string,
+    sheetName: string
+  ): Promise<SheetIndex | null> {
+    return this.kv.get<SheetIndex>(
+      this.getIndexKey(tenantId, sheetName),
+      "json"
+    );
+  }
+
+  async saveSheetIndex(
+    tenantId: string,
+    sheetName: string,
+    index: SheetIndex
+  ): Promise<void> {
+    // Four decimals keep the ranking and roughly halve the stored size
+    const compact: SheetIndex = {
+      ...index,
+      chunks: index.chunks.map((chunk) => ({
+        ...chunk,
+        embedding: chunk.embedding.map(
+          (value) => Math.round(value * 10000) / 10000
+        ),
+      })),
+    };
+    await this.kv.put(
+      this.getIndexKey(tenantId, sheetName),
+      JSON.stringify(compact)
+    );
+  }
+
+  async deleteSheetIndex(tenantId: string, sheetName: string): Promise<void> {
+    await this.kv.delete(this.getIndexKey(tenantId, sheetName));
+  }
+
+  async query(
+    tenantId: string,
+    sheetNames: string[],
+    vector: number[],
+    topK: number
+  ): Promise<VectorMatch[]> {
+    const indexes = await Promise.all(
+      sheetNames.map((sheetName) => this.getSheetIndex(tenantId, sheetName))
+    );
+    return rankChunks(indexes, vector, topK);
+  }
+}
+
+// Shared by all requests in the isolate, lost on restart
+const memoryIndexes = new Map<string, SheetIndex>();
+
+/**
+ * Keeps sheet indexes in isolate memory, for local testing without KV
+ */
+export class InMemoryVectorStore implements VectorStore {
+  private getIndexKey(tenantId: string, sheetName: string): string {
+    return `${tenantId}:${sheetName}`;
+  }
+
+  async getSheetIndex(
+    tenantId: string,
+    sheetName: string
+  ): Promise<SheetIndex | null> {
+    return memoryIndexes.get(this.getIndexKey(tenantId, sheetName)) ?? null;
+  }
+
+  async saveSheetIndex(
+    tenantId: string,
+    sheetName: string,
+    index: SheetIndex
+  ): Promise<void> {
+    memoryIndexes.set(this.getIndexKey(tenantId, sheetName), index);
+  }
+
+  async deleteSheetIndex(tenantId: string, sheetName: string): Promise<void> {
+    memoryIndexes.delete(this.getIndexKey(tenantId, sheetName));
+  }
+
+  async query(
+    tenantId: string,
+    sheetNames: string[],
+    vector: number[],
+    topK: number
+  ): Promise<VectorMatch[]> {
+    const indexes = sheetNames.map(
+      (sheetName) =>
+        memoryIndexes.get(this.getIndexKey(tenantId, sheetName)) ?? null
+    );
+    return rankChunks(indexes, vector, topK);
+  }
+}
+
+/**
+ * Vector store selected by VECTOR_STORE: "memory" for local testing, KV otherwise
+ */
+export function createVectorStore(env: Env): VectorStore {
+  return env.VECTOR_STORE === "memory"
+    ? new InMemoryVectorStore()
+    : new KVVectorStore(env.TENAT_KNOWLEDGE_CACHE);
+}
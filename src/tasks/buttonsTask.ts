@@ -1,9 +1,20 @@
 import { LangfuseService } from "../services/langfuse";
-import { LLMService } from "../services/llm";
-import { ChatMessage, LangfusePrompt, SessionMemory } from "../types";
+import {
+  LLMService,
+  LLMFallbackError,
+  StructuredCompletionResult,
+} from "../services/llm";
+import {
+  ChatMessage,
+  LangfusePrompt,
+  LLMToolDefinition,
+  SessionMemory,
+  LLMCompletionResponse,
+  LLMProviderType,
+} from "../types";
 import { TenantConfig } from "./dataCollectionTask";
 import { LangfuseTraceClient } from "langfuse";
-import { parseLLMResult } from "../utils/llmResultParser";
+import { getCompletionContent } from "../utils/llmResultParser";
 import { TaskLLMConfig } from "../config/llmConfig";
 import { validateMessagesForAnthropic } from "../utils/messageValidator";
 import { formatConversationHistory } from "../utils/format";
@@ -31,14 +42,58 @@ export interface ButtonsTaskOutput {
     isUpsell: boolean;
   }>;
   language: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: LLMCompletionResponse["usage"];
+  model?: string; // Model that produced the output, after any fallback
+  provider?: LLMProviderType;
   traceId?: string;
 }
 
+interface ButtonsResponse {
+  result: Array<{ title: string; payload: string; isUpsell: boolean }>;
+  language: string;
+}
+
+const BUTTONS_TOOL: LLMToolDefinition = {
+  name: "create_buttons",
+  description:
+    "Return quick-reply buttons for the guest's next message and the language of the conversation",
+  parameters: {
+    type: "object",
+    properties: {
+      result: {
+        type: "array",
+        description: "Buttons to show to the guest",
+        items: {
+          type: "object",
+          properties: {
+            title: {
+              type: "string",
+              description: "Short label shown on the button",
+              minLength: 1,
+            },
+            payload: {
+              type: "string",
+              description: "Message sent on the guest's behalf when clicked",
+              minLength: 1,
+            },
+            isUpsell: {
+              type: "boolean",
+              description: "Whether the button promotes a paid service",
+            },
+          },
+          required: ["title", "payload", "isUpsell"],
+        },
+      },
+      language: {
+        type: "string",
+        description: "ISO 639-1 code of the language the guest writes in",
+        minLength: 2,
+      },
+    },
+    required: ["result", "language"],
+  },
+};
+
 export class ButtonsTask {
   private langfuseService: LangfuseService;
   private llmService: LLMService;
@@ -48,10 +103,10 @@ export class ButtonsTask {
     this.llmService = llmService;
   }
 
-  private parseButtons(
-    content: string,
-    generation?: any
-  ): {
+  /**
+   * Map validated output to buttons; output that failed validation yields no buttons
+   */
+  private parseButtons(buttonsData: ButtonsResponse | null): {
     buttons: Array<{
       type: "postback";
       title: string;
@@ -60,55 +115,21 @@ export class ButtonsTask {
     }>;
     language: string;
   } {
-    interface ButtonsResponse {
-      result?: Array<{ title: string; payload: string }>;
-      language?: string;
-    }
-
-    const fallback: ButtonsResponse = {
-      result: [],
-      language: "en",
-    };
-
-    const buttonsData = parseLLMResult<ButtonsResponse>(
-      content,
-      fallback,
-      (error, content) => {
-        // Log parsing error to Langfuse generation if available
-        if (generation) {
-          try {
-            generation.update({
-              metadata: {
-                parsingError: {
-                  message: error.message,
-                  task: "ButtonsTask",
-                  originalContent: content.substring(0, 500), // Truncate for logging
-                  timestamp: new Date().toISOString(),
-                },
-              },
-            });
-          } catch (logError) {
-            console.warn("Failed to log parsing error to Langfuse:", logError);
-          }
-        }
-      }
-    );
-
-    if (buttonsData.result && Array.isArray(buttonsData.result)) {
+    if (!buttonsData) {
       return {
-        buttons: buttonsData.result.map((item: any) => ({
-          type: "postback" as const,
-          title: item.title,
-          payload: item.payload,
-          isUpsell: item.isUpsell,
-        })),
-        language: buttonsData.language || "en",
+        buttons: [],
+        language: "en",
       };
     }
 
     return {
-      buttons: [],
-      language: "en",
+      buttons: buttonsData.result.map((item) => ({
+        type: "postback" as const,
+        title: item.title,
+        payload: item.payload,
+        isUpsell: item.isUpsell,
+      })),
+      language: buttonsData.language,
     };
   }
 
@@ -168,15 +189,16 @@ export class ButtonsTask {
         )
       : null;
 
-    // Call LLM service with new architecture
-    let response;
+    // Call LLM service, falling back along the task's model chain and
+    // re-prompting once if the output does not match the schema
+    let structured: StructuredCompletionResult<ButtonsResponse>;
     try {
-      response = await this.llmService.createCompletion(validatedMessages, {
-        model: llmConfig.model,
-        provider: llmConfig.provider,
-        temperature: llmConfig.temperature,
-        maxTokens: llmConfig.maxTokens,
-      });
+      structured =
+        await this.llmService.createStructuredCompletion<ButtonsResponse>(
+          validatedMessages,
+          llmConfig,
+          BUTTONS_TOOL
+        );
     } catch (error) {
       // Log LLM failure to Langfuse generation
       if (generation) {
@@ -187,6 +209,7 @@ export class ButtonsTask {
               task: "ButtonsTask",
               model: llmConfig.model,
               provider: llmConfig.provider,
+              attempts: error instanceof LLMFallbackError ? error.attempts : [],
               timestamp: new Date().toISOString(),
             },
           },
@@ -195,12 +218,17 @@ export class ButtonsTask {
       throw error;
     }
 
-    const content = response.content;
+    const response = structured.response;
+    if (generation) {
+      this.langfuseService.scoreStructuredOutput(generation, structured);
+    }
 
-    // Parse buttons from the response content
-    const buttonsData = this.parseButtons(content, generation);
+    const content = getCompletionContent(response);
+    const buttonsData = this.parseButtons(structured.output);
 
     const result = {
+      model: response.model,
+      provider: response.provider,
       content,
       buttons: buttonsData.buttons,
       language: buttonsData.language,
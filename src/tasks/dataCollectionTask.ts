@@ -1,11 +1,58 @@
 import { LangfuseService } from "../services/langfuse";
 import { MemoryService } from "../services/memory";
+import { TenantConfigService } from "../services/tenantConfigService";
 import { LangfusePrompt, SessionMemory } from "../types";
 import { LangfuseTraceClient } from "langfuse";
 import { TaskLLMConfig, LLM_TASK_CONFIGS } from "../config/llmConfig";
+import { redactTenantConfig } from "../utils/tenantSecrets";
+
+export interface BudgetLimit {
+  soft?: number; // Past this, tasks switch to cheaper models
+  hard?: number; // Past this, guests get a fixed reply without any LLM call
+}
+
+export interface BudgetPeriodLimits {
+  costUsd?: BudgetLimit;
+  tokens?: BudgetLimit; // Prompt plus completion tokens
+}
+
+export interface TenantBudget {
+  daily?: BudgetPeriodLimits; // UTC day
+  monthly?: BudgetPeriodLimits; // UTC calendar month
+  alertEmailTo?: string[]; // Defaults to emailTo
+  limitReachedMessage?: string; // Reply sent once a hard limit is reached
+}
+
+export interface TenantSessionSettings {
+  historyWindowHours?: number; // Older messages are left out of the context, default 4
+  retentionHours?: number; // TTL of stored chat and email sessions, default 168 (7 days)
+  contextWindowLength?: number; // Messages kept in context, default CONTEXT_WINDOW_LENGTH
+}
+
+export interface TenantHandoffSettings {
+  autoDetect?: boolean; // Hand conversations to staff when the guest asks for a person
+  handoffMessage?: string; // Reply sent when the conversation is handed to staff
+  queuedMessage?: string; // Reply to guest messages waiting for staff
+  notifyEmailTo?: string[]; // Told about new handoffs, defaults to emailTo
+}
+
+export interface TenantRetrievalSettings {
+  enabled?: boolean; // Put only the sheet rows relevant to the message into prompts
+  topK?: number; // Most similar rows considered, default 20
+  maxTokens?: number; // Estimated token budget for the retrieved rows, default 2000
+}
+
+export type TenantKnowledgeSource =
+  | { type: "google-sheets" } // Reads spreadsheetId
+  | { type: "upload" } // CSV and markdown documents uploaded through the admin API
+  | {
+      type: "http-json";
+      url: string; // "{sheet}" is replaced with the sheet name, otherwise sent as ?sheet=
+      timeoutMs?: number; // Default 10000
+    };
 
 export interface TenantConfig {
-  spreadsheetId: string;
+  spreadsheetId?: string; // Required for the google-sheets knowledge source
   "general-prompt-config": string;
   "buttons-prompt-config": string;
   "email-prompt-config": string;
@@ -16,8 +63,24 @@ export interface TenantConfig {
   "google-ai-api-key"?: string;
   "anthropic-api-key"?: string;
   "groq-api-key"?: string;
+  // Bearer token for the http-json knowledge source
+  "knowledge-source-api-key"?: string;
+  // Bearer token the knowledge webhook accepts for this tenant
+  "knowledge-webhook-secret"?: string;
+  // Bearer token reception uses for this tenant's staff endpoints
+  "staff-api-key"?: string;
   // Email configuration
   emailTo?: string[];
+  // Usage budgets, enforced before each chat request
+  budget?: TenantBudget;
+  // Session memory overrides
+  session?: TenantSessionSettings;
+  // Human handoff to hotel staff
+  handoff?: TenantHandoffSettings;
+  // Row-level retrieval over the spreadsheet
+  retrieval?: TenantRetrievalSettings;
+  // Where the hotel information comes from, default google-sheets
+  knowledgeSource?: TenantKnowledgeSource;
 }
 
 export interface DataCollectionResult {
@@ -35,41 +98,43 @@ export interface DataCollectionResult {
   };
   sessionHistory: SessionMemory;
   tenantConfig: TenantConfig | null;
+  tenantConfigVersion: number | null;
 }
 
 export class DataCollectionTask {
   private langfuseService: LangfuseService;
   private memoryService: MemoryService;
-  private tenantConfigKV: KVNamespace;
+  private tenantConfigService: TenantConfigService;
 
   constructor(
     langfuseService: LangfuseService,
     memoryService: MemoryService,
-    tenantConfigKV: KVNamespace
+    tenantConfigService: TenantConfigService
   ) {
     this.langfuseService = langfuseService;
     this.memoryService = memoryService;
-    this.tenantConfigKV = tenantConfigKV;
+    this.tenantConfigService = tenantConfigService;
   }
 
   /**
    * Fetch tenant configuration from KV store
    * @param tenantId The tenant ID to fetch configuration for
-   * @returns Promise<TenantConfig | null>
+   * @returns Promise with the config and the version that served it (both null when missing)
    */
   private async fetchTenantConfig(
     tenantId: string
-  ): Promise<TenantConfig | null> {
+  ): Promise<{ config: TenantConfig | null; version: number | null }> {
     try {
-      const configString = await this.tenantConfigKV.get(tenantId);
-      if (!configString) {
+      const result = await this.tenantConfigService.getConfigWithVersion(
+        tenantId
+      );
+      if (!result.config) {
         console.warn(`No tenant config found for tenantId: ${tenantId}`);
-        return null;
       }
-      return JSON.parse(configString) as TenantConfig;
+      return result;
     } catch (error) {
       console.error(`Error fetching tenant config for ${tenantId}:`, error);
-      return null;
+      return { config: null, version: null };
     }
   }
 
@@ -108,6 +173,9 @@ export class DataCollectionTask {
         provider: parsedConfig.provider,
         temperature: parsedConfig.temperature ?? defaultConfig.temperature,
         maxTokens: parsedConfig.maxTokens ?? defaultConfig.maxTokens,
+        timeoutMs: parsedConfig.timeoutMs ?? defaultConfig.timeoutMs,
+        // Tool support depends on the model, so it is never inherited from the defaults
+        toolCalling: parsedConfig.toolCalling,
         alternative: parsedConfig.alternative ?? defaultConfig.alternative,
       };
     } catch (error) {
@@ -142,7 +210,8 @@ export class DataCollectionTask {
         : null;
 
       // Fetch tenant configuration first
-      const tenantConfig = await this.fetchTenantConfig(tenantId);
+      const { config: tenantConfig, version: tenantConfigVersion } =
+        await this.fetchTenantConfig(tenantId);
 
       // Helper function to measure promise execution time
       const measurePromise = async <T>(
@@ -174,7 +243,9 @@ export class DataCollectionTask {
         measurePromise(this.langfuseService.getPrompt("email"), "email-prompt"),
         measurePromise(this.langfuseService.getPrompt("excel"), "excel-prompt"),
         measurePromise(
-          this.memoryService.getSessionMemory(tenantId, sessionId),
+          this.memoryService
+            .forTenant(tenantConfig)
+            .getSessionMemory(tenantId, sessionId),
           "session-history"
         ),
       ]);
@@ -241,12 +312,13 @@ export class DataCollectionTask {
                 updatedAt: new Date().toISOString(),
               },
         tenantConfig,
+        tenantConfigVersion,
       };
 
       // End span with timing metadata
       if (span) {
         span.end({
-          output: result,
+          output: { ...result, tenantConfig: redactTenantConfig(tenantConfig) },
           metadata: timingMetadata,
         });
       }
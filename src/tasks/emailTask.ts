@@ -1,13 +1,26 @@
 import { LangfuseService } from "../services/langfuse";
-import { LLMService } from "../services/llm";
+import {
+  LLMService,
+  LLMFallbackError,
+  StructuredCompletionResult,
+} from "../services/llm";
 import { EmailService } from "../services/emailService";
 import { MemoryService } from "../services/memory";
-import { ChatMessage, SessionMemory, LangfusePrompt } from "../types";
+import {
+  ChatMessage,
+  SessionMemory,
+  GuestProfile,
+  LangfusePrompt,
+  LLMToolDefinition,
+  LLMCompletionResponse,
+  LLMProviderType,
+} from "../types";
 import { TenantConfig } from "./dataCollectionTask";
 import { LangfuseTraceClient } from "langfuse";
-import { parseLLMResult } from "../utils/llmResultParser";
+import { getCompletionContent } from "../utils/llmResultParser";
 import { TaskLLMConfig } from "../config/llmConfig";
 import { validateMessagesForAnthropic } from "../utils/messageValidator";
+import { formatGuestProfile } from "../utils/format";
 import { convertToDetailedUsage, logUsageDetails } from "../utils/usageTracker";
 
 export interface EmailTaskInput {
@@ -16,6 +29,7 @@ export interface EmailTaskInput {
   emailToolPrompt: LangfusePrompt | null;
   tenantConfig: TenantConfig | null;
   // Remove sessionHistory from input since we'll manage our own
+  guestProfile?: GuestProfile; // Known guest details, pre-filled into the email
   sessionId: string;
   tenantId?: string;
   llmConfig: TaskLLMConfig;
@@ -29,14 +43,54 @@ export interface EmailTaskOutput {
   shouldSendEmail: boolean;
   responseText: string;
   emailSent: boolean;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: LLMCompletionResponse["usage"];
+  model?: string; // Model that produced the output, after any fallback
+  provider?: LLMProviderType;
   traceId?: string;
 }
 
+interface EmailResponse {
+  emailText: string;
+  duringEmailClarification: boolean;
+  shouldSendEmail: boolean;
+  responseText: string;
+}
+
+const EMAIL_TOOL: LLMToolDefinition = {
+  name: "handle_email_request",
+  description:
+    "Decide whether the guest's request should be emailed to hotel staff and reply to the guest",
+  parameters: {
+    type: "object",
+    properties: {
+      emailText: {
+        type: "string",
+        description:
+          "Email body for hotel staff, empty when no email is needed",
+      },
+      duringEmailClarification: {
+        type: "boolean",
+        description:
+          "Whether details are still being collected from the guest before sending",
+      },
+      shouldSendEmail: {
+        type: "boolean",
+        description: "Whether the email should be sent now",
+      },
+      responseText: {
+        type: "string",
+        description: "Message shown to the guest",
+      },
+    },
+    required: [
+      "emailText",
+      "duringEmailClarification",
+      "shouldSendEmail",
+      "responseText",
+    ],
+  },
+};
+
 export class EmailTask {
   private langfuseService: LangfuseService;
   private llmService: LLMService;
@@ -73,59 +127,18 @@ export class EmailTask {
     return emailSessionMemory;
   }
 
-  private parseEmailResponse(
-    content: string,
-    generation?: any
-  ): {
-    emailText: string;
-    duringEmailClarification: boolean;
-    shouldSendEmail: boolean;
-    responseText: string;
-  } {
-    interface EmailResponse {
-      emailText?: string;
-      duringEmailClarification?: boolean;
-      shouldSendEmail?: boolean;
-      responseText?: string;
-    }
-
-    const fallback: EmailResponse = {
-      emailText: "",
-      duringEmailClarification: false,
-      shouldSendEmail: false,
-      responseText: "",
-    };
-
-    const parsedContent = parseLLMResult<EmailResponse>(
-      content,
-      fallback,
-      (error, content) => {
-        // Log parsing error to Langfuse generation if available
-        if (generation) {
-          try {
-            generation.update({
-              metadata: {
-                parsingError: {
-                  message: error.message,
-                  task: "EmailTask",
-                  originalContent: content.substring(0, 500), // Truncate for logging
-                  timestamp: new Date().toISOString(),
-                },
-              },
-            });
-          } catch (logError) {
-            console.warn("Failed to log parsing error to Langfuse:", logError);
-          }
-        }
+  /**
+   * Output that failed validation never sends an email
+   */
+  private parseEmailResponse(emailData: EmailResponse | null): EmailResponse {
+    return (
+      emailData || {
+        emailText: "",
+        duringEmailClarification: false,
+        shouldSendEmail: false,
+        responseText: "",
       }
     );
-
-    return {
-      emailText: parsedContent.emailText || "",
-      duringEmailClarification: parsedContent.duringEmailClarification || false,
-      shouldSendEmail: parsedContent.shouldSendEmail || false,
-      responseText: parsedContent.responseText || "",
-    };
   }
 
   async execute(input: EmailTaskInput): Promise<EmailTaskOutput> {
@@ -158,6 +171,11 @@ export class EmailTask {
         content: "Today is: " + new Date().toISOString(),
         timestamp: Date.now(),
       },
+      {
+        role: "system",
+        content: formatGuestProfile(input.guestProfile),
+        timestamp: Date.now(),
+      },
       ...emailSessionHistory.messages,
       {
         role: "user",
@@ -182,58 +200,49 @@ export class EmailTask {
         )
       : null;
 
-    // Call LLM service with new architecture
-    let response;
+    // Call LLM service, falling back along the task's model chain and
+    // re-prompting once if the output does not match the schema
+    let structured: StructuredCompletionResult<EmailResponse>;
     try {
-      response = await this.llmService.createCompletion(validatedMessages, {
-        model: llmConfig.model,
-        provider: llmConfig.provider,
-        temperature: llmConfig.temperature,
-        maxTokens: llmConfig.maxTokens,
-      });
-    } catch (error) {
-      // Try alternative model
-      try {
-        const alternativeResponse = await this.llmService.createCompletion(
+      structured =
+        await this.llmService.createStructuredCompletion<EmailResponse>(
           validatedMessages,
-          {
-            model: llmConfig.alternative.model,
-            provider: llmConfig.alternative.provider,
-            temperature: llmConfig.alternative.temperature,
-            maxTokens: llmConfig.alternative.maxTokens,
-          }
-        );
-        response = alternativeResponse;
-      } catch (alternativeError) {
-        await this.memoryService.updateEmailSessionWithConversation(
-          input.tenantId || "default",
-          input.sessionId,
-          input.userMessage,
-          ""
+          llmConfig,
+          EMAIL_TOOL
         );
-        console.error("Failed to use alternative model:", alternativeError);
-        // Log LLM failure to Langfuse generation
-        if (generation) {
-          generation.update({
-            metadata: {
-              llmError: {
-                message: error instanceof Error ? error.message : String(error),
-                task: "EmailTask",
-                model: llmConfig.model,
-                provider: llmConfig.provider,
-                timestamp: new Date().toISOString(),
-              },
+    } catch (error) {
+      await this.memoryService.updateEmailSessionWithConversation(
+        input.tenantId || "default",
+        input.sessionId,
+        input.userMessage,
+        ""
+      );
+      console.error("All models failed for EmailTask:", error);
+      // Log LLM failure to Langfuse generation
+      if (generation) {
+        generation.update({
+          metadata: {
+            llmError: {
+              message: error instanceof Error ? error.message : String(error),
+              task: "EmailTask",
+              model: llmConfig.model,
+              provider: llmConfig.provider,
+              attempts: error instanceof LLMFallbackError ? error.attempts : [],
+              timestamp: new Date().toISOString(),
             },
-          });
-        }
-        throw error;
+          },
+        });
       }
+      throw error;
     }
 
-    const content = response.content;
+    const response = structured.response;
+    if (generation) {
+      this.langfuseService.scoreStructuredOutput(generation, structured);
+    }
 
-    // Parse email response
-    const emailData = this.parseEmailResponse(content, generation);
+    const content = getCompletionContent(response);
+    const emailData = this.parseEmailResponse(structured.output);
 
     // Handle email sending if needed
     let emailSent = false;
@@ -245,11 +254,19 @@ export class EmailTask {
             ? input.tenantConfig.emailTo
             : ["ai.agent.logs@pragmaticcoders.com"];
 
+        // Reception always gets the structured guest details first
+        const guestDetails = formatGuestProfile(
+          input.guestProfile,
+          "Guest details:"
+        );
+
         // Send email to all recipients
         await this.emailService.sendEmail({
           to: emailRecipients,
           subject: `Hotel Guest Request - Tenant: ${input.tenantId}`,
-          text: emailData.emailText,
+          text: guestDetails
+            ? `${guestDetails}\n${emailData.emailText}`
+            : emailData.emailText,
         });
 
         console.log(
@@ -264,6 +281,8 @@ export class EmailTask {
     }
 
     const result = {
+      model: response.model,
+      provider: response.provider,
       content,
       emailText: emailData.emailText,
       duringEmailClarification: emailData.duringEmailClarification,
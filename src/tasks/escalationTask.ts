@@ -0,0 +1,194 @@
+import { LangfuseService } from "../services/langfuse";
+import {
+  LLMService,
+  LLMFallbackError,
+  StructuredCompletionResult,
+} from "../services/llm";
+import {
+  ChatMessage,
+  LLMToolDefinition,
+  LLMCompletionResponse,
+  LLMProviderType,
+} from "../types";
+import { LangfuseTraceClient } from "langfuse";
+import { getCompletionContent } from "../utils/llmResultParser";
+import { TaskLLMConfig } from "../config/llmConfig";
+import { validateMessagesForAnthropic } from "../utils/messageValidator";
+import { convertToDetailedUsage, logUsageDetails } from "../utils/usageTracker";
+
+export interface EscalationTaskInput {
+  userMessage: string;
+  previousAssistantMessage?: string; // Lets "yes" confirm an offer to call a person
+  sessionId: string;
+  llmConfig: TaskLLMConfig;
+  trace?: LangfuseTraceClient;
+}
+
+export interface EscalationTaskOutput {
+  escalate: boolean;
+  reason: string;
+  usage?: LLMCompletionResponse["usage"];
+  model?: string; // Model that produced the output, after any fallback
+  provider?: LLMProviderType;
+}
+
+interface EscalationDecision {
+  escalate: boolean;
+  reason?: string;
+}
+
+// Handoff reasons are shown to staff and stored in KV metadata
+const MAX_REASON_LENGTH = 200;
+
+const ESCALATION_PROMPT = `You decide whether a hotel chat must be handed over to a member of staff.
+Escalate only when the guest's latest message asks to talk to a person (reception, manager, "a human"),
+reports an emergency, or makes a complaint the guest wants a person to handle.
+Do not escalate ordinary questions and requests the assistant can answer or forward by email.`;
+
+const ESCALATION_TOOL: LLMToolDefinition = {
+  name: "decide_escalation",
+  description:
+    "Decide whether the conversation should be handed to hotel staff",
+  parameters: {
+    type: "object",
+    properties: {
+      escalate: {
+        type: "boolean",
+        description: "Whether a member of staff should take over",
+      },
+      reason: {
+        type: "string",
+        description:
+          "One short sentence for staff explaining why, empty when not escalating",
+      },
+    },
+    required: ["escalate"],
+  },
+};
+
+export class EscalationTask {
+  private langfuseService: LangfuseService;
+  private llmService: LLMService;
+
+  constructor(langfuseService: LangfuseService, llmService: LLMService) {
+    this.langfuseService = langfuseService;
+    this.llmService = llmService;
+  }
+
+  async execute(input: EscalationTaskInput): Promise<EscalationTaskOutput> {
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content: ESCALATION_PROMPT,
+        timestamp: Date.now(),
+      },
+      {
+        // Kept out of the turn order, Anthropic requires the first message to come from the user
+        role: "system",
+        content: input.previousAssistantMessage
+          ? `## Assistant's Previous Message\n\n${input.previousAssistantMessage}`
+          : "",
+        timestamp: Date.now(),
+      },
+      {
+        role: "user",
+        content: input.userMessage,
+        timestamp: Date.now(),
+      },
+    ];
+
+    // Validate messages for Anthropic provider
+    const validatedMessages = validateMessagesForAnthropic(messages);
+
+    // Use provided LLM configuration
+    const llmConfig = input.llmConfig;
+
+    // Create generation for this LLM call
+    const generation = input.trace
+      ? this.langfuseService.createGeneration(
+          input.trace,
+          "escalation-task",
+          { messages: validatedMessages },
+          llmConfig.model
+        )
+      : null;
+
+    // Call LLM service, falling back along the task's model chain and
+    // re-prompting once if the output does not match the schema
+    let structured: StructuredCompletionResult<EscalationDecision>;
+    try {
+      structured =
+        await this.llmService.createStructuredCompletion<EscalationDecision>(
+          validatedMessages,
+          llmConfig,
+          ESCALATION_TOOL
+        );
+    } catch (error) {
+      console.error("All models failed for EscalationTask:", error);
+      // Log LLM failure to Langfuse generation
+      if (generation) {
+        generation.update({
+          metadata: {
+            llmError: {
+              message: error instanceof Error ? error.message : String(error),
+              task: "EscalationTask",
+              model: llmConfig.model,
+              provider: llmConfig.provider,
+              attempts: error instanceof LLMFallbackError ? error.attempts : [],
+              timestamp: new Date().toISOString(),
+            },
+          },
+        });
+      }
+      throw error;
+    }
+
+    const response = structured.response;
+    if (generation) {
+      this.langfuseService.scoreStructuredOutput(generation, structured);
+    }
+
+    // Output that failed validation never escalates
+    const escalate = structured.output?.escalate === true;
+    const reason = escalate
+      ? (structured.output?.reason?.trim() || "Guest asked for staff").slice(
+          0,
+          MAX_REASON_LENGTH
+        )
+      : "";
+
+    const result = {
+      model: response.model,
+      provider: response.provider,
+      escalate,
+      reason,
+      usage: response.usage,
+    };
+
+    // End generation with detailed usage tracking
+    if (generation) {
+      const output = {
+        decision: getCompletionContent(response),
+        escalate,
+      };
+      const detailedUsage = convertToDetailedUsage(
+        result.usage,
+        response.model,
+        response.provider
+      );
+
+      if (detailedUsage) {
+        logUsageDetails("EscalationTask", detailedUsage, response.model);
+        this.langfuseService.endGenerationWithUsage(
+          generation,
+          output,
+          detailedUsage
+        );
+      } else {
+        generation.end({ output });
+      }
+    }
+
+    return result;
+  }
+}
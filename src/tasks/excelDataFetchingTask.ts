@@ -1,6 +1,22 @@
 import { LangfuseService } from "../services/langfuse";
-import { GoogleSheets } from "../services/googleSheets";
+import {
+  KnowledgeSource,
+  SheetFetchErrorKind,
+  SheetFetchFailure,
+  SheetFetchResult,
+  toSheetFetchFailure,
+} from "../services/knowledge";
+import { SheetRetrievalService } from "../services/sheetRetrievalService";
+import { LLMCompletionResponse, LLMProviderType } from "../types";
 import { LangfuseTraceClient } from "langfuse";
+import {
+  CachedSheetData,
+  KnowledgeSyncState,
+  getSheetCacheKey,
+  getSyncStateKey,
+  isVerifiedBySync,
+} from "../utils/knowledgeCache";
+import { hashContent } from "../utils/sheetChunks";
 
 export interface ExcelDataFetchingInput {
   recommendedSheets: Array<{
@@ -9,129 +25,87 @@ export interface ExcelDataFetchingInput {
   }>;
   tenantId: string;
   sessionId: string;
-  spreadsheetId?: string;
+  // Retrieve only the rows relevant to this message instead of whole sheets
+  retrieval?: {
+    query: string;
+    topK: number;
+    maxTokens: number;
+  };
   trace?: LangfuseTraceClient;
 }
 
-interface CachedSheetData {
-  data: string;
-  timestamp: number;
-  tenantId: string;
-  sheetName: string;
+interface CachedSheetLookup {
+  cachedData: { data: string; isExpired: boolean; contentHash?: string } | null;
+  isFresh: boolean; // Usable without asking the knowledge source
 }
 
 export interface ExcelDataFetchingOutput {
   excelData: string;
   fetchedSheets: string[];
   errors: string[];
-}
-
-interface GoogleAPIError extends Error {
-  status?: number;
-  code?: number;
-  details?: string;
+  retrievedRows?: number; // Set when rows were retrieved instead of whole sheets
+  // Embedding usage of the retrieval
+  usage?: LLMCompletionResponse["usage"];
+  model?: string;
+  provider?: LLMProviderType;
 }
 
 export class ExcelDataFetchingTask {
   private langfuseService: LangfuseService;
-  private googleSheets: GoogleSheets;
+  private knowledgeSource: KnowledgeSource | null;
   private tenantKnowledgeCache: KVNamespace;
+  private retrievalService?: SheetRetrievalService;
   private readonly CACHE_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-  private readonly MAX_RETRY_ATTEMPTS = 3; // Increased for API enablement issues
+  private readonly MAX_RETRY_ATTEMPTS = 3; // Only transient failures are retried
+  private readonly RETRY_BASE_DELAY_MS = 100; // Doubled on every attempt
 
   constructor(
     langfuseService: LangfuseService,
-    googleSheets: GoogleSheets,
-    tenantKnowledgeCache: KVNamespace
+    knowledgeSource: KnowledgeSource | null,
+    tenantKnowledgeCache: KVNamespace,
+    retrievalService?: SheetRetrievalService
   ) {
     this.langfuseService = langfuseService;
-    this.googleSheets = googleSheets;
+    this.knowledgeSource = knowledgeSource;
     this.tenantKnowledgeCache = tenantKnowledgeCache;
+    this.retrievalService = retrievalService;
   }
 
   /**
-   * Check if error is a Google API error
-   * @param error The error to check
+   * Check if a failed fetch may succeed when repeated within the guest's request.
+   * Quotas are refilled per minute, so a quota failure is left to the expired
+   * cached copy and the next sync instead.
+   * @param failure The failed fetch
    * @returns boolean
    */
-  private isGoogleAPIError(error: any): error is GoogleAPIError {
-    if (!error) return false;
-
-    const errorMessage = error.message || String(error);
-    const statusCode = error.status || error.code;
-
-    // Check for Google API specific error patterns
-    return (
-      errorMessage.includes("Google API error") ||
-      errorMessage.includes("Google Sheets API") ||
-      errorMessage.includes("googleapis.com") ||
-      statusCode === 403 ||
-      statusCode === 429 ||
-      statusCode === 500 ||
-      statusCode === 502 ||
-      statusCode === 503 ||
-      statusCode === 504
-    );
+  private isRetryableFailure(failure: SheetFetchFailure): boolean {
+    return failure.kind === "transient";
   }
 
   /**
-   * Check if error is retryable
-   * @param error The error to check
-   * @returns boolean
-   */
-  private isRetryableError(error: any): boolean {
-    if (!this.isGoogleAPIError(error)) return false;
-
-    const errorMessage = error.message || String(error);
-    const statusCode = error.status || error.code;
-
-    // Don't retry on authentication/permission errors
-    if (statusCode === 401 || statusCode === 403) {
-      // However, 403 can sometimes be temporary quota issues, so retry once
-      return errorMessage.includes("quota") || errorMessage.includes("limit");
-    }
-
-    // Retry on server errors and rate limits
-    return (
-      statusCode === 429 || (statusCode !== undefined && statusCode >= 500)
-    );
-  }
-
-  /**
-   * Create a user-friendly error message for Google API errors
-   * @param error The error to format
+   * Create a user-friendly error message for a failed fetch
+   * @param failure The failed fetch
    * @param sheetName The sheet name
    * @returns string Formatted error message
    */
-  private formatGoogleAPIError(error: any, sheetName: string): string {
-    const errorMessage = error.message || String(error);
-
-    // Handle specific Google API configuration errors
-    if (
-      errorMessage.includes("Google Sheets API has not been used") ||
-      errorMessage.includes("it is disabled")
-    ) {
-      return `Google Sheets API is not enabled for this project. Please enable it in the Google Cloud Console and try again. (Sheet: ${sheetName})`;
-    }
-
-    if (errorMessage.includes("403") || errorMessage.includes("Forbidden")) {
-      return `Access forbidden to Google Sheets. Please check API permissions and quota limits. (Sheet: ${sheetName})`;
-    }
-
-    if (errorMessage.includes("401") || errorMessage.includes("Unauthorized")) {
-      return `Google Sheets authentication failed. Please check API credentials. (Sheet: ${sheetName})`;
-    }
-
-    if (errorMessage.includes("quota") || errorMessage.includes("limit")) {
-      return `Google Sheets API quota exceeded. Please try again later. (Sheet: ${sheetName})`;
-    }
-
-    if (errorMessage.includes("429")) {
-      return `Google Sheets API rate limit exceeded. Please try again later. (Sheet: ${sheetName})`;
+  private formatFetchFailure(
+    failure: SheetFetchFailure,
+    sheetName: string
+  ): string {
+    const source = this.knowledgeSource?.type ?? "knowledge source";
+
+    switch (failure.kind) {
+      case "auth":
+        return `Authentication to ${source} failed. Please check API credentials and permissions: ${failure.message} (Sheet: ${sheetName})`;
+      case "not-found":
+        return `Sheet "${sheetName}" not found in ${source}`;
+      case "quota":
+        return `${source} quota exceeded. Please try again later. (Sheet: ${sheetName})`;
+      case "api-disabled":
+        return `Google Sheets API is not enabled for this project. Please enable it in the Google Cloud Console and try again. (Sheet: ${sheetName})`;
+      case "transient":
+        return `Error fetching sheet "${sheetName}" from ${source}: ${failure.message}`;
     }
-
-    // Generic Google API error
-    return `Google API error for sheet "${sheetName}": ${errorMessage}`;
   }
 
   /**
@@ -150,7 +124,29 @@ export class ExcelDataFetchingTask {
    * @returns string Cache key
    */
   private getSheetCacheKey(tenantId: string, sheetName: string): string {
-    return `${tenantId}:${sheetName}`;
+    return getSheetCacheKey(tenantId, sheetName);
+  }
+
+  /**
+   * Read what the scheduled knowledge sync last saw of the tenant's sheets
+   * @param tenantId The tenant ID
+   * @returns Promise<KnowledgeSyncState | null> - Null when the tenant was never synced
+   */
+  private async getSyncState(
+    tenantId: string
+  ): Promise<KnowledgeSyncState | null> {
+    try {
+      return await this.tenantKnowledgeCache.get<KnowledgeSyncState>(
+        getSyncStateKey(tenantId),
+        "json"
+      );
+    } catch (error) {
+      console.error(
+        `Error reading knowledge sync state for ${tenantId}:`,
+        error
+      );
+      return null;
+    }
   }
 
   /**
@@ -158,13 +154,17 @@ export class ExcelDataFetchingTask {
    * @param tenantId The tenant ID
    * @param sheetName The sheet name
    * @param span Optional Langfuse span for error logging
-   * @returns Promise<{ data: string; isExpired: boolean } | null>
+   * @returns Promise<{ data: string; isExpired: boolean; contentHash?: string } | null>
    */
   private async getCachedSheetData(
     tenantId: string,
     sheetName: string,
     span?: any
-  ): Promise<{ data: string; isExpired: boolean } | null> {
+  ): Promise<{
+    data: string;
+    isExpired: boolean;
+    contentHash?: string;
+  } | null> {
     try {
       const cacheKey = this.getSheetCacheKey(tenantId, sheetName);
       const cachedDataString = await this.tenantKnowledgeCache.get(cacheKey);
@@ -313,6 +313,7 @@ export class ExcelDataFetchingTask {
       return {
         data: cachedData.data,
         isExpired,
+        contentHash: cachedData.contentHash,
       };
     } catch (error) {
       console.error(
@@ -348,85 +349,97 @@ export class ExcelDataFetchingTask {
   }
 
   /**
-   * Fetch sheet data from Google Sheets with retry logic
-   * @param spreadsheetId The spreadsheet ID
+   * Read one sheet as a result, whether or not the source reports failures as results
+   * @param knowledgeSource The tenant's knowledge source
+   * @param sheetName The sheet name
+   * @returns Promise<SheetFetchResult<string>>
+   */
+  private async readSheet(
+    knowledgeSource: KnowledgeSource,
+    sheetName: string
+  ): Promise<SheetFetchResult<string>> {
+    if (knowledgeSource.fetchSheetMarkdown) {
+      return knowledgeSource.fetchSheetMarkdown(sheetName);
+    }
+
+    try {
+      return {
+        status: "fetched",
+        value: await knowledgeSource.getSheetMarkdown(sheetName),
+      };
+    } catch (error) {
+      return toSheetFetchFailure(error);
+    }
+  }
+
+  /**
+   * Fetch sheet data from the knowledge source with retry logic
+   * @param knowledgeSource The tenant's knowledge source
    * @param sheetName The sheet name
    * @param retryAttempt Current retry attempt (for internal use)
-   * @returns Promise<string>
+   * @returns Promise<SheetFetchResult<string>> - The last failure once retries are used up
    */
-  private async fetchSheetFromGoogleSheets(
-    spreadsheetId: string,
+  private async fetchSheetFromSource(
+    knowledgeSource: KnowledgeSource,
     sheetName: string,
     retryAttempt: number = 0
-  ): Promise<string> {
-    try {
-      const sheetData = await this.googleSheets.collectSheetAsMarkdown(
-        spreadsheetId,
-        sheetName
+  ): Promise<SheetFetchResult<string>> {
+    const result = await this.readSheet(knowledgeSource, sheetName);
+    if (result.status === "fetched") {
+      return result;
+    }
+
+    console.error(
+      `Error fetching sheet "${sheetName}" from ${
+        knowledgeSource.type
+      } (attempt ${retryAttempt + 1}, ${result.kind}):`,
+      result.message
+    );
+
+    if (
+      this.isRetryableFailure(result) &&
+      retryAttempt < this.MAX_RETRY_ATTEMPTS
+    ) {
+      const delayMs = this.RETRY_BASE_DELAY_MS * 2 ** retryAttempt;
+      console.log(
+        `Retrying in ${delayMs}ms... (attempt ${retryAttempt + 1}/${
+          this.MAX_RETRY_ATTEMPTS
+        })`
       );
 
-      // Check if the returned data contains a 403 Google API error
-      if (
-        sheetData.includes("Google API error - [403]") ||
-        sheetData.includes("Google Sheets API has not been used") ||
-        sheetData.includes("it is disabled")
-      ) {
-        const error = new Error(
-          `Google API 403/enablement error detected in sheet data: ${sheetName}`
-        );
-        (error as any).status = 403;
-        throw error;
-      }
+      await this.sleep(delayMs);
+      return this.fetchSheetFromSource(
+        knowledgeSource,
+        sheetName,
+        retryAttempt + 1
+      );
+    }
 
-      return sheetData;
+    return result;
+  }
+
+  /**
+   * Drop the cached copy of a sheet the knowledge source no longer has
+   * @param tenantId The tenant ID
+   * @param sheetName The sheet name
+   * @returns Promise<void>
+   */
+  private async forgetCachedSheet(
+    tenantId: string,
+    sheetName: string
+  ): Promise<void> {
+    try {
+      await this.tenantKnowledgeCache.delete(
+        this.getSheetCacheKey(tenantId, sheetName)
+      );
+      console.log(
+        `Dropped cached data for missing sheet ${tenantId}:${sheetName}`
+      );
     } catch (error) {
       console.error(
-        `Error fetching sheet "${sheetName}" from Google Sheets (attempt ${
-          retryAttempt + 1
-        }):`,
+        `Error dropping cached sheet data for ${tenantId}:${sheetName}:`,
         error
       );
-
-      // If this is a retryable error and we haven't exceeded max attempts
-      if (
-        this.isRetryableError(error) &&
-        retryAttempt < this.MAX_RETRY_ATTEMPTS
-      ) {
-        const delayMs = 100;
-
-        // Special logging for 403 API enablement errors
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        if (
-          errorMessage.includes("403") ||
-          errorMessage.includes("enablement")
-        ) {
-          console.log(
-            `🔄 Google API 403 detected for "${sheetName}" - this might be an API enablement issue. Retrying in ${delayMs}ms... (attempt ${
-              retryAttempt + 1
-            }/${this.MAX_RETRY_ATTEMPTS})`
-          );
-          console.log(
-            `💡 If this persists, ensure Google Sheets API is enabled in Google Cloud Console`
-          );
-        } else {
-          console.log(
-            `Retrying in ${delayMs}ms... (attempt ${retryAttempt + 1}/${
-              this.MAX_RETRY_ATTEMPTS
-            })`
-          );
-        }
-
-        await this.sleep(delayMs);
-        return this.fetchSheetFromGoogleSheets(
-          spreadsheetId,
-          sheetName,
-          retryAttempt + 1
-        );
-      }
-
-      // If not retryable or max attempts exceeded, throw the error
-      throw error;
     }
   }
 
@@ -449,6 +462,7 @@ export class ExcelDataFetchingTask {
         timestamp: Date.now(),
         tenantId,
         sheetName,
+        contentHash: await hashContent(data),
       };
 
       await this.tenantKnowledgeCache.put(cacheKey, JSON.stringify(cachedData));
@@ -462,6 +476,220 @@ export class ExcelDataFetchingTask {
     }
   }
 
+  /**
+   * Fetch several sheets in one request when the knowledge source supports it.
+   * Transient failures are retried as a batch, never sheet by sheet.
+   * @param tenantId The tenant ID
+   * @param sheetNames Sheets missing from the cache or expired
+   * @param span Optional Langfuse span for error logging
+   * @returns Promise<SheetFetchResult<Map<string, string>> | null> - Markdown by sheet name,
+   * null when the source cannot batch or there is nothing to fetch
+   */
+  private async fetchSheetBatch(
+    tenantId: string,
+    sheetNames: string[],
+    span?: any
+  ): Promise<SheetFetchResult<Map<string, string>> | null> {
+    if (!this.knowledgeSource?.fetchSheetMarkdowns || sheetNames.length === 0) {
+      return null;
+    }
+
+    let result = await this.knowledgeSource.fetchSheetMarkdowns(sheetNames);
+    for (
+      let retryAttempt = 0;
+      result.status === "failed" &&
+      this.isRetryableFailure(result) &&
+      retryAttempt < this.MAX_RETRY_ATTEMPTS;
+      retryAttempt++
+    ) {
+      const delayMs = this.RETRY_BASE_DELAY_MS * 2 ** retryAttempt;
+      console.log(
+        `Retrying batch fetch in ${delayMs}ms... (attempt ${retryAttempt + 1}/${
+          this.MAX_RETRY_ATTEMPTS
+        })`
+      );
+      await this.sleep(delayMs);
+      result = await this.knowledgeSource.fetchSheetMarkdowns(sheetNames);
+    }
+    if (result.status === "fetched") {
+      return result;
+    }
+
+    // The failure stands for every sheet of the batch, fetching them one by one would repeat it
+    console.warn(
+      `Batch fetch of ${sheetNames.length} sheets failed for ${tenantId} (${result.kind}):`,
+      result.message
+    );
+
+    if (span) {
+      try {
+        span.update({
+          metadata: {
+            batchFetchError: {
+              kind: result.kind,
+              httpStatus: result.httpStatus,
+              message: result.message,
+              task: "ExcelDataFetchingTask",
+              tenantId,
+              sheetNames,
+              timestamp: new Date().toISOString(),
+            },
+          },
+        });
+      } catch (logError) {
+        console.warn("Failed to log batch fetch error to Langfuse:", logError);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get one sheet from the cache, the batch or the knowledge source. Expired cached
+   * data stands in when the source fails, unless the sheet no longer exists.
+   * @param tenantId The tenant ID
+   * @param sheetName The sheet name
+   * @param cached The sheet's cache lookup
+   * @param batch Result of the batch request, if one was made
+   * @param span Optional Langfuse span for error logging
+   * @returns Promise<{ data?: string; errors: string[]; failureKind?: SheetFetchErrorKind }> -
+   * No data when the sheet is unavailable
+   */
+  private async fetchSheet(
+    tenantId: string,
+    sheetName: string,
+    { cachedData, isFresh }: CachedSheetLookup,
+    batch: SheetFetchResult<Map<string, string>> | null,
+    span?: any
+  ): Promise<{
+    data?: string;
+    errors: string[];
+    failureKind?: SheetFetchErrorKind;
+  }> {
+    const errors: string[] = [];
+
+    if (cachedData && isFresh) {
+      // Use cached data if available and not expired
+      console.log(`Using cached data for ${tenantId}:${sheetName}`);
+      return { data: cachedData.data, errors };
+    }
+
+    // Data is missing or expired, fetch from the knowledge source
+    if (!this.knowledgeSource) {
+      errors.push(
+        `Sheet "${sheetName}" not found in cache and no knowledge source configured`
+      );
+      return { errors };
+    }
+
+    try {
+      let result: SheetFetchResult<string>;
+      const batchedSheet =
+        batch?.status === "fetched" ? batch.value.get(sheetName) : undefined;
+
+      if (batchedSheet !== undefined) {
+        result = { status: "fetched", value: batchedSheet };
+        console.log(
+          `Fetched ${tenantId}:${sheetName} in a batch from ${this.knowledgeSource.type}`
+        );
+      } else if (batch?.status === "failed") {
+        result = batch;
+      } else {
+        // No batch was made, or the sheet is missing from it
+        console.log(
+          `Fetching fresh data for ${tenantId}:${sheetName} from ${this.knowledgeSource.type}`
+        );
+        result = await this.fetchSheetFromSource(
+          this.knowledgeSource,
+          sheetName
+        );
+      }
+
+      if (result.status === "fetched") {
+        // Cache the fresh data
+        await this.cacheSheetData(tenantId, sheetName, result.value);
+        return { data: result.value, errors };
+      }
+
+      const errorMessage = this.formatFetchFailure(result, sheetName);
+      // A deleted sheet must stop answering guests, any other failure may pass
+      const useExpiredCache = !!cachedData && result.kind !== "not-found";
+
+      if (span) {
+        try {
+          span.update({
+            metadata: {
+              sheetFetchError: {
+                kind: result.kind,
+                httpStatus: result.httpStatus,
+                message: result.message,
+                task: "ExcelDataFetchingTask",
+                tenantId,
+                sheetName,
+                source: this.knowledgeSource.type,
+                isRetryable: this.isRetryableFailure(result),
+                usedExpiredCache: useExpiredCache,
+                timestamp: new Date().toISOString(),
+              },
+            },
+          });
+        } catch (logError) {
+          console.warn(
+            "Failed to log sheet fetch error to Langfuse:",
+            logError
+          );
+        }
+      }
+
+      if (useExpiredCache && cachedData) {
+        console.warn(
+          `Using expired cached data for ${tenantId}:${sheetName} due to fetch error after retry (${result.kind})`
+        );
+
+        // Add warning to errors but don't fail completely
+        errors.push(
+          `Warning: Using expired cached data for "${sheetName}" due to error after retry: ${errorMessage}`
+        );
+        return { data: cachedData.data, errors, failureKind: result.kind };
+      }
+
+      if (cachedData) {
+        await this.forgetCachedSheet(tenantId, sheetName);
+      }
+
+      errors.push(errorMessage);
+      console.error(errorMessage);
+      return { errors, failureKind: result.kind };
+    } catch (error) {
+      const errorMessage = `Error fetching sheet "${sheetName}": ${error}`;
+      errors.push(errorMessage);
+      console.error(errorMessage);
+
+      // Log individual sheet fetch error to span metadata
+      if (span) {
+        try {
+          span.update({
+            metadata: {
+              sheetFetchError: {
+                message: error instanceof Error ? error.message : String(error),
+                task: "ExcelDataFetchingTask",
+                tenantId,
+                sheetName,
+                timestamp: new Date().toISOString(),
+              },
+            },
+          });
+        } catch (logError) {
+          console.warn(
+            "Failed to log sheet fetch error to Langfuse:",
+            logError
+          );
+        }
+      }
+
+      return { errors };
+    }
+  }
+
   /**
    * Fetch Excel data for recommended sheets
    * @param input ExcelDataFetchingInput
@@ -486,161 +714,79 @@ export class ExcelDataFetchingTask {
       const fetchedSheets: string[] = [];
       const errors: string[] = [];
       const excelDataParts: string[] = [];
+      // Read once, and only when some cached sheet has expired
+      let syncState: Promise<KnowledgeSyncState | null> | undefined;
 
       // Sort sheets by relevance score (highest first)
       const sortedSheets = input.recommendedSheets.sort(
         (a, b) => b.relevance_score - a.relevance_score
       );
 
-      // Fetch each recommended sheet
-      for (const sheet of sortedSheets) {
+      if (this.retrievalService && input.retrieval && sortedSheets.length > 0) {
         try {
-          // Check cache first
-          const cachedData = await this.getCachedSheetData(
-            input.tenantId,
-            sheet.sheet_name,
-            span
-          );
-
-          let sheetData: string;
-
-          if (cachedData && !cachedData.isExpired) {
-            // Use cached data if available and not expired
-            sheetData = cachedData.data;
-            console.log(
-              `Using cached data for ${input.tenantId}:${sheet.sheet_name}`
-            );
-          } else {
-            // Data is missing or expired, fetch from Google Sheets
-            if (!input.spreadsheetId) {
-              errors.push(
-                `Sheet "${sheet.sheet_name}" not found in cache and no spreadsheet ID provided`
-              );
-              continue;
-            }
+          const retrieval = await this.retrievalService.retrieve({
+            tenantId: input.tenantId,
+            sheetNames: sortedSheets.map((sheet) => sheet.sheet_name),
+            ...input.retrieval,
+          });
 
-            console.log(
-              `Fetching fresh data for ${input.tenantId}:${sheet.sheet_name} from Google Sheets`
-            );
+          const result: ExcelDataFetchingOutput = {
+            excelData: retrieval.excelData || "No Excel data available",
+            fetchedSheets: retrieval.searchedSheets,
+            errors: retrieval.errors,
+            retrievedRows: retrieval.matches.length,
+            usage: retrieval.usage,
+            model: retrieval.model,
+            provider: retrieval.provider,
+          };
 
-            try {
-              sheetData = await this.fetchSheetFromGoogleSheets(
-                input.spreadsheetId,
-                sheet.sheet_name
-              );
-              if (sheetData.includes("Google API error")) {
-                errors.push(
-                  `Google API 403/enablement error detected in sheet data: ${sheet.sheet_name}`
-                );
-                throw new Error(
-                  `Google API 403/enablement error detected in sheet data: ${sheet.sheet_name}`
-                );
-              }
-
-              // Cache the fresh data
-              await this.cacheSheetData(
-                input.tenantId,
-                sheet.sheet_name,
-                sheetData
-              );
-            } catch (googleSheetsError) {
-              // Enhanced error handling for Google API errors
-              const isGoogleAPIError = this.isGoogleAPIError(googleSheetsError);
-
-              if (isGoogleAPIError) {
-                console.warn(
-                  `Google API error for ${input.tenantId}:${sheet.sheet_name}:`,
-                  googleSheetsError
-                );
-
-                // Log Google API error details to span
-                if (span) {
-                  try {
-                    span.update({
-                      metadata: {
-                        googleAPIError: {
-                          message:
-                            googleSheetsError instanceof Error
-                              ? googleSheetsError.message
-                              : String(googleSheetsError),
-                          task: "ExcelDataFetchingTask",
-                          sheetName: sheet.sheet_name,
-                          tenantId: input.tenantId,
-                          isRetryable: this.isRetryableError(googleSheetsError),
-                          timestamp: new Date().toISOString(),
-                        },
-                      },
-                    });
-                  } catch (logError) {
-                    console.warn(
-                      "Failed to log Google API error to Langfuse:",
-                      logError
-                    );
-                  }
-                }
-              }
-
-              // Always try to use expired cached data as fallback after retry fails
-              if (cachedData && cachedData.isExpired) {
-                sheetData = cachedData.data;
-                console.warn(
-                  `Using expired cached data for ${input.tenantId}:${
-                    sheet.sheet_name
-                  } due to fetch error after retry (${
-                    isGoogleAPIError ? "Google API error" : "fetch error"
-                  })`
-                );
-
-                // Add warning to errors but don't fail completely
-                const formattedError = isGoogleAPIError
-                  ? this.formatGoogleAPIError(
-                      googleSheetsError,
-                      sheet.sheet_name
-                    )
-                  : `${
-                      googleSheetsError instanceof Error
-                        ? googleSheetsError.message
-                        : String(googleSheetsError)
-                    }`;
-
-                errors.push(
-                  `Warning: Using expired cached data for "${sheet.sheet_name}" due to error after retry: ${formattedError}`
-                );
-              } else {
-                throw googleSheetsError;
-              }
-            }
+          if (span) {
+            span.end({
+              output: result,
+              metadata: {
+                retrieval: true,
+                fetchedSheetsCount: result.fetchedSheets.length,
+                retrievedRows: result.retrievedRows,
+                reindexedSheets: retrieval.reindexedSheets,
+                topScore: retrieval.matches[0]?.score ?? null,
+                errorsCount: result.errors.length,
+              },
+            });
           }
 
-          excelDataParts.push(`## ${sheet.sheet_name}\n${sheetData.trim()}`);
-          fetchedSheets.push(sheet.sheet_name);
-        } catch (error) {
-          const isGoogleAPIError = this.isGoogleAPIError(error);
-          const errorMessage = isGoogleAPIError
-            ? this.formatGoogleAPIError(error, sheet.sheet_name)
-            : `Error fetching sheet "${sheet.sheet_name}": ${error}`;
-
-          errors.push(errorMessage);
-          console.error(errorMessage);
+          return result;
+        } catch (retrievalError) {
+          // Whole sheets still answer the question, only with a larger prompt
+          console.error(
+            `Sheet retrieval failed for ${input.tenantId}, falling back to whole sheets:`,
+            retrievalError
+          );
+          errors.push(
+            `Warning: Row retrieval failed, using whole sheets: ${
+              retrievalError instanceof Error
+                ? retrievalError.message
+                : String(retrievalError)
+            }`
+          );
 
-          // Log individual sheet fetch error to span metadata
           if (span) {
             try {
               span.update({
                 metadata: {
-                  sheetFetchError: {
+                  retrievalError: {
                     message:
-                      error instanceof Error ? error.message : String(error),
+                      retrievalError instanceof Error
+                        ? retrievalError.message
+                        : String(retrievalError),
                     task: "ExcelDataFetchingTask",
-                    sheetName: sheet.sheet_name,
-                    isGoogleAPIError,
+                    tenantId: input.tenantId,
                     timestamp: new Date().toISOString(),
                   },
                 },
               });
             } catch (logError) {
               console.warn(
-                "Failed to log sheet fetch error to Langfuse:",
+                "Failed to log retrieval error to Langfuse:",
                 logError
               );
             }
@@ -648,6 +794,62 @@ export class ExcelDataFetchingTask {
         }
       }
 
+      // Check the cache for every sheet at once
+      const cachedSheets = await Promise.all(
+        sortedSheets.map(async (sheet): Promise<CachedSheetLookup> => {
+          const cachedData = await this.getCachedSheetData(
+            input.tenantId,
+            sheet.sheet_name,
+            span
+          );
+
+          // The scheduled sync confirms unchanged sheets without rewriting them
+          let isFresh = !!cachedData && !cachedData.isExpired;
+          if (cachedData?.isExpired && cachedData.contentHash) {
+            syncState = syncState || this.getSyncState(input.tenantId);
+            isFresh = isVerifiedBySync(
+              await syncState,
+              sheet.sheet_name,
+              cachedData.contentHash,
+              this.CACHE_EXPIRY_MS
+            );
+          }
+
+          return { cachedData, isFresh };
+        })
+      );
+
+      // Fetch the missing and expired sheets in one request where the source supports it
+      const batch = await this.fetchSheetBatch(
+        input.tenantId,
+        sortedSheets
+          .filter((_, index) => !cachedSheets[index].isFresh)
+          .map((sheet) => sheet.sheet_name),
+        span
+      );
+
+      const sheetResults = await Promise.all(
+        sortedSheets.map((sheet, index) =>
+          this.fetchSheet(
+            input.tenantId,
+            sheet.sheet_name,
+            cachedSheets[index],
+            batch,
+            span
+          )
+        )
+      );
+
+      // Keep the relevance order whichever sheet finished first
+      sheetResults.forEach((sheetResult, index) => {
+        const sheetName = sortedSheets[index].sheet_name;
+        errors.push(...sheetResult.errors);
+        if (sheetResult.data !== undefined) {
+          excelDataParts.push(`## ${sheetName}\n${sheetResult.data.trim()}`);
+          fetchedSheets.push(sheetName);
+        }
+      });
+
       // Combine all Excel data
       const combinedExcelData = excelDataParts.join("\n\n").trim();
 
@@ -664,8 +866,8 @@ export class ExcelDataFetchingTask {
           metadata: {
             fetchedSheetsCount: fetchedSheets.length,
             errorsCount: errors.length,
-            hasGoogleAPIErrors: errors.some((error) =>
-              error.includes("Google API error")
+            fetchErrorKinds: sheetResults.flatMap((sheetResult) =>
+              sheetResult.failureKind ? [sheetResult.failureKind] : []
             ),
           },
         });
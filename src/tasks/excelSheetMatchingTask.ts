@@ -1,8 +1,19 @@
-import { LLMService } from "../services/llm/llmService";
+import {
+  LLMService,
+  StructuredCompletionResult,
+} from "../services/llm/llmService";
+import { LLMFallbackError } from "../services/llm/resilience";
 import { LangfuseService } from "../services/langfuse";
-import { ChatMessage, LangfusePrompt, SessionMemory } from "../types";
+import {
+  ChatMessage,
+  LangfusePrompt,
+  LLMToolDefinition,
+  SessionMemory,
+  LLMCompletionResponse,
+  LLMProviderType,
+} from "../types";
 import { LangfuseTraceClient } from "langfuse";
-import { parseLLMResult } from "../utils/llmResultParser";
+import { getCompletionContent } from "../utils/llmResultParser";
 import { TaskLLMConfig } from "../config/llmConfig";
 import { validateMessagesForAnthropic } from "../utils/messageValidator";
 import { formatConversationHistory } from "../utils/format";
@@ -24,13 +35,49 @@ export interface ExcelSheetMatchingOutput {
     sheet_name: string;
     relevance_score: number;
   }>;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: LLMCompletionResponse["usage"];
+  model?: string; // Model that produced the output, after any fallback
+  provider?: LLMProviderType;
 }
 
+interface ExcelSheetsResponse {
+  recommended_sheets: Array<{
+    sheet_name: string;
+    relevance_score: number;
+  }>;
+}
+
+const SELECT_SHEETS_TOOL: LLMToolDefinition = {
+  name: "select_sheets",
+  description:
+    "Return the knowledge base sheets most relevant to the guest's message",
+  parameters: {
+    type: "object",
+    properties: {
+      recommended_sheets: {
+        type: "array",
+        description: "Relevant sheets, most relevant first",
+        items: {
+          type: "object",
+          properties: {
+            sheet_name: {
+              type: "string",
+              description: "Sheet name exactly as listed in the configuration",
+              minLength: 1,
+            },
+            relevance_score: {
+              type: "number",
+              description: "Relevance from 0 to 1",
+            },
+          },
+          required: ["sheet_name", "relevance_score"],
+        },
+      },
+    },
+    required: ["recommended_sheets"],
+  },
+};
+
 export class ExcelSheetMatchingTask {
   private llmService: LLMService;
   private langfuseService: LangfuseService;
@@ -40,56 +87,14 @@ export class ExcelSheetMatchingTask {
     this.langfuseService = langfuseService;
   }
 
-  private parseExcelSheets(
-    content: string,
-    generation?: any
-  ): Array<{
+  /**
+   * Output that failed validation recommends no sheets
+   */
+  private parseExcelSheets(sheetsData: ExcelSheetsResponse | null): Array<{
     sheet_name: string;
     relevance_score: number;
   }> {
-    interface ExcelSheetsResponse {
-      recommended_sheets?: Array<{
-        sheet_name: string;
-        relevance_score: number;
-      }>;
-    }
-
-    const fallback: ExcelSheetsResponse = {
-      recommended_sheets: [],
-    };
-
-    const sheetsData = parseLLMResult<ExcelSheetsResponse>(
-      content,
-      fallback,
-      (error, content) => {
-        // Log parsing error to Langfuse generation if available
-        if (generation) {
-          try {
-            generation.update({
-              metadata: {
-                parsingError: {
-                  message: error.message,
-                  task: "ExcelSheetMatchingTask",
-                  originalContent: content.substring(0, 500), // Truncate for logging
-                  timestamp: new Date().toISOString(),
-                },
-              },
-            });
-          } catch (logError) {
-            console.warn("Failed to log parsing error to Langfuse:", logError);
-          }
-        }
-      }
-    );
-
-    if (
-      sheetsData.recommended_sheets &&
-      Array.isArray(sheetsData.recommended_sheets)
-    ) {
-      return sheetsData.recommended_sheets;
-    }
-
-    return [];
+    return sheetsData ? sheetsData.recommended_sheets : [];
   }
 
   async execute(
@@ -139,15 +144,16 @@ export class ExcelSheetMatchingTask {
         )
       : null;
 
-    // Call LLM service
-    let response;
+    // Call LLM service, falling back along the task's model chain and
+    // re-prompting once if the output does not match the schema
+    let structured: StructuredCompletionResult<ExcelSheetsResponse>;
     try {
-      response = await this.llmService.createCompletion(validatedMessages, {
-        model: llmConfig.model,
-        provider: llmConfig.provider,
-        temperature: llmConfig.temperature,
-        maxTokens: llmConfig.maxTokens,
-      });
+      structured =
+        await this.llmService.createStructuredCompletion<ExcelSheetsResponse>(
+          validatedMessages,
+          llmConfig,
+          SELECT_SHEETS_TOOL
+        );
     } catch (error) {
       // Log LLM failure to Langfuse generation
       if (generation) {
@@ -158,6 +164,7 @@ export class ExcelSheetMatchingTask {
               task: "ExcelSheetMatchingTask",
               model: llmConfig.model,
               provider: llmConfig.provider,
+              attempts: error instanceof LLMFallbackError ? error.attempts : [],
               timestamp: new Date().toISOString(),
             },
           },
@@ -166,14 +173,17 @@ export class ExcelSheetMatchingTask {
       throw error;
     }
 
-    // Parse recommended sheets from the response
-    const recommendedSheets = this.parseExcelSheets(
-      response.content,
-      generation
-    );
+    const response = structured.response;
+    if (generation) {
+      this.langfuseService.scoreStructuredOutput(generation, structured);
+    }
+
+    const recommendedSheets = this.parseExcelSheets(structured.output);
 
     const result = {
-      content: response.content,
+      model: response.model,
+      provider: response.provider,
+      content: getCompletionContent(response),
       recommendedSheets,
       usage: response.usage,
     };
@@ -0,0 +1,252 @@
+import { LangfuseService } from "../services/langfuse";
+import {
+  LLMService,
+  LLMFallbackError,
+  StructuredCompletionResult,
+} from "../services/llm";
+import {
+  ChatMessage,
+  GuestProfile,
+  LLMToolDefinition,
+  LLMCompletionResponse,
+  LLMProviderType,
+} from "../types";
+import { LangfuseTraceClient } from "langfuse";
+import { getCompletionContent } from "../utils/llmResultParser";
+import { TaskLLMConfig } from "../config/llmConfig";
+import { validateMessagesForAnthropic } from "../utils/messageValidator";
+import { formatGuestProfile } from "../utils/format";
+import { convertToDetailedUsage, logUsageDetails } from "../utils/usageTracker";
+
+export interface GuestProfileTaskInput {
+  userMessage: string;
+  previousAssistantMessage?: string; // Gives short answers like "204" their meaning
+  guestProfile?: GuestProfile;
+  sessionId: string;
+  llmConfig: TaskLLMConfig;
+  trace?: LangfuseTraceClient;
+}
+
+export interface GuestProfileTaskOutput {
+  guestProfile: GuestProfile;
+  changedFields: Array<keyof GuestProfile>;
+  usage?: LLMCompletionResponse["usage"];
+  model?: string; // Model that produced the output, after any fallback
+  provider?: LLMProviderType;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const GUEST_PROFILE_PROMPT = `You extract guest details from a hotel chat.
+Call the tool with only the details the guest states or confirms in their latest message.
+Omit every field the message does not mention - never guess and never repeat known details unchanged.
+Resolve relative dates ("tomorrow", "next Friday") against today's date.`;
+
+const UPDATE_GUEST_PROFILE_TOOL: LLMToolDefinition = {
+  name: "update_guest_profile",
+  description: "Record guest details stated in the latest message",
+  parameters: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: "Guest's name",
+        minLength: 1,
+      },
+      roomNumber: {
+        type: "string",
+        description: "Room number",
+        minLength: 1,
+      },
+      arrivalDate: {
+        type: "string",
+        description: "Arrival date as YYYY-MM-DD",
+      },
+      departureDate: {
+        type: "string",
+        description: "Departure date as YYYY-MM-DD",
+      },
+      partySize: {
+        type: "integer",
+        description: "Number of guests staying, including children",
+      },
+      language: {
+        type: "string",
+        description: "ISO 639-1 code of the language the guest writes in",
+      },
+    },
+  },
+};
+
+export class GuestProfileTask {
+  private langfuseService: LangfuseService;
+  private llmService: LLMService;
+
+  constructor(langfuseService: LangfuseService, llmService: LLMService) {
+    this.langfuseService = langfuseService;
+    this.llmService = llmService;
+  }
+
+  /**
+   * Merge extracted details into the known profile, dropping values that are malformed
+   */
+  private mergeProfile(
+    profile: GuestProfile,
+    extracted: GuestProfile | null
+  ): { guestProfile: GuestProfile; changedFields: Array<keyof GuestProfile> } {
+    const updates: GuestProfile = {};
+    if (extracted) {
+      if (extracted.name?.trim()) updates.name = extracted.name.trim();
+      if (extracted.roomNumber?.trim()) {
+        updates.roomNumber = extracted.roomNumber.trim();
+      }
+      if (extracted.arrivalDate && DATE_PATTERN.test(extracted.arrivalDate)) {
+        updates.arrivalDate = extracted.arrivalDate;
+      }
+      if (
+        extracted.departureDate &&
+        DATE_PATTERN.test(extracted.departureDate)
+      ) {
+        updates.departureDate = extracted.departureDate;
+      }
+      if (extracted.partySize && extracted.partySize > 0) {
+        updates.partySize = extracted.partySize;
+      }
+      if (extracted.language?.trim()) {
+        updates.language = extracted.language.trim().toLowerCase();
+      }
+    }
+
+    const changedFields = (
+      Object.keys(updates) as Array<keyof GuestProfile>
+    ).filter((field) => updates[field] !== profile[field]);
+
+    return { guestProfile: { ...profile, ...updates }, changedFields };
+  }
+
+  async execute(input: GuestProfileTaskInput): Promise<GuestProfileTaskOutput> {
+    const knownProfile = input.guestProfile || {};
+
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content: GUEST_PROFILE_PROMPT,
+        timestamp: Date.now(),
+      },
+      {
+        role: "system",
+        content: "Today is: " + new Date().toISOString(),
+        timestamp: Date.now(),
+      },
+      {
+        role: "system",
+        content: formatGuestProfile(knownProfile, "## Known Guest Details"),
+        timestamp: Date.now(),
+      },
+      {
+        // Kept out of the turn order, Anthropic requires the first message to come from the user
+        role: "system",
+        content: input.previousAssistantMessage
+          ? `## Assistant's Previous Message\n\n${input.previousAssistantMessage}`
+          : "",
+        timestamp: Date.now(),
+      },
+      {
+        role: "user",
+        content: input.userMessage,
+        timestamp: Date.now(),
+      },
+    ];
+
+    // Validate messages for Anthropic provider
+    const validatedMessages = validateMessagesForAnthropic(messages);
+
+    // Use provided LLM configuration
+    const llmConfig = input.llmConfig;
+
+    // Create generation for this LLM call
+    const generation = input.trace
+      ? this.langfuseService.createGeneration(
+          input.trace,
+          "guest-profile-task",
+          { messages: validatedMessages },
+          llmConfig.model
+        )
+      : null;
+
+    // Call LLM service, falling back along the task's model chain and
+    // re-prompting once if the output does not match the schema
+    let structured: StructuredCompletionResult<GuestProfile>;
+    try {
+      structured =
+        await this.llmService.createStructuredCompletion<GuestProfile>(
+          validatedMessages,
+          llmConfig,
+          UPDATE_GUEST_PROFILE_TOOL
+        );
+    } catch (error) {
+      console.error("All models failed for GuestProfileTask:", error);
+      // Log LLM failure to Langfuse generation
+      if (generation) {
+        generation.update({
+          metadata: {
+            llmError: {
+              message: error instanceof Error ? error.message : String(error),
+              task: "GuestProfileTask",
+              model: llmConfig.model,
+              provider: llmConfig.provider,
+              attempts: error instanceof LLMFallbackError ? error.attempts : [],
+              timestamp: new Date().toISOString(),
+            },
+          },
+        });
+      }
+      throw error;
+    }
+
+    const response = structured.response;
+    if (generation) {
+      this.langfuseService.scoreStructuredOutput(generation, structured);
+    }
+
+    // Output that failed validation leaves the profile unchanged
+    const { guestProfile, changedFields } = this.mergeProfile(
+      knownProfile,
+      structured.output
+    );
+
+    const result = {
+      model: response.model,
+      provider: response.provider,
+      guestProfile,
+      changedFields,
+      usage: response.usage,
+    };
+
+    // End generation with detailed usage tracking
+    if (generation) {
+      const output = {
+        extracted: getCompletionContent(response),
+        changedFields,
+      };
+      const detailedUsage = convertToDetailedUsage(
+        result.usage,
+        response.model,
+        response.provider
+      );
+
+      if (detailedUsage) {
+        logUsageDetails("GuestProfileTask", detailedUsage, response.model);
+        this.langfuseService.endGenerationWithUsage(
+          generation,
+          output,
+          detailedUsage
+        );
+      } else {
+        generation.end({ output });
+      }
+    }
+
+    return result;
+  }
+}
@@ -1,10 +1,17 @@
 import { LangfuseService } from "../services/langfuse";
-import { LLMService } from "../services/llm";
-import { ChatMessage, SessionMemory, LangfusePrompt } from "../types";
+import { LLMService, LLMFallbackError } from "../services/llm";
+import {
+  ChatMessage,
+  SessionMemory,
+  LangfusePrompt,
+  LLMCompletionResponse,
+  LLMProviderType,
+} from "../types";
 import { TenantConfig } from "./dataCollectionTask";
 import { LangfuseTraceClient } from "langfuse";
 import { TaskLLMConfig } from "../config/llmConfig";
 import { validateMessagesForAnthropic } from "../utils/messageValidator";
+import { formatGuestProfile } from "../utils/format";
 import { convertToDetailedUsage, logUsageDetails } from "../utils/usageTracker";
 
 export interface GuestServiceTaskInput {
@@ -16,15 +23,15 @@ export interface GuestServiceTaskInput {
   sessionId: string;
   llmConfig: TaskLLMConfig;
   trace?: LangfuseTraceClient; // Langfuse trace object
+  onToken?: (token: string) => void; // Enables streaming when provided
+  onStreamReset?: () => void; // Called before retrying after partial output
 }
 
 export interface GuestServiceTaskOutput {
   content: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: LLMCompletionResponse["usage"];
+  model?: string; // Model that produced the output, after any fallback
+  provider?: LLMProviderType;
   traceId?: string;
 }
 
@@ -57,6 +64,19 @@ export class GuestServiceTask {
         content: input.excelData,
         timestamp: Date.now(),
       },
+      {
+        role: "system",
+        content: formatGuestProfile(input.sessionHistory.guestProfile),
+        timestamp: Date.now(),
+      },
+      {
+        // Facts from messages that no longer fit in the context window
+        role: "system",
+        content: input.sessionHistory.summary
+          ? `## Summary of Earlier Conversation\n\n${input.sessionHistory.summary}`
+          : "",
+        timestamp: Date.now(),
+      },
       ...input.sessionHistory.messages,
       {
         role: "user",
@@ -83,51 +103,42 @@ export class GuestServiceTask {
         )
       : null;
 
-    // Call LLM service with new architecture
+    // Call LLM service, falling back along the task's model chain
     let response;
     try {
-      response = await this.llmService.createCompletion(validatedMessages, {
-        model: llmConfig.model,
-        provider: llmConfig.provider,
-        temperature: llmConfig.temperature,
-        maxTokens: llmConfig.maxTokens,
-      });
+      response = await this.llmService.createTaskCompletion(
+        validatedMessages,
+        llmConfig,
+        {
+          onToken: input.onToken,
+          onReset: input.onStreamReset,
+        }
+      );
     } catch (error) {
-      // Try alternative model
-      try {
-        const alternativeResponse = await this.llmService.createCompletion(
-          validatedMessages,
-          {
-            model: llmConfig.alternative.model,
-            provider: llmConfig.alternative.provider,
-            temperature: llmConfig.alternative.temperature,
-            maxTokens: llmConfig.alternative.maxTokens,
-          }
-        );
-        response = alternativeResponse;
-      } catch (alternativeError) {
-        console.error("Failed to use alternative model:", alternativeError);
-        // Log LLM failure to Langfuse generation
-        if (generation) {
-          generation.update({
-            metadata: {
-              llmError: {
-                message: error instanceof Error ? error.message : String(error),
-                task: "GuestServiceTask",
-                model: llmConfig.model,
-                provider: llmConfig.provider,
-                timestamp: new Date().toISOString(),
-              },
+      console.error("All models failed for GuestServiceTask:", error);
+      // Log LLM failure to Langfuse generation
+      if (generation) {
+        generation.update({
+          metadata: {
+            llmError: {
+              message: error instanceof Error ? error.message : String(error),
+              task: "GuestServiceTask",
+              model: llmConfig.model,
+              provider: llmConfig.provider,
+              attempts: error instanceof LLMFallbackError ? error.attempts : [],
+              timestamp: new Date().toISOString(),
             },
-          });
-        }
-        throw error;
+          },
+        });
       }
+      throw error;
     }
 
     const content = response.content;
 
     const result = {
+      model: response.model,
+      provider: response.provider,
       content,
       usage: response.usage || {
         promptTokens: 0,
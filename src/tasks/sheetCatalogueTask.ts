@@ -0,0 +1,208 @@
+import { LangfuseService } from "../services/langfuse";
+import {
+  LLMService,
+  LLMFallbackError,
+  StructuredCompletionResult,
+} from "../services/llm";
+import { SheetTable, sheetTableToMarkdown } from "../services/knowledge";
+import {
+  ChatMessage,
+  LLMToolDefinition,
+  LLMCompletionResponse,
+  LLMProviderType,
+} from "../types";
+import { LangfuseTraceClient } from "langfuse";
+import { getCompletionContent } from "../utils/llmResultParser";
+import { TaskLLMConfig } from "../config/llmConfig";
+import { validateMessagesForAnthropic } from "../utils/messageValidator";
+import { convertToDetailedUsage, logUsageDetails } from "../utils/usageTracker";
+
+export interface SheetCatalogueEntry {
+  sheetName: string;
+  description: string; // What the sheet contains, one sentence
+  keywords: string[];
+  useFor: string[]; // Kinds of guest questions the sheet answers
+}
+
+export interface SheetCatalogueTaskInput {
+  table: SheetTable;
+  llmConfig: TaskLLMConfig;
+  trace?: LangfuseTraceClient;
+}
+
+export interface SheetCatalogueTaskOutput {
+  entry: SheetCatalogueEntry | null; // Null when the output failed validation
+  usage?: LLMCompletionResponse["usage"];
+  model?: string; // Model that produced the output, after any fallback
+  provider?: LLMProviderType;
+}
+
+type SheetDescription = Omit<SheetCatalogueEntry, "sheetName">;
+
+// Enough rows to show what a sheet holds without sending all of it
+const SAMPLE_ROWS = 15;
+
+const SHEET_CATALOGUE_PROMPT = `You describe one sheet of a hotel's information spreadsheet for a sheet selection guide.
+A chatbot reads the guide to pick the sheets that answer a guest's question, so describe what the sheet contains,
+list the keywords guests would use (in English and in the sheet's own language), and the kinds of questions it answers.
+Only describe what the headers and sample rows show - never invent services or facts.
+Write the description and question kinds in English.`;
+
+const DESCRIBE_SHEET_TOOL: LLMToolDefinition = {
+  name: "describe_sheet",
+  description: "Describe the sheet for the sheet selection guide",
+  parameters: {
+    type: "object",
+    properties: {
+      description: {
+        type: "string",
+        description: "One sentence on what the sheet contains",
+        minLength: 1,
+      },
+      keywords: {
+        type: "array",
+        description: "Words guests would use when asking about this content",
+        items: { type: "string", minLength: 1 },
+        minItems: 3,
+        maxItems: 20,
+      },
+      useFor: {
+        type: "array",
+        description: "Kinds of guest questions this sheet answers",
+        items: { type: "string", minLength: 1 },
+        minItems: 1,
+        maxItems: 8,
+      },
+    },
+    required: ["description", "keywords", "useFor"],
+  },
+};
+
+export class SheetCatalogueTask {
+  private langfuseService: LangfuseService;
+  private llmService: LLMService;
+
+  constructor(langfuseService: LangfuseService, llmService: LLMService) {
+    this.langfuseService = langfuseService;
+    this.llmService = llmService;
+  }
+
+  async execute(
+    input: SheetCatalogueTaskInput
+  ): Promise<SheetCatalogueTaskOutput> {
+    const sample: SheetTable = {
+      ...input.table,
+      rows: input.table.rows.slice(0, SAMPLE_ROWS),
+    };
+
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content: SHEET_CATALOGUE_PROMPT,
+        timestamp: Date.now(),
+      },
+      {
+        role: "user",
+        content: `Sheet "${input.table.title}" (${
+          input.table.rows.length
+        } rows, first ${sample.rows.length} shown):\n\n${sheetTableToMarkdown(
+          sample
+        )}`,
+        timestamp: Date.now(),
+      },
+    ];
+
+    // Validate messages for Anthropic provider
+    const validatedMessages = validateMessagesForAnthropic(messages);
+
+    // Use provided LLM configuration
+    const llmConfig = input.llmConfig;
+
+    // Create generation for this LLM call
+    const generation = input.trace
+      ? this.langfuseService.createGeneration(
+          input.trace,
+          "sheet-catalogue-task",
+          { messages: validatedMessages },
+          llmConfig.model
+        )
+      : null;
+
+    // Call LLM service, falling back along the task's model chain and
+    // re-prompting once if the output does not match the schema
+    let structured: StructuredCompletionResult<SheetDescription>;
+    try {
+      structured =
+        await this.llmService.createStructuredCompletion<SheetDescription>(
+          validatedMessages,
+          llmConfig,
+          DESCRIBE_SHEET_TOOL
+        );
+    } catch (error) {
+      console.error("All models failed for SheetCatalogueTask:", error);
+      // Log LLM failure to Langfuse generation
+      if (generation) {
+        generation.update({
+          metadata: {
+            llmError: {
+              message: error instanceof Error ? error.message : String(error),
+              task: "SheetCatalogueTask",
+              sheetName: input.table.title,
+              model: llmConfig.model,
+              provider: llmConfig.provider,
+              attempts: error instanceof LLMFallbackError ? error.attempts : [],
+              timestamp: new Date().toISOString(),
+            },
+          },
+        });
+      }
+      throw error;
+    }
+
+    const response = structured.response;
+    if (generation) {
+      this.langfuseService.scoreStructuredOutput(generation, structured);
+    }
+
+    const description = structured.output;
+    const result = {
+      model: response.model,
+      provider: response.provider,
+      entry: description
+        ? {
+            sheetName: input.table.title,
+            description: description.description.trim(),
+            keywords: description.keywords.map((keyword) => keyword.trim()),
+            useFor: description.useFor.map((item) => item.trim()),
+          }
+        : null,
+      usage: response.usage,
+    };
+
+    // End generation with detailed usage tracking
+    if (generation) {
+      const output = {
+        description: getCompletionContent(response),
+        valid: result.entry !== null,
+      };
+      const detailedUsage = convertToDetailedUsage(
+        result.usage,
+        response.model,
+        response.provider
+      );
+
+      if (detailedUsage) {
+        logUsageDetails("SheetCatalogueTask", detailedUsage, response.model);
+        this.langfuseService.endGenerationWithUsage(
+          generation,
+          output,
+          detailedUsage
+        );
+      } else {
+        generation.end({ output });
+      }
+    }
+
+    return result;
+  }
+}
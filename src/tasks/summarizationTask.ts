@@ -0,0 +1,150 @@
+import { LangfuseService } from "../services/langfuse";
+import { LLMService, LLMFallbackError } from "../services/llm";
+import { ChatMessage, LLMCompletionResponse, LLMProviderType } from "../types";
+import { LangfuseTraceClient } from "langfuse";
+import { TaskLLMConfig } from "../config/llmConfig";
+import { validateMessagesForAnthropic } from "../utils/messageValidator";
+import { convertToDetailedUsage, logUsageDetails } from "../utils/usageTracker";
+
+export interface SummarizationTaskInput {
+  previousSummary?: string;
+  evictedMessages: ChatMessage[]; // Oldest messages leaving the context window
+  sessionId: string;
+  llmConfig: TaskLLMConfig;
+  trace?: LangfuseTraceClient;
+}
+
+export interface SummarizationTaskOutput {
+  summary: string;
+  usage?: LLMCompletionResponse["usage"];
+  model?: string; // Model that produced the output, after any fallback
+  provider?: LLMProviderType;
+}
+
+const SUMMARIZATION_PROMPT = `You maintain the memory of a hotel assistant's conversation with a guest.
+Merge the previous summary with the messages below into one updated summary.
+
+Keep every fact the assistant may need later: the guest's name, room number, booking reference, dates,
+number of guests, requests, preferences, complaints, questions still open and anything the hotel promised.
+Drop greetings, small talk and details the guest later corrected.
+
+Write short bullet points in the language of the conversation, at most 150 words.
+Return only the summary.`;
+
+export class SummarizationTask {
+  private langfuseService: LangfuseService;
+  private llmService: LLMService;
+
+  constructor(langfuseService: LangfuseService, llmService: LLMService) {
+    this.langfuseService = langfuseService;
+    this.llmService = llmService;
+  }
+
+  private formatMessages(messages: ChatMessage[]): string {
+    return messages
+      .map(
+        (message) =>
+          `${message.role === "user" ? "Guest" : "Assistant"}: ${
+            message.content
+          }`
+      )
+      .join("\n\n");
+  }
+
+  /**
+   * Fold messages evicted from the context window into the session summary
+   * @returns The updated summary; the previous one when the model returned nothing
+   */
+  async execute(
+    input: SummarizationTaskInput
+  ): Promise<SummarizationTaskOutput> {
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content: SUMMARIZATION_PROMPT,
+        timestamp: Date.now(),
+      },
+      {
+        role: "user",
+        content: `## Previous Summary\n\n${
+          input.previousSummary || "*None*"
+        }\n\n## Messages\n\n${this.formatMessages(input.evictedMessages)}`,
+        timestamp: Date.now(),
+      },
+    ];
+
+    // Validate messages for Anthropic provider
+    const validatedMessages = validateMessagesForAnthropic(messages);
+
+    // Use provided LLM configuration
+    const llmConfig = input.llmConfig;
+
+    // Create generation for this LLM call
+    const generation = input.trace
+      ? this.langfuseService.createGeneration(
+          input.trace,
+          "summarization-task",
+          {
+            messages: validatedMessages,
+          },
+          llmConfig.model
+        )
+      : null;
+
+    // Call LLM service, falling back along the task's model chain
+    let response;
+    try {
+      response = await this.llmService.createTaskCompletion(
+        validatedMessages,
+        llmConfig
+      );
+    } catch (error) {
+      console.error("All models failed for SummarizationTask:", error);
+      // Log LLM failure to Langfuse generation
+      if (generation) {
+        generation.update({
+          metadata: {
+            llmError: {
+              message: error instanceof Error ? error.message : String(error),
+              task: "SummarizationTask",
+              model: llmConfig.model,
+              provider: llmConfig.provider,
+              attempts: error instanceof LLMFallbackError ? error.attempts : [],
+              timestamp: new Date().toISOString(),
+            },
+          },
+        });
+      }
+      throw error;
+    }
+
+    const result = {
+      model: response.model,
+      provider: response.provider,
+      summary: response.content.trim() || input.previousSummary || "",
+      usage: response.usage,
+    };
+
+    // End generation with detailed usage tracking
+    if (generation) {
+      const detailedUsage = convertToDetailedUsage(
+        result.usage,
+        response.model,
+        response.provider
+      );
+
+      if (detailedUsage) {
+        logUsageDetails("SummarizationTask", detailedUsage, response.model);
+        this.langfuseService.endGenerationWithUsage(
+          generation,
+          result.summary,
+          detailedUsage
+        );
+      } else {
+        generation.end({ output: result.summary });
+      }
+    }
+
+    return result;
+  }
+}
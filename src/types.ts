@@ -1,3 +1,5 @@
+import type { SessionCoordinator } from "./services/sessionCoordinator";
+
 export interface UTMTracking {
   utm_source?: string;
   utm_medium?: string;
@@ -25,6 +27,8 @@ export interface ChatRequest {
   buttonTitle: string;
   buttonPayload?: string;
   isUpsell: boolean;
+  stream?: boolean; // Opt-in Server-Sent Events response
+  idempotencyKey?: string; // Same for resubmissions of one message, e.g. a double-tapped button
 }
 
 export interface ChatResponse {
@@ -47,18 +51,47 @@ export interface ChatResponse {
       };
     };
   };
+  sessionToken?: string; // Bearer token the widget sends to read staff replies for this session
+}
+
+export interface SessionHandoff {
+  status: "waiting" | "answered"; // "waiting" while guest messages have no staff reply
+  requestedBy: "guest" | "staff";
+  reason: string;
+  requestedAt: string;
+  pendingMessages: number; // Guest messages since the last staff reply
+  lastGuestMessageAt?: string;
+  lastStaffReplyAt?: string;
 }
 
 export interface SessionMemory {
   messages: ChatMessage[];
+  summary?: string; // Rolling summary of messages evicted from the context window
+  expiredMessages?: ChatMessage[]; // Left the history window, kept until the next turn summarizes them
+  guestProfile?: GuestProfile;
+  handoff?: SessionHandoff; // Set while staff handle the conversation instead of the bot
+  sessionToken?: string; // Given to the guest's widget, required to read staff replies
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Guest details extracted from the conversation, updated after every turn
+ */
+export interface GuestProfile {
+  name?: string;
+  roomNumber?: string;
+  arrivalDate?: string; // YYYY-MM-DD
+  departureDate?: string; // YYYY-MM-DD
+  partySize?: number;
+  language?: string; // ISO 639-1 code
+}
+
 export interface ChatMessage {
   role: "user" | "assistant" | "system";
   content: string;
   timestamp: number;
+  staffMember?: string; // Set on replies written by hotel staff during a handoff
 }
 
 export interface LangfusePrompt {
@@ -107,10 +140,22 @@ export interface Env {
   // Configuration
   CONTEXT_WINDOW_LENGTH: string;
 
+  // Admin API
+  ADMIN_API_KEY?: string;
+
+  // Base64 AES-256 key used to encrypt tenant API keys at rest
+  TENANT_SECRETS_MASTER_KEY?: string;
+
   // KV Storage
   CHAT_SESSIONS: KVNamespace;
   TENAT_CONFIG: KVNamespace;
   TENAT_KNOWLEDGE_CACHE: KVNamespace;
+
+  // "memory" keeps sheet embeddings in the isolate instead of KV, for local testing
+  VECTOR_STORE?: string;
+
+  // Durable Objects
+  SESSION_COORDINATOR: DurableObjectNamespace<SessionCoordinator>;
 }
 
 // LLM Provider Types
@@ -121,23 +166,64 @@ export type LLMProviderType =
   | "openrouter"
   | "groq";
 
+// JSON schema describing a tool's arguments (type: "object" at the root)
+export type LLMToolParameters = {
+  type: "object";
+  properties: Record<string, unknown>;
+  required?: string[];
+};
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: LLMToolParameters;
+}
+
+export interface LLMToolCall {
+  id?: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// "required" forces any tool call, { name } forces a specific tool
+export type LLMToolChoice = "auto" | "required" | { name: string };
+
 export interface LLMCompletionOptions {
   model?: string;
   temperature?: number;
   maxTokens?: number;
   stream?: boolean;
+  onToken?: (token: string) => void; // Receives content deltas when stream is enabled
+  signal?: AbortSignal; // Aborts the request, used for per-call deadlines
+  tools?: LLMToolDefinition[]; // Not supported together with stream
+  toolChoice?: LLMToolChoice;
 }
 
 export interface LLMCompletionResponse {
   content: string;
   usage?: {
-    promptTokens: number;
+    promptTokens: number; // Includes cached prompt tokens
     completionTokens: number;
     totalTokens: number;
+    cachedTokens?: number; // Prompt tokens served from the provider's prompt cache
   };
   model: string;
   finishReason: string | null;
   provider: LLMProviderType;
+  toolCalls?: LLMToolCall[]; // Set when the model called one of the given tools
+}
+
+export interface LLMEmbeddingOptions {
+  model: string;
+  dimensions?: number; // Shortened vectors, for models that support it
+  signal?: AbortSignal;
+}
+
+export interface LLMEmbeddingResponse {
+  embeddings: number[][]; // One vector per input, in input order
+  usage?: LLMCompletionResponse["usage"];
+  model: string;
+  provider: LLMProviderType;
 }
 
 export interface LLMProvider {
@@ -146,15 +232,26 @@ export interface LLMProvider {
     messages: ChatMessage[],
     options?: LLMCompletionOptions
   ): Promise<LLMCompletionResponse>;
+  // Only implemented by providers offering an embeddings API
+  createEmbeddings?(
+    texts: string[],
+    options: LLMEmbeddingOptions
+  ): Promise<LLMEmbeddingResponse>;
   isAvailable(): boolean;
-  setTenantApiKey(apiKey: string | undefined): void;
+  healthCheck(): Promise<boolean>;
+  // Hash of the endpoint and API key, identifying the account calls are made with
+  getCredentialId(): Promise<string>;
 }
 
+// API keys per provider, resolved from tenant config with environment defaults
+export type LLMApiKeys = Partial<Record<LLMProviderType, string>>;
+
 export interface LLMProviderConfig {
   provider: LLMProviderType;
   model: string;
   temperature?: number;
   maxTokens?: number;
+  toolCalling?: boolean; // false for models without tool support - they answer in plain text
 }
 
 export interface DynamicButton {
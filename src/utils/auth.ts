@@ -0,0 +1,96 @@
+import { RouteContext, RouteHandler } from "../router";
+import { errorResponse } from "./http";
+import { TenantSecretField, decryptTenantSecret } from "./tenantSecrets";
+import { TenantConfigService } from "../services/tenantConfigService";
+
+/**
+ * Compare two strings in constant time to avoid leaking the secret through timing
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+
+  let mismatch = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < aBytes.length; i++) {
+    mismatch |= aBytes[i] ^ (bBytes[i % bBytes.length] ?? 0);
+  }
+  return mismatch === 0;
+}
+
+/**
+ * Extract the token from an `Authorization: Bearer <token>` header
+ */
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get("Authorization");
+  if (!header) return null;
+
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Wrap a route handler so it only runs for requests carrying one of the accepted bearer tokens
+ * @param getSecrets - Reads the accepted secrets for the request; unset secrets are ignored
+ * @param handler - The handler to protect
+ */
+export function withBearerAuth(
+  getSecrets: (
+    context: RouteContext
+  ) => Array<string | undefined> | Promise<Array<string | undefined>>,
+  handler: RouteHandler
+): RouteHandler {
+  return async (context: RouteContext) => {
+    const secrets = (await getSecrets(context)).filter(
+      (secret): secret is string => !!secret
+    );
+    if (secrets.length === 0) {
+      console.error("Authenticated endpoint called but no API key configured");
+      return errorResponse(503, "Endpoint not configured");
+    }
+
+    const token = getBearerToken(context.request);
+    if (!token || !secrets.some((secret) => timingSafeEqual(token, secret))) {
+      return errorResponse(
+        401,
+        "Unauthorized",
+        {},
+        {
+          "WWW-Authenticate": "Bearer",
+        }
+      );
+    }
+
+    return handler(context);
+  };
+}
+
+/**
+ * Protect a route with the admin API key
+ */
+export function withAdminAuth(handler: RouteHandler): RouteHandler {
+  return withBearerAuth(({ env }) => [env.ADMIN_API_KEY], handler);
+}
+
+/**
+ * Protect a tenant's route with a secret from its own config, for callers such as
+ * spreadsheet scripts or reception that should not hold the admin key; the admin key is accepted as well
+ * @param field - Tenant secret field holding the accepted token
+ * @param handler - The handler to protect
+ */
+export function withTenantSecretAuth(
+  field: TenantSecretField,
+  handler: RouteHandler
+): RouteHandler {
+  return withBearerAuth(async ({ env, params }) => {
+    const tenantConfig = await new TenantConfigService(env).getConfig(
+      params.tenantId
+    );
+    return [
+      env.ADMIN_API_KEY,
+      tenantConfig
+        ? await decryptTenantSecret(env, tenantConfig, field)
+        : undefined,
+    ];
+  }, handler);
+}
@@ -0,0 +1,25 @@
+export type ConfigDiff = Record<string, { before?: unknown; after?: unknown }>;
+
+/**
+ * Compute a field-level diff between two flat config objects
+ * @param before - Previous config (null when the config is new)
+ * @param after - Updated config
+ * @returns Only the fields whose values changed, with their previous and new values
+ */
+export function diffConfigs(
+  before: object | null,
+  after: object | null
+): ConfigDiff {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  const diff: ConfigDiff = {};
+
+  fields.forEach((field) => {
+    if (JSON.stringify(previous[field]) !== JSON.stringify(next[field])) {
+      diff[field] = { before: previous[field], after: next[field] };
+    }
+  });
+
+  return diff;
+}
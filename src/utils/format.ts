@@ -1,4 +1,29 @@
-import { SessionMemory } from "../types";
+import { GuestProfile, SessionMemory } from "../types";
+import { SheetCatalogueEntry } from "../tasks/sheetCatalogueTask";
+
+const GUEST_PROFILE_LABELS: Record<keyof GuestProfile, string> = {
+  name: "Name",
+  roomNumber: "Room number",
+  arrivalDate: "Arrival date",
+  departureDate: "Departure date",
+  partySize: "Party size",
+  language: "Language",
+};
+
+/**
+ * Formats the known guest details as a list under a heading
+ * @returns An empty string when nothing is known about the guest yet
+ */
+export function formatGuestProfile(
+  profile: GuestProfile | undefined,
+  heading = "## Guest Profile"
+): string {
+  const lines = (Object.keys(GUEST_PROFILE_LABELS) as Array<keyof GuestProfile>)
+    .filter((field) => profile?.[field] !== undefined)
+    .map((field) => `- ${GUEST_PROFILE_LABELS[field]}: ${profile?.[field]}`);
+
+  return lines.length > 0 ? `${heading}\n\n${lines.join("\n")}\n` : "";
+}
 
 /**
  * Formats conversation history into well-structured markdown for LLM
@@ -6,11 +31,24 @@ import { SessionMemory } from "../types";
 export function formatConversationHistory(
   sessionHistory: SessionMemory
 ): string {
-  if (!sessionHistory.messages || sessionHistory.messages.length === 0) {
-    return "## Conversation History\n\n*No previous messages*\n";
+  let formattedHistory = "## Conversation History\n\n";
+
+  const guestProfile = formatGuestProfile(
+    sessionHistory.guestProfile,
+    "### Known Guest Details"
+  );
+  if (guestProfile) {
+    formattedHistory += `${guestProfile}\n`;
   }
 
-  let formattedHistory = "## Conversation History\n\n";
+  if (sessionHistory.summary) {
+    formattedHistory += "### Summary of Earlier Conversation\n\n";
+    formattedHistory += `${sessionHistory.summary}\n\n`;
+  }
+
+  if (!sessionHistory.messages || sessionHistory.messages.length === 0) {
+    return `${formattedHistory}*No previous messages*\n`;
+  }
 
   // Combine messages in chronological order
   const allMessages = [...sessionHistory.messages].sort(
@@ -32,3 +70,25 @@ export function formatConversationHistory(
 
   return formattedHistory;
 }
+
+/**
+ * Formats a sheet catalogue as the excel-config guide read by the sheet matching task
+ */
+export function formatSheetCatalogue(entries: SheetCatalogueEntry[]): string {
+  const sections = entries.map((entry) =>
+    [
+      `### ${entry.sheetName}`,
+      `**Content**: ${entry.description}`,
+      `**Keywords**: ${entry.keywords.join(", ")}`,
+      "**Use for queries about**:",
+      ...entry.useFor.map((item) => `- ${item}`),
+    ].join("\n")
+  );
+
+  return [
+    "# Sheet Selection Guide",
+    "## Purpose\nThis guide helps the chatbot select the most relevant sheet(s) based on user queries.",
+    "## Available Sheets Overview",
+    ...sections,
+  ].join("\n\n");
+}
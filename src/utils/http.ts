@@ -0,0 +1,72 @@
+export function getCORSHeaders(): Headers {
+  const headers = new Headers();
+  headers.set("Content-Type", "application/json");
+  headers.set("Access-Control-Allow-Origin", "*");
+  headers.set(
+    "Access-Control-Allow-Methods",
+    "GET, POST, PUT, PATCH, DELETE, OPTIONS"
+  );
+  headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  headers.set("Access-Control-Max-Age", "86400");
+  return headers;
+}
+
+export function getSSEHeaders(): Headers {
+  const headers = getCORSHeaders();
+  headers.set("Content-Type", "text/event-stream");
+  headers.set("Cache-Control", "no-cache");
+  headers.set("Connection", "keep-alive");
+  return headers;
+}
+
+export function handleCORS(): Response {
+  return new Response(null, {
+    status: 200,
+    headers: getCORSHeaders(),
+  });
+}
+
+/**
+ * Create a JSON response with CORS headers
+ * @param body - Value serialized as the response body
+ * @param status - HTTP status code
+ * @param extraHeaders - Additional headers to set on the response
+ */
+export function jsonResponse(
+  body: unknown,
+  status: number = 200,
+  extraHeaders: Record<string, string> = {}
+): Response {
+  const headers = getCORSHeaders();
+  Object.entries(extraHeaders).forEach(([name, value]) =>
+    headers.set(name, value)
+  );
+
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+/**
+ * Create a JSON error response in the `{ error, ...details }` shape used by every endpoint
+ */
+export function errorResponse(
+  status: number,
+  error: string,
+  details: Record<string, unknown> = {},
+  extraHeaders: Record<string, string> = {}
+): Response {
+  return jsonResponse({ error, ...details }, status, extraHeaders);
+}
+
+/**
+ * Parse a JSON request body
+ * @returns The parsed value, or undefined when the body is not valid JSON
+ */
+export async function readJsonBody<T = unknown>(
+  request: Request
+): Promise<T | undefined> {
+  try {
+    return (await request.json()) as T;
+  } catch {
+    return undefined;
+  }
+}
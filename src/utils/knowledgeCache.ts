@@ -0,0 +1,55 @@
+/**
+ * A sheet's markdown as cached in TENAT_KNOWLEDGE_CACHE
+ */
+export interface CachedSheetData {
+  data: string;
+  timestamp: number; // When the data was written
+  tenantId: string;
+  sheetName: string;
+  contentHash?: string; // Hash of data, missing on records written before change detection
+}
+
+/**
+ * What the scheduled knowledge sync last saw of a tenant's sheets
+ */
+export interface KnowledgeSyncState {
+  tenantId: string;
+  syncedAt: number;
+  sheets: Record<
+    string,
+    {
+      contentHash: string;
+      checkedAt: number; // When the source last matched this hash
+    }
+  >;
+}
+
+/**
+ * Sheet entries are keyed by the bare tenant ID; the other records in
+ * TENAT_KNOWLEDGE_CACHE use prefixes that isValidTenantId rejects as tenant IDs
+ */
+export function getSheetCacheKey(tenantId: string, sheetName: string): string {
+  return `${tenantId}:${sheetName}`;
+}
+
+export function getSyncStateKey(tenantId: string): string {
+  return `sync:${tenantId}`;
+}
+
+/**
+ * Whether the sync confirmed a cached sheet against its source recently enough
+ * to keep serving it, even when the cached record itself is older
+ */
+export function isVerifiedBySync(
+  syncState: KnowledgeSyncState | null,
+  sheetName: string,
+  contentHash: string,
+  maxAgeMs: number
+): boolean {
+  const sheet = syncState?.sheets[sheetName];
+  return (
+    !!sheet &&
+    sheet.contentHash === contentHash &&
+    Date.now() - sheet.checkedAt <= maxAgeMs
+  );
+}
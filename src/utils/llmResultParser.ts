@@ -1,3 +1,5 @@
+import { LLMCompletionResponse } from "../types";
+
 /**
  * Extracts the model name from provider/model format for Langfuse compatibility
  * OpenRouter models have format "provider/model-name" but Langfuse expects just "model-name"
@@ -186,3 +188,41 @@ export function parseLLMResult<T>(
     return fallback;
   }
 }
+
+/**
+ * Read structured output from a tool call, falling back to JSON in the text content
+ * for models that answered without calling the tool
+ * @param response - The LLM response
+ * @param toolName - The tool the model was asked to call
+ * @param fallback - Default value, also fills fields missing from the tool arguments
+ * @param onError - Optional callback for handling text parsing errors
+ * @returns Tool arguments, parsed JSON content or fallback value
+ */
+export function parseToolCallResult<T>(
+  response: Pick<LLMCompletionResponse, "content" | "toolCalls">,
+  toolName: string,
+  fallback: T,
+  onError?: (error: Error, content: string) => void
+): T {
+  const toolCall = response.toolCalls?.find((call) => call.name === toolName);
+  if (toolCall) {
+    return { ...fallback, ...toolCall.arguments } as T;
+  }
+
+  return parseLLMResult<T>(response.content, fallback, onError);
+}
+
+/**
+ * Text of an LLM response; tool calls carry no text, so their arguments are used instead
+ * @param response - The LLM response
+ * @returns Content suitable for logging and tracing
+ */
+export function getCompletionContent(
+  response: Pick<LLMCompletionResponse, "content" | "toolCalls">
+): string {
+  if (response.content || !response.toolCalls?.length) {
+    return response.content;
+  }
+
+  return JSON.stringify(response.toolCalls[0].arguments);
+}
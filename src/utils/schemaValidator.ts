@@ -0,0 +1,127 @@
+export interface SchemaValidationError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Subset of JSON schema used to describe structured LLM outputs
+ */
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  minLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: JsonSchema["type"]): boolean {
+  switch (type) {
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "string":
+    case "boolean":
+      return typeof value === type;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Validate a value against a JSON schema
+ * @param value - The value to check, e.g. parsed tool call arguments
+ * @param schema - The schema it must satisfy
+ * @param path - Path of the value, used to prefix error paths
+ * @returns Every violation found; empty when the value is valid
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = "$"
+): SchemaValidationError[] {
+  if (!matchesType(value, schema.type)) {
+    return [
+      { path, message: `Expected ${schema.type}, got ${describeType(value)}` },
+    ];
+  }
+
+  const errors: SchemaValidationError[] = [];
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({
+      path,
+      message: `Must be one of ${schema.enum
+        .map((option) => JSON.stringify(option))
+        .join(", ")}`,
+    });
+  }
+
+  if (
+    typeof value === "string" &&
+    schema.minLength !== undefined &&
+    value.trim().length < schema.minLength
+  ) {
+    errors.push({
+      path,
+      message: `Must be at least ${schema.minLength} character(s)`,
+    });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({
+        path,
+        message: `Must contain at least ${schema.minItems} item(s)`,
+      });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({
+        path,
+        message: `Must contain at most ${schema.maxItems} item(s)`,
+      });
+    }
+    if (schema.items) {
+      const itemSchema = schema.items;
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(item, itemSchema, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (schema.type === "object") {
+    const record = value as Record<string, unknown>;
+
+    (schema.required || []).forEach((field) => {
+      if (record[field] === undefined || record[field] === null) {
+        errors.push({ path: `${path}.${field}`, message: "Required" });
+      }
+    });
+
+    Object.entries(schema.properties || {}).forEach(([field, fieldSchema]) => {
+      if (record[field] !== undefined && record[field] !== null) {
+        errors.push(
+          ...validateSchema(record[field], fieldSchema, `${path}.${field}`)
+        );
+      }
+    });
+  }
+
+  return errors;
+}
@@ -0,0 +1,78 @@
+import { SheetTable } from "../services/knowledge";
+
+export interface SheetChunk {
+  id: string; // "{sheetName}#{rowNumber}", stable while rows keep their order
+  sheetName: string;
+  rowNumber: number; // 1-based, excluding the header row
+  text: string;
+  tokens: number;
+}
+
+/**
+ * Rough token count for budgeting prompt context, about four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split a sheet into one chunk per non-empty row. Each chunk repeats the sheet name
+ * and column headers, so a row can be embedded and shown without the rest of the table.
+ * @returns Chunks in row order
+ */
+export function chunkSheetRows(table: SheetTable): SheetChunk[] {
+  const chunks: SheetChunk[] = [];
+  table.rows.forEach((row, index) => {
+    const cells = table.headers
+      .map((header, column) => ({ header, value: row[column] }))
+      .filter(({ value }) => value);
+    if (cells.length === 0) return;
+
+    const text = `${table.title}: ${cells
+      .map(({ header, value }) => `${header}: ${value}`)
+      .join("; ")}`;
+    chunks.push({
+      id: `${table.title}#${index + 1}`,
+      sheetName: table.title,
+      rowNumber: index + 1,
+      text,
+      tokens: estimateTokens(text),
+    });
+  });
+  return chunks;
+}
+
+/**
+ * Cosine similarity of two vectors of the same length, 0 when either is all zeros
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Hex SHA-256 of a text, used to tell whether content changed
+ */
+export async function hashContent(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * Fingerprint of a sheet's content, used to skip re-embedding unchanged sheets
+ */
+export async function hashSheetTable(table: SheetTable): Promise<string> {
+  return hashContent(JSON.stringify([table.headers, table.rows]));
+}
@@ -0,0 +1,546 @@
+import { TenantConfig } from "../tasks/dataCollectionTask";
+import { SheetCatalogueEntry } from "../tasks/sheetCatalogueTask";
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface TenantConfigValidationResult {
+  config: TenantConfig | null;
+  errors: FieldError[];
+}
+
+const REQUIRED_STRING_FIELDS = [
+  "general-prompt-config",
+  "buttons-prompt-config",
+  "email-prompt-config",
+  "excel-config",
+] as const;
+
+export const TENANT_API_KEY_FIELDS = [
+  "openai-api-key",
+  "openrouter-api-key",
+  "google-ai-api-key",
+  "anthropic-api-key",
+  "groq-api-key",
+  "knowledge-source-api-key",
+  "knowledge-webhook-secret",
+  "staff-api-key",
+] as const;
+
+const KNOWN_FIELDS = new Set<string>([
+  "spreadsheetId",
+  ...REQUIRED_STRING_FIELDS,
+  ...TENANT_API_KEY_FIELDS,
+  "emailTo",
+  "budget",
+  "session",
+  "handoff",
+  "retrieval",
+  "knowledgeSource",
+]);
+
+const BUDGET_FIELDS = new Set<string>([
+  "daily",
+  "monthly",
+  "alertEmailTo",
+  "limitReachedMessage",
+]);
+const BUDGET_PERIODS = ["daily", "monthly"] as const;
+const BUDGET_METRICS = ["costUsd", "tokens"] as const;
+
+const HANDOFF_MESSAGE_FIELDS = ["handoffMessage", "queuedMessage"] as const;
+const HANDOFF_FIELDS = new Set<string>([
+  "autoDetect",
+  ...HANDOFF_MESSAGE_FIELDS,
+  "notifyEmailTo",
+]);
+
+const SESSION_LIMITS = {
+  historyWindowHours: { min: 0.25, max: 24 * 30 },
+  retentionHours: { min: 1, max: 24 * 365 },
+  contextWindowLength: { min: 2, max: 100 },
+} as const;
+
+const RETRIEVAL_LIMITS = {
+  topK: { min: 1, max: 100 },
+  maxTokens: { min: 100, max: 20000 },
+} as const;
+
+const KNOWLEDGE_SOURCE_FIELDS: Record<string, Set<string>> = {
+  "google-sheets": new Set(["type"]),
+  upload: new Set(["type"]),
+  "http-json": new Set(["type", "url", "timeoutMs"]),
+};
+const MAX_KNOWLEDGE_SOURCE_TIMEOUT_MS = 30000;
+
+const TENANT_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+// Prefixes of TENAT_KNOWLEDGE_CACHE records, which also holds sheets under `${tenantId}:`
+export const RESERVED_TENANT_IDS = new Set([
+  "sync",
+  "sync-run",
+  "vectors",
+  "google-token",
+]);
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Tenant IDs become KV keys, so they are limited to a safe character set.
+ * Colons and the reserved IDs are kept for internal key prefixes.
+ */
+export function isValidTenantId(tenantId: string): boolean {
+  return TENANT_ID_PATTERN.test(tenantId) && !RESERVED_TENANT_IDS.has(tenantId);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function validateEmailList(
+  value: unknown,
+  field: string,
+  errors: FieldError[]
+): void {
+  if (!Array.isArray(value)) {
+    errors.push({ field, message: "Must be an array of email addresses" });
+    return;
+  }
+
+  value.forEach((email, index) => {
+    if (typeof email !== "string" || !EMAIL_PATTERN.test(email)) {
+      errors.push({
+        field: `${field}[${index}]`,
+        message: "Invalid email address",
+      });
+    }
+  });
+}
+
+function validateBudget(value: unknown, errors: FieldError[]): void {
+  if (!isPlainObject(value)) {
+    errors.push({ field: "budget", message: "Must be an object" });
+    return;
+  }
+
+  Object.keys(value).forEach((field) => {
+    if (!BUDGET_FIELDS.has(field)) {
+      errors.push({ field: `budget.${field}`, message: "Unknown field" });
+    }
+  });
+
+  BUDGET_PERIODS.forEach((period) => {
+    const limits = value[period];
+    if (limits === undefined) return;
+    if (!isPlainObject(limits)) {
+      errors.push({ field: `budget.${period}`, message: "Must be an object" });
+      return;
+    }
+
+    Object.keys(limits).forEach((metric) => {
+      if (!(BUDGET_METRICS as readonly string[]).includes(metric)) {
+        errors.push({
+          field: `budget.${period}.${metric}`,
+          message: "Unknown field",
+        });
+      }
+    });
+
+    BUDGET_METRICS.forEach((metric) => {
+      const limit = limits[metric];
+      const field = `budget.${period}.${metric}`;
+      if (limit === undefined) return;
+      if (!isPlainObject(limit)) {
+        errors.push({
+          field,
+          message: "Must be an object with soft and/or hard",
+        });
+        return;
+      }
+
+      Object.entries(limit).forEach(([level, amount]) => {
+        if (level !== "soft" && level !== "hard") {
+          errors.push({ field: `${field}.${level}`, message: "Unknown field" });
+        } else if (
+          typeof amount !== "number" ||
+          !Number.isFinite(amount) ||
+          amount <= 0
+        ) {
+          errors.push({
+            field: `${field}.${level}`,
+            message: "Must be a positive number",
+          });
+        }
+      });
+
+      if (
+        typeof limit.soft === "number" &&
+        typeof limit.hard === "number" &&
+        limit.soft > limit.hard
+      ) {
+        errors.push({
+          field: `${field}.soft`,
+          message: "Must not be greater than the hard limit",
+        });
+      }
+    });
+  });
+
+  if (value.alertEmailTo !== undefined) {
+    validateEmailList(value.alertEmailTo, "budget.alertEmailTo", errors);
+  }
+
+  if (
+    value.limitReachedMessage !== undefined &&
+    (typeof value.limitReachedMessage !== "string" ||
+      value.limitReachedMessage.trim().length === 0)
+  ) {
+    errors.push({
+      field: "budget.limitReachedMessage",
+      message: "Must be a non-empty string when set",
+    });
+  }
+}
+
+function validateSessionSettings(value: unknown, errors: FieldError[]): void {
+  if (!isPlainObject(value)) {
+    errors.push({ field: "session", message: "Must be an object" });
+    return;
+  }
+
+  Object.keys(value).forEach((field) => {
+    if (!(field in SESSION_LIMITS)) {
+      errors.push({ field: `session.${field}`, message: "Unknown field" });
+    }
+  });
+
+  (Object.keys(SESSION_LIMITS) as Array<keyof typeof SESSION_LIMITS>).forEach(
+    (field) => {
+      const setting = value[field];
+      const { min, max } = SESSION_LIMITS[field];
+      if (setting === undefined) return;
+      if (
+        typeof setting !== "number" ||
+        !Number.isFinite(setting) ||
+        setting < min ||
+        setting > max ||
+        (field === "contextWindowLength" && !Number.isInteger(setting))
+      ) {
+        errors.push({
+          field: `session.${field}`,
+          message: `Must be ${
+            field === "contextWindowLength" ? "an integer" : "a number"
+          } from ${min} to ${max}`,
+        });
+      }
+    }
+  );
+
+  // Messages deleted before they leave the history window would make the window meaningless
+  if (
+    typeof value.historyWindowHours === "number" &&
+    typeof value.retentionHours === "number" &&
+    value.retentionHours < value.historyWindowHours
+  ) {
+    errors.push({
+      field: "session.retentionHours",
+      message: "Must not be shorter than historyWindowHours",
+    });
+  }
+}
+
+function validateHandoffSettings(value: unknown, errors: FieldError[]): void {
+  if (!isPlainObject(value)) {
+    errors.push({ field: "handoff", message: "Must be an object" });
+    return;
+  }
+
+  Object.keys(value).forEach((field) => {
+    if (!HANDOFF_FIELDS.has(field)) {
+      errors.push({ field: `handoff.${field}`, message: "Unknown field" });
+    }
+  });
+
+  if (value.autoDetect !== undefined && typeof value.autoDetect !== "boolean") {
+    errors.push({ field: "handoff.autoDetect", message: "Must be a boolean" });
+  }
+
+  HANDOFF_MESSAGE_FIELDS.forEach((field) => {
+    const message = value[field];
+    if (
+      message !== undefined &&
+      (typeof message !== "string" || message.trim().length === 0)
+    ) {
+      errors.push({
+        field: `handoff.${field}`,
+        message: "Must be a non-empty string when set",
+      });
+    }
+  });
+
+  if (value.notifyEmailTo !== undefined) {
+    validateEmailList(value.notifyEmailTo, "handoff.notifyEmailTo", errors);
+  }
+}
+
+function validateRetrievalSettings(value: unknown, errors: FieldError[]): void {
+  if (!isPlainObject(value)) {
+    errors.push({ field: "retrieval", message: "Must be an object" });
+    return;
+  }
+
+  Object.keys(value).forEach((field) => {
+    if (field !== "enabled" && !(field in RETRIEVAL_LIMITS)) {
+      errors.push({ field: `retrieval.${field}`, message: "Unknown field" });
+    }
+  });
+
+  if (value.enabled !== undefined && typeof value.enabled !== "boolean") {
+    errors.push({ field: "retrieval.enabled", message: "Must be a boolean" });
+  }
+
+  (
+    Object.keys(RETRIEVAL_LIMITS) as Array<keyof typeof RETRIEVAL_LIMITS>
+  ).forEach((field) => {
+    const setting = value[field];
+    const { min, max } = RETRIEVAL_LIMITS[field];
+    if (setting === undefined) return;
+    if (
+      typeof setting !== "number" ||
+      !Number.isInteger(setting) ||
+      setting < min ||
+      setting > max
+    ) {
+      errors.push({
+        field: `retrieval.${field}`,
+        message: `Must be an integer from ${min} to ${max}`,
+      });
+    }
+  });
+}
+
+function validateKnowledgeSource(value: unknown, errors: FieldError[]): void {
+  if (!isPlainObject(value)) {
+    errors.push({ field: "knowledgeSource", message: "Must be an object" });
+    return;
+  }
+
+  const fields =
+    typeof value.type === "string" ? KNOWLEDGE_SOURCE_FIELDS[value.type] : null;
+  if (!fields) {
+    errors.push({
+      field: "knowledgeSource.type",
+      message: `Must be one of: ${Object.keys(KNOWLEDGE_SOURCE_FIELDS).join(
+        ", "
+      )}`,
+    });
+    return;
+  }
+
+  Object.keys(value).forEach((field) => {
+    if (!fields.has(field)) {
+      errors.push({
+        field: `knowledgeSource.${field}`,
+        message: `Unknown field for type ${value.type}`,
+      });
+    }
+  });
+
+  if (value.type !== "http-json") return;
+
+  let url: URL | null = null;
+  try {
+    url = typeof value.url === "string" ? new URL(value.url) : null;
+  } catch {
+    url = null;
+  }
+  // Tenant API keys are sent to this URL, so it must be encrypted in transit
+  if (!url || url.protocol !== "https:") {
+    errors.push({
+      field: "knowledgeSource.url",
+      message: "Required https URL",
+    });
+  }
+
+  if (
+    value.timeoutMs !== undefined &&
+    (typeof value.timeoutMs !== "number" ||
+      !Number.isInteger(value.timeoutMs) ||
+      value.timeoutMs < 1000 ||
+      value.timeoutMs > MAX_KNOWLEDGE_SOURCE_TIMEOUT_MS)
+  ) {
+    errors.push({
+      field: "knowledgeSource.timeoutMs",
+      message: `Must be an integer from 1000 to ${MAX_KNOWLEDGE_SOURCE_TIMEOUT_MS}`,
+    });
+  }
+}
+
+/**
+ * Validate an untrusted value against the TenantConfig schema
+ * @param input - Parsed JSON body
+ * @returns The typed config when valid, otherwise field-level errors
+ */
+export function validateTenantConfig(
+  input: unknown
+): TenantConfigValidationResult {
+  const errors: FieldError[] = [];
+
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return {
+      config: null,
+      errors: [{ field: "", message: "Config must be a JSON object" }],
+    };
+  }
+
+  const value = input as Record<string, unknown>;
+
+  Object.keys(value).forEach((field) => {
+    if (!KNOWN_FIELDS.has(field)) {
+      errors.push({ field, message: "Unknown field" });
+    }
+  });
+
+  // Only the default Google Sheets source reads the spreadsheet
+  const usesSpreadsheet =
+    !isPlainObject(value.knowledgeSource) ||
+    value.knowledgeSource.type === "google-sheets";
+  if (
+    (usesSpreadsheet || value.spreadsheetId !== undefined) &&
+    (typeof value.spreadsheetId !== "string" ||
+      value.spreadsheetId.trim().length === 0)
+  ) {
+    errors.push({
+      field: "spreadsheetId",
+      message: usesSpreadsheet
+        ? "Required non-empty string"
+        : "Must be a non-empty string when set",
+    });
+  }
+
+  REQUIRED_STRING_FIELDS.forEach((field) => {
+    if (typeof value[field] !== "string") {
+      errors.push({ field, message: "Required string" });
+    }
+  });
+
+  TENANT_API_KEY_FIELDS.forEach((field) => {
+    const apiKey = value[field];
+    if (
+      apiKey !== undefined &&
+      (typeof apiKey !== "string" || apiKey.trim().length === 0)
+    ) {
+      errors.push({ field, message: "Must be a non-empty string when set" });
+    }
+  });
+
+  if (value.emailTo !== undefined) {
+    validateEmailList(value.emailTo, "emailTo", errors);
+  }
+
+  if (value.budget !== undefined) {
+    validateBudget(value.budget, errors);
+  }
+
+  if (value.session !== undefined) {
+    validateSessionSettings(value.session, errors);
+  }
+
+  if (value.handoff !== undefined) {
+    validateHandoffSettings(value.handoff, errors);
+  }
+
+  if (value.retrieval !== undefined) {
+    validateRetrievalSettings(value.retrieval, errors);
+  }
+
+  if (value.knowledgeSource !== undefined) {
+    validateKnowledgeSource(value.knowledgeSource, errors);
+  }
+
+  return {
+    config: errors.length === 0 ? (value as unknown as TenantConfig) : null,
+    errors,
+  };
+}
+
+/**
+ * Validate reviewed sheet catalogue entries before they replace a draft
+ * @param input - Parsed `sheets` array from the request body
+ * @returns The typed entries when valid, otherwise field-level errors
+ */
+export function validateCatalogueSheets(input: unknown): {
+  sheets: SheetCatalogueEntry[] | null;
+  errors: FieldError[];
+} {
+  if (!Array.isArray(input) || input.length === 0) {
+    return {
+      sheets: null,
+      errors: [{ field: "sheets", message: "Must be a non-empty array" }],
+    };
+  }
+
+  const errors: FieldError[] = [];
+  const sheetNames = new Set<string>();
+  input.forEach((entry, index) => {
+    const field = `sheets[${index}]`;
+    if (!isPlainObject(entry)) {
+      errors.push({ field, message: "Must be an object" });
+      return;
+    }
+
+    Object.keys(entry).forEach((key) => {
+      if (!["sheetName", "description", "keywords", "useFor"].includes(key)) {
+        errors.push({ field: `${field}.${key}`, message: "Unknown field" });
+      }
+    });
+
+    if (
+      typeof entry.sheetName !== "string" ||
+      entry.sheetName.trim().length === 0
+    ) {
+      errors.push({
+        field: `${field}.sheetName`,
+        message: "Required non-empty string",
+      });
+    } else if (sheetNames.has(entry.sheetName)) {
+      errors.push({
+        field: `${field}.sheetName`,
+        message: "Sheet listed more than once",
+      });
+    } else {
+      sheetNames.add(entry.sheetName);
+    }
+
+    if (
+      typeof entry.description !== "string" ||
+      entry.description.trim().length === 0
+    ) {
+      errors.push({
+        field: `${field}.description`,
+        message: "Required non-empty string",
+      });
+    }
+
+    (["keywords", "useFor"] as const).forEach((list) => {
+      const items = entry[list];
+      if (
+        !Array.isArray(items) ||
+        items.length === 0 ||
+        items.some(
+          (item) => typeof item !== "string" || item.trim().length === 0
+        )
+      ) {
+        errors.push({
+          field: `${field}.${list}`,
+          message: "Must be a non-empty array of non-empty strings",
+        });
+      }
+    });
+  });
+
+  return {
+    sheets: errors.length === 0 ? (input as SheetCatalogueEntry[]) : null,
+    errors,
+  };
+}
@@ -0,0 +1,193 @@
+import { Env } from "../types";
+import { TenantConfig } from "../tasks/dataCollectionTask";
+import { ConfigDiff } from "./configDiff";
+import { TENANT_API_KEY_FIELDS } from "./tenantConfigValidator";
+
+export type TenantSecretField = (typeof TENANT_API_KEY_FIELDS)[number];
+
+export const REDACTED_SECRET = "[REDACTED]";
+
+// enc:v1:<base64 IV>:<base64 AES-GCM ciphertext>
+const ENCRYPTED_PREFIX = "enc:v1:";
+const IV_LENGTH = 12;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+export function isTenantSecretField(field: string): field is TenantSecretField {
+  return (TENANT_API_KEY_FIELDS as readonly string[]).includes(field);
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Import the Worker-held master key (base64-encoded 256-bit AES key)
+ * @param masterKey - Value of TENANT_SECRETS_MASTER_KEY
+ */
+export async function importMasterKey(masterKey: string): Promise<CryptoKey> {
+  const keyBytes = fromBase64(masterKey.trim());
+  if (keyBytes.length !== 32) {
+    throw new Error("TENANT_SECRETS_MASTER_KEY must be a base64 256-bit key");
+  }
+
+  return crypto.subtle.importKey("raw", keyBytes, { name: "AES-GCM" }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+export async function encryptSecret(
+  value: string,
+  key: CryptoKey
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(value)
+  );
+
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(
+    new Uint8Array(ciphertext)
+  )}`;
+}
+
+/**
+ * Decrypt a stored secret. Values without the encrypted prefix predate
+ * encryption and are returned unchanged.
+ */
+export async function decryptSecret(
+  value: string,
+  key: CryptoKey | null
+): Promise<string> {
+  if (!isEncryptedSecret(value)) {
+    return value;
+  }
+  if (!key) {
+    throw new Error("Encrypted secret found but no master key is configured");
+  }
+
+  const [iv, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(":");
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    key,
+    fromBase64(ciphertext)
+  );
+
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Decrypt one secret of a tenant config with the Worker's master key
+ * @returns The secret, or undefined when none is set or it cannot be decrypted
+ */
+export async function decryptTenantSecret(
+  env: Env,
+  config: TenantConfig,
+  field: TenantSecretField
+): Promise<string | undefined> {
+  const value = config[field];
+  if (!value) return undefined;
+
+  try {
+    const masterKey = env.TENANT_SECRETS_MASTER_KEY
+      ? await importMasterKey(env.TENANT_SECRETS_MASTER_KEY)
+      : null;
+    return await decryptSecret(value, masterKey);
+  } catch (error) {
+    console.error(
+      `Failed to decrypt tenant ${field}:`,
+      error instanceof Error ? error.message : "Unknown error"
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a config carries secrets that still need encrypting
+ */
+export function hasPlaintextSecrets(config: TenantConfig): boolean {
+  return TENANT_API_KEY_FIELDS.some((field) => {
+    const value = config[field];
+    return !!value && !isEncryptedSecret(value);
+  });
+}
+
+/**
+ * Encrypt every plaintext API key in a tenant config; encrypted values are kept as they are
+ * @param config - Config about to be written to KV
+ * @param masterKey - Value of TENANT_SECRETS_MASTER_KEY
+ */
+export async function encryptTenantSecrets(
+  config: TenantConfig,
+  masterKey: string | undefined
+): Promise<TenantConfig> {
+  if (!hasPlaintextSecrets(config)) {
+    return config;
+  }
+  if (!masterKey) {
+    throw new Error(
+      "TENANT_SECRETS_MASTER_KEY is not configured - refusing to store tenant API keys in plaintext"
+    );
+  }
+
+  const key = await importMasterKey(masterKey);
+  const encrypted: TenantConfig = { ...config };
+  for (const field of TENANT_API_KEY_FIELDS) {
+    const value = config[field];
+    if (value && !isEncryptedSecret(value)) {
+      encrypted[field] = await encryptSecret(value, key);
+    }
+  }
+
+  return encrypted;
+}
+
+/**
+ * Replace every API key with a placeholder so the config is safe to trace, log or return
+ */
+export function redactTenantConfig(config: TenantConfig): TenantConfig;
+export function redactTenantConfig(
+  config: TenantConfig | null
+): TenantConfig | null;
+export function redactTenantConfig(
+  config: TenantConfig | null
+): TenantConfig | null {
+  if (!config) return null;
+
+  const redacted: TenantConfig = { ...config };
+  TENANT_API_KEY_FIELDS.forEach((field) => {
+    if (redacted[field]) {
+      redacted[field] = REDACTED_SECRET;
+    }
+  });
+  return redacted;
+}
+
+/**
+ * Redact API key values in a config diff while keeping which keys changed
+ */
+export function redactConfigDiff(diff: ConfigDiff): ConfigDiff {
+  return Object.fromEntries(
+    Object.entries(diff).map(([field, change]) => [
+      field,
+      isTenantSecretField(field)
+        ? {
+            before: change.before ? REDACTED_SECRET : change.before,
+            after: change.after ? REDACTED_SECRET : change.after,
+          }
+        : change,
+    ])
+  );
+}
@@ -1,4 +1,5 @@
-import { LLMProviderType } from "../types";
+import { LLMCompletionResponse, LLMProviderType } from "../types";
+import { getModelPrice } from "../config/modelPricing";
 
 export interface DetailedUsage {
   input: number;
@@ -8,8 +9,65 @@ export interface DetailedUsage {
   [key: string]: number | undefined;
 }
 
+// Cost in USD, split the same way Langfuse expects costDetails
+export interface CostBreakdown {
+  input: number;
+  cache_read_input_tokens?: number;
+  output: number;
+  total: number;
+}
+
 export interface LangfuseUsageDetails {
   usageDetails: DetailedUsage;
+  costDetails?: CostBreakdown;
+}
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+// Warn once per unpriced model rather than on every request
+const unpricedModels = new Set<string>();
+
+/**
+ * Calculate the cost of a completion from the model price table
+ * @param usage - Token usage reported by the provider
+ * @param model - Model that served the request
+ * @param provider - Provider that served the request
+ * @returns Cost in USD, or null when the model has no known price
+ */
+export function calculateCost(
+  usage: LLMCompletionResponse["usage"],
+  model: string,
+  provider: LLMProviderType
+): CostBreakdown | null {
+  if (!usage) return null;
+
+  const price = getModelPrice(provider, model);
+  if (!price) {
+    const key = `${provider}/${model}`;
+    if (!unpricedModels.has(key)) {
+      unpricedModels.add(key);
+      console.warn(`No price configured for ${key}, cost not tracked`);
+    }
+    return null;
+  }
+
+  // Providers count cached tokens as part of the prompt
+  const cachedTokens = Math.min(usage.cachedTokens || 0, usage.promptTokens);
+  const input =
+    ((usage.promptTokens - cachedTokens) * price.prompt) /
+    TOKENS_PER_PRICE_UNIT;
+  const cached =
+    (cachedTokens * (price.cachedPrompt ?? price.prompt)) /
+    TOKENS_PER_PRICE_UNIT;
+  const output =
+    (usage.completionTokens * price.completion) / TOKENS_PER_PRICE_UNIT;
+
+  return {
+    input,
+    ...(cachedTokens > 0 && { cache_read_input_tokens: cached }),
+    output,
+    total: input + cached + output,
+  };
 }
 
 /**
@@ -44,28 +102,26 @@ export function createUsageDetails(
  * Convert simple usage to detailed usage format
  */
 export function convertToDetailedUsage(
-  usage:
-    | {
-        promptTokens: number;
-        completionTokens: number;
-        totalTokens: number;
-      }
-    | undefined,
+  usage: LLMCompletionResponse["usage"],
   model: string,
-  provider: LLMProviderType,
-  cacheReadTokens: number = 0
+  provider: LLMProviderType
 ): LangfuseUsageDetails | undefined {
   if (!usage) {
     return undefined;
   }
 
-  return createUsageDetails(
-    usage.promptTokens,
+  // Langfuse counts cache reads separately from input tokens
+  const cacheReadTokens = usage.cachedTokens || 0;
+  const details = createUsageDetails(
+    usage.promptTokens - cacheReadTokens,
     usage.completionTokens,
     model,
     provider,
     cacheReadTokens
   );
+
+  const cost = calculateCost(usage, model, provider);
+  return cost ? { ...details, costDetails: cost } : details;
 }
 
 /**
@@ -78,5 +134,6 @@ export function logUsageDetails(
 ): void {
   console.log(`[${taskName}] Usage for ${model}:`, {
     tokens: usage.usageDetails,
+    costUsd: usage.costDetails?.total,
   });
 }
@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { OpenAIProvider } from "../src/services/llm";
+import { getCircuitBreaker } from "../src/services/llm/resilience";
+import { LLM_RESILIENCE_CONFIG } from "../src/config/llmConfig";
+
+describe("circuit breakers", () => {
+  it("opens only for the credential that keeps failing", async () => {
+    const failing = new OpenAIProvider("breaker-key-a");
+    const healthy = new OpenAIProvider("breaker-key-b");
+
+    const failingBreaker = getCircuitBreaker(
+      "openai",
+      await failing.getCredentialId(),
+      LLM_RESILIENCE_CONFIG
+    );
+    for (
+      let failure = 0;
+      failure < LLM_RESILIENCE_CONFIG.circuitBreaker.failureThreshold;
+      failure++
+    ) {
+      failingBreaker.recordFailure();
+    }
+
+    const healthyBreaker = getCircuitBreaker(
+      "openai",
+      await healthy.getCredentialId(),
+      LLM_RESILIENCE_CONFIG
+    );
+    assert.equal(failingBreaker.canRequest(), false);
+    assert.equal(healthyBreaker.canRequest(), true);
+  });
+
+  it("shares a breaker between provider instances with the same key", async () => {
+    const first = new OpenAIProvider("breaker-key-c");
+    const second = new OpenAIProvider("breaker-key-c");
+
+    assert.equal(await first.getCredentialId(), await second.getCredentialId());
+    assert.strictEqual(
+      getCircuitBreaker(
+        "openai",
+        await first.getCredentialId(),
+        LLM_RESILIENCE_CONFIG
+      ),
+      getCircuitBreaker(
+        "openai",
+        await second.getCredentialId(),
+        LLM_RESILIENCE_CONFIG
+      )
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Env } from "../src/types";
+import { GoogleSheets } from "../src/services/googleSheets";
+
+const SHEETS = ["Rooms", "Spa"];
+
+const originalFetch = globalThis.fetch;
+const originalGetAccessToken = (GoogleSheets.prototype as any).getAccessToken;
+
+let requestedRanges: string[][] = [];
+
+// Answers like the Sheets API: values:batchGet fails as a whole on an unknown sheet
+async function fakeSheetsApi(input: RequestInfo | URL): Promise<Response> {
+  const url = new URL(String(input));
+  if (!url.pathname.endsWith("/values:batchGet")) {
+    return Response.json({
+      sheets: SHEETS.map((title) => ({ properties: { title } })),
+    });
+  }
+
+  const ranges = url.searchParams
+    .getAll("ranges")
+    .map((range) => range.slice(1, -1));
+  requestedRanges.push(ranges);
+  const missing = ranges.find((range) => !SHEETS.includes(range));
+  if (missing) {
+    return Response.json(
+      { error: { message: `Unable to parse range: '${missing}'` } },
+      { status: 400 }
+    );
+  }
+  return Response.json({
+    valueRanges: ranges.map((range) => ({
+      values: [["Name"], [`${range} row`]],
+    })),
+  });
+}
+
+describe("Google Sheets batch reads", () => {
+  beforeEach(() => {
+    requestedRanges = [];
+    globalThis.fetch = fakeSheetsApi as typeof fetch;
+    (GoogleSheets.prototype as any).getAccessToken = async () => "token";
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    (GoogleSheets.prototype as any).getAccessToken = originalGetAccessToken;
+  });
+
+  it("leaves a missing sheet out instead of failing the batch", async () => {
+    const sheets = new GoogleSheets({} as Env, "spreadsheet");
+
+    const result = await sheets.batchGetSheetTables("spreadsheet", [
+      "Rooms",
+      "Deleted",
+      "Spa",
+    ]);
+
+    assert.equal(result.status, "fetched");
+    assert.deepEqual(
+      result.status === "fetched" ? result.value.map((t) => t.rows) : [],
+      [[["Rooms row"]], [["Spa row"]]]
+    );
+    assert.deepEqual(requestedRanges, [
+      ["Rooms", "Deleted", "Spa"],
+      ["Rooms", "Spa"],
+    ]);
+  });
+
+  it("reads existing sheets with a single request", async () => {
+    const sheets = new GoogleSheets({} as Env, "spreadsheet");
+
+    const result = await sheets.batchGetSheetTables("spreadsheet", SHEETS);
+
+    assert.equal(result.status, "fetched");
+    assert.deepEqual(requestedRanges, [SHEETS]);
+  });
+});
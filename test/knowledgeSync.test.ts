@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Env } from "../src/types";
+import { GoogleSheets } from "../src/services/googleSheets";
+import { KnowledgeSyncService } from "../src/services/knowledgeSyncService";
+
+// Just enough of KVNamespace for the sync service
+function createKV(initial: Record<string, string> = {}) {
+  const store = new Map<string, string>(Object.entries(initial));
+  const kv = {
+    async get(key: string, type?: string) {
+      const value = store.get(key) ?? null;
+      return value !== null && type === "json" ? JSON.parse(value) : value;
+    },
+    async getWithMetadata(key: string) {
+      return { value: store.get(key) ?? null, metadata: null };
+    },
+    async put(key: string, value: string) {
+      store.set(key, value);
+    },
+    async delete(key: string) {
+      store.delete(key);
+    },
+    async list({ prefix = "" }: { prefix?: string } = {}) {
+      return {
+        keys: [...store.keys()]
+          .filter((name) => name.startsWith(prefix))
+          .map((name) => ({ name })),
+        list_complete: true,
+      };
+    },
+  };
+  return { kv: kv as unknown as KVNamespace, store };
+}
+
+const tenantConfig = JSON.stringify({
+  spreadsheetId: "spreadsheet",
+  "general-prompt-config": "",
+  "buttons-prompt-config": "",
+  "email-prompt-config": "",
+  "excel-config": "",
+});
+
+const originalListSheetNames = GoogleSheets.prototype.listSheetNames;
+const originalFetchSheetMarkdowns = GoogleSheets.prototype.fetchSheetMarkdowns;
+const originalGetSheetMarkdown = GoogleSheets.prototype.getSheetMarkdown;
+
+let batchRequests: string[][] = [];
+let singleRequests: string[] = [];
+
+describe("knowledge sync", () => {
+  beforeEach(() => {
+    batchRequests = [];
+    singleRequests = [];
+    GoogleSheets.prototype.listSheetNames = async () => ["Rooms", "Spa"];
+    GoogleSheets.prototype.fetchSheetMarkdowns = async (sheetNames) => {
+      batchRequests.push(sheetNames);
+      return {
+        status: "fetched",
+        value: new Map(sheetNames.map((name) => [name, `## ${name}`])),
+      };
+    };
+    GoogleSheets.prototype.getSheetMarkdown = async (sheetName) => {
+      singleRequests.push(sheetName);
+      return `## ${sheetName}`;
+    };
+  });
+
+  afterEach(() => {
+    GoogleSheets.prototype.listSheetNames = originalListSheetNames;
+    GoogleSheets.prototype.fetchSheetMarkdowns = originalFetchSheetMarkdowns;
+    GoogleSheets.prototype.getSheetMarkdown = originalGetSheetMarkdown;
+  });
+
+  it("reads a tenant's sheets with one batch request", async () => {
+    const { kv: configKv } = createKV({ "hotel-a": tenantConfig });
+    const { kv: cacheKv, store } = createKV();
+    const service = new KnowledgeSyncService({
+      TENAT_CONFIG: configKv,
+      TENAT_KNOWLEDGE_CACHE: cacheKv,
+      VECTOR_STORE: "memory",
+    } as unknown as Env);
+
+    const result = await service.syncTenant("hotel-a");
+
+    assert.equal(result.status, "synced");
+    assert.deepEqual(batchRequests, [["Rooms", "Spa"]]);
+    assert.deepEqual(singleRequests, []);
+    assert.ok(store.has("hotel-a:Rooms"));
+    assert.ok(store.has("hotel-a:Spa"));
+  });
+
+  it("resumes a cut-off run with the tenants it had not reached", async () => {
+    const { kv: configKv } = createKV({
+      "hotel-a": tenantConfig,
+      "hotel-b": tenantConfig,
+    });
+    const { kv: cacheKv, store } = createKV({
+      "sync-run:current": JSON.stringify({
+        startedAt: Date.now() - 60 * 60 * 1000,
+        syncedTenantIds: ["hotel-a"],
+      }),
+    });
+    const service = new KnowledgeSyncService({
+      TENAT_CONFIG: configKv,
+      TENAT_KNOWLEDGE_CACHE: cacheKv,
+      VECTOR_STORE: "memory",
+    } as unknown as Env);
+
+    const results = await service.syncAllTenants();
+
+    assert.deepEqual(
+      results.map((result) =>
+        result.status === "synced" ? result.tenantId : result.status
+      ),
+      ["hotel-b"]
+    );
+    assert.equal(store.has("sync-run:current"), false);
+  });
+});
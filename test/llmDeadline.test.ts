@@ -0,0 +1,108 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import OpenAI from "openai";
+import { Env } from "../src/types";
+import { LLMFallbackError, LLMService } from "../src/services/llm";
+
+const originalCreate = OpenAI.Chat.Completions.prototype.create;
+
+describe("LLM fallback chain deadline", () => {
+  afterEach(() => {
+    OpenAI.Chat.Completions.prototype.create = originalCreate;
+  });
+
+  it("stops retrying and falling back once the overall deadline passes", async () => {
+    let calls = 0;
+    // Never answers, only gives up when the call is aborted
+    OpenAI.Chat.Completions.prototype.create = function (
+      _body: unknown,
+      options: { signal: AbortSignal }
+    ) {
+      calls++;
+      return new Promise((_, reject) => {
+        options.signal.addEventListener("abort", () =>
+          reject(new Error("aborted"))
+        );
+      });
+    } as any;
+
+    const service = new LLMService({
+      OPENAI_API_KEY: "deadline-test-key",
+    } as unknown as Env);
+    const startedAt = Date.now();
+
+    await assert.rejects(
+      service.createTaskCompletion(
+        [{ role: "user", content: "Hello", timestamp: Date.now() }],
+        {
+          model: "primary-model",
+          provider: "openai",
+          temperature: 0,
+          alternative: {
+            model: "alternative-model",
+            provider: "openai",
+            temperature: 0,
+          },
+        },
+        { deadline: Date.now() + 300 }
+      ),
+      LLMFallbackError
+    );
+
+    const elapsedMs = Date.now() - startedAt;
+    assert.ok(elapsedMs < 1000, `chain ran for ${elapsedMs}ms`);
+    // Three attempts per chain entry would be six without the deadline
+    assert.ok(calls < 6, `${calls} provider calls were made`);
+  });
+
+  it("caps every chain by the service's own deadline", async () => {
+    let calls = 0;
+    // Never answers, only gives up when the call is aborted
+    OpenAI.Chat.Completions.prototype.create = function (
+      _body: unknown,
+      options: { signal: AbortSignal }
+    ) {
+      calls++;
+      return new Promise((_, reject) => {
+        options.signal.addEventListener("abort", () =>
+          reject(new Error("aborted"))
+        );
+      });
+    } as any;
+
+    const service = new LLMService(
+      { OPENAI_API_KEY: "deadline-test-key" } as unknown as Env,
+      {},
+      Date.now() + 300
+    );
+    const messages = [
+      { role: "user" as const, content: "Hello", timestamp: Date.now() },
+    ];
+    const llmConfig = {
+      model: "primary-model",
+      provider: "openai" as const,
+      temperature: 0,
+      alternative: {
+        model: "alternative-model",
+        provider: "openai" as const,
+        temperature: 0,
+      },
+    };
+    const startedAt = Date.now();
+
+    await assert.rejects(
+      service.createTaskCompletion(messages, llmConfig),
+      LLMFallbackError
+    );
+    const elapsedMs = Date.now() - startedAt;
+    assert.ok(elapsedMs < 1000, `chain ran for ${elapsedMs}ms`);
+
+    // Past the deadline, a later chain gives up without calling the provider
+    const callsBefore = calls;
+    await assert.rejects(
+      service.createTaskCompletion(messages, llmConfig),
+      LLMFallbackError
+    );
+    assert.equal(calls, callsBefore);
+  });
+});
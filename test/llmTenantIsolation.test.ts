@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import OpenAI from "openai";
+import Anthropic from "@anthropic-ai/sdk";
+import { Env } from "../src/types";
+import { TenantConfig } from "../src/tasks/dataCollectionTask";
+import { LLMService } from "../src/services/llm";
+import { TaskLLMConfig } from "../src/config/llmConfig";
+import { encryptSecret, importMasterKey } from "../src/utils/tenantSecrets";
+
+const MASTER_KEY = Buffer.alloc(32, 7).toString("base64");
+
+const env = {
+  TENANT_SECRETS_MASTER_KEY: MASTER_KEY,
+  OPENAI_API_KEY: "default-openai-key",
+  ANTHROPIC_API_KEY: "default-anthropic-key",
+} as unknown as Env;
+
+const taskConfig = (provider: "openai" | "anthropic"): TaskLLMConfig => ({
+  model: "test-model",
+  provider,
+  temperature: 0,
+  alternative: { model: "test-model", provider, temperature: 0 },
+});
+
+interface ProviderCall {
+  provider: string;
+  apiKey: string;
+  tenantId: string; // Taken from the message, so the call can be matched to its request
+}
+
+let calls: ProviderCall[] = [];
+const originalOpenAICreate = OpenAI.Chat.Completions.prototype.create;
+const originalAnthropicCreate = Anthropic.Messages.prototype.create;
+
+// Resolve out of order so requests of different tenants overlap
+const randomDelay = () =>
+  new Promise((resolve) => setTimeout(resolve, Math.random() * 20));
+
+async function tenantConfig(
+  keys: Partial<TenantConfig>
+): Promise<TenantConfig> {
+  const masterKey = await importMasterKey(MASTER_KEY);
+  const config: TenantConfig = {
+    "general-prompt-config": "",
+    "buttons-prompt-config": "",
+    "email-prompt-config": "",
+    "excel-config": "",
+  };
+  for (const [field, value] of Object.entries(keys)) {
+    (config as unknown as Record<string, string>)[field] = await encryptSecret(
+      value as string,
+      masterKey
+    );
+  }
+  return config;
+}
+
+async function ask(
+  config: TenantConfig | null,
+  tenantId: string,
+  provider: "openai" | "anthropic"
+): Promise<void> {
+  const service = await LLMService.forTenant(env, config);
+  await randomDelay();
+  await service.createTaskCompletion(
+    [{ role: "user", content: tenantId, timestamp: Date.now() }],
+    taskConfig(provider)
+  );
+}
+
+describe("tenant-scoped LLM providers", () => {
+  beforeEach(() => {
+    calls = [];
+
+    OpenAI.Chat.Completions.prototype.create = async function (
+      this: any,
+      body: any
+    ) {
+      calls.push({
+        provider: "openai",
+        apiKey: this._client.apiKey,
+        tenantId: body.messages[0].content,
+      });
+      await randomDelay();
+      return {
+        model: body.model,
+        choices: [{ message: { content: "ok" }, finish_reason: "stop" }],
+      };
+    } as any;
+
+    Anthropic.Messages.prototype.create = async function (
+      this: any,
+      body: any
+    ) {
+      calls.push({
+        provider: "anthropic",
+        apiKey: this._client.apiKey,
+        tenantId: body.messages[0].content,
+      });
+      await randomDelay();
+      return {
+        model: body.model,
+        content: [{ type: "text", text: "ok" }],
+        stop_reason: "end_turn",
+        usage: { input_tokens: 1, output_tokens: 1 },
+      };
+    } as any;
+  });
+
+  afterEach(() => {
+    OpenAI.Chat.Completions.prototype.create = originalOpenAICreate;
+    Anthropic.Messages.prototype.create = originalAnthropicCreate;
+  });
+
+  it("gives interleaved requests of two tenants only their own keys", async () => {
+    const configs: Record<string, TenantConfig> = {
+      "hotel-a": await tenantConfig({
+        "openai-api-key": "openai-key-a",
+        "anthropic-api-key": "anthropic-key-a",
+      }),
+      "hotel-b": await tenantConfig({
+        "openai-api-key": "openai-key-b",
+        "anthropic-api-key": "anthropic-key-b",
+      }),
+    };
+    const expectedKeys: Record<string, string> = {
+      "openai:hotel-a": "openai-key-a",
+      "openai:hotel-b": "openai-key-b",
+      "anthropic:hotel-a": "anthropic-key-a",
+      "anthropic:hotel-b": "anthropic-key-b",
+    };
+
+    const requests = Array.from({ length: 20 }, (_, index) => {
+      const tenantId = index % 2 === 0 ? "hotel-a" : "hotel-b";
+      const provider = index % 4 < 2 ? "openai" : "anthropic";
+      return ask(configs[tenantId], tenantId, provider);
+    });
+    await Promise.all(requests);
+
+    assert.equal(calls.length, 20);
+    for (const call of calls) {
+      assert.equal(
+        call.apiKey,
+        expectedKeys[`${call.provider}:${call.tenantId}`],
+        `${call.provider} call of ${call.tenantId} used another key`
+      );
+    }
+  });
+
+  it("uses the default key, never another tenant's, when a tenant has none", async () => {
+    const withKey = await tenantConfig({ "openai-api-key": "openai-key-a" });
+    const withoutKey = await tenantConfig({});
+
+    await Promise.all([
+      ask(withKey, "hotel-a", "openai"),
+      ask(withoutKey, "hotel-b", "openai"),
+      ask(null, "no-config", "openai"),
+      ask(withKey, "hotel-a", "openai"),
+    ]);
+
+    const keysByTenant = Object.fromEntries(
+      calls.map((call) => [call.tenantId, call.apiKey])
+    );
+    assert.deepEqual(keysByTenant, {
+      "hotel-a": "openai-key-a",
+      "hotel-b": "default-openai-key",
+      "no-config": "default-openai-key",
+    });
+  });
+
+  it("falls back to the default key when a tenant key cannot be decrypted", async () => {
+    const config = await tenantConfig({});
+    config["openai-api-key"] =
+      "enc:v1:AAAAAAAAAAAAAAAA:AAAAAAAAAAAAAAAAAAAAAAAA";
+
+    await Promise.all([
+      ask(config, "hotel-broken", "openai"),
+      ask(
+        await tenantConfig({ "openai-api-key": "openai-key-a" }),
+        "hotel-a",
+        "openai"
+      ),
+    ]);
+
+    const keysByTenant = Object.fromEntries(
+      calls.map((call) => [call.tenantId, call.apiKey])
+    );
+    assert.deepEqual(keysByTenant, {
+      "hotel-broken": "default-openai-key",
+      "hotel-a": "openai-key-a",
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ChatMessage, Env, SessionMemory } from "../src/types";
+import { MemoryService } from "../src/services/memory";
+
+// Just enough of KVNamespace for MemoryService
+function createKV() {
+  const store = new Map<string, string>();
+  const kv = {
+    async get(key: string, type?: string) {
+      const value = store.get(key) ?? null;
+      return value !== null && type === "json" ? JSON.parse(value) : value;
+    },
+    async put(key: string, value: string) {
+      store.set(key, value);
+    },
+    async delete(key: string) {
+      store.delete(key);
+    },
+  };
+  return { kv: kv as unknown as KVNamespace, store };
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const message = (content: string, ageMs: number): ChatMessage => ({
+  role: "user",
+  content,
+  timestamp: Date.now() - ageMs,
+});
+
+describe("session memory", () => {
+  it("summarizes messages that left the history window before dropping them", async () => {
+    const { kv, store } = createKV();
+    const memoryService = new MemoryService(
+      { CHAT_SESSIONS: kv, CONTEXT_WINDOW_LENGTH: "15" } as unknown as Env,
+      { historyWindowHours: 4 }
+    );
+    const stored: SessionMemory = {
+      messages: [
+        message("Room 12, arriving Friday", 6 * HOUR_MS),
+        message("Is breakfast included?", 5 * HOUR_MS),
+        message("Do you have parking?", HOUR_MS),
+      ],
+      summary: "Guest asked about the spa",
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+    store.set("session:hotel-a:session-1", JSON.stringify(stored));
+
+    const sessionMemory = await memoryService.getSessionMemory(
+      "hotel-a",
+      "session-1"
+    );
+    assert.ok(sessionMemory);
+    assert.deepEqual(
+      sessionMemory.messages.map((m) => m.content),
+      ["Do you have parking?"]
+    );
+
+    let summarized: { messages: string[]; previousSummary?: string } | null =
+      null;
+    await memoryService.updateSessionWithConversation({
+      tenantId: "hotel-a",
+      sessionId: "session-1",
+      sessionMemory,
+      userMessage: "Thanks",
+      assistantResponse: "You're welcome",
+      summarize: async (evictedMessages, previousSummary) => {
+        summarized = {
+          messages: evictedMessages.map((m) => m.content),
+          previousSummary,
+        };
+        return "Guest in room 12 arrives Friday, asked about breakfast";
+      },
+    });
+
+    assert.deepEqual(summarized, {
+      messages: ["Room 12, arriving Friday", "Is breakfast included?"],
+      previousSummary: "Guest asked about the spa",
+    });
+    const saved = JSON.parse(store.get("session:hotel-a:session-1")!);
+    assert.equal(
+      saved.summary,
+      "Guest in room 12 arrives Friday, asked about breakfast"
+    );
+    assert.equal(saved.expiredMessages, undefined);
+    assert.equal(saved.messages.length, 3);
+  });
+
+  it("keeps every message of an open handoff until the bot answers again", async () => {
+    const { kv, store } = createKV();
+    const memoryService = new MemoryService(
+      { CHAT_SESSIONS: kv, CONTEXT_WINDOW_LENGTH: "2" } as unknown as Env,
+      { historyWindowHours: 4 }
+    );
+    const stored: SessionMemory = {
+      messages: [
+        message("I want to talk to reception", 6 * HOUR_MS),
+        message("Hello?", 5 * HOUR_MS),
+      ],
+      handoff: {
+        status: "waiting",
+        requestedBy: "guest",
+        reason: "Guest asked for staff",
+        requestedAt: new Date(Date.now() - 6 * HOUR_MS).toISOString(),
+        pendingMessages: 2,
+      },
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+    store.set("session:hotel-a:session-1", JSON.stringify(stored));
+
+    const queued = await memoryService.getSessionMemory("hotel-a", "session-1");
+    assert.ok(queued);
+    queued.messages.push(message("Is anyone there?", 0));
+    await memoryService.saveSessionMemory("hotel-a", "session-1", queued);
+
+    const saved: SessionMemory = JSON.parse(
+      store.get("session:hotel-a:session-1")!
+    );
+    assert.deepEqual(
+      saved.messages.map((m) => m.content),
+      ["I want to talk to reception", "Hello?", "Is anyone there?"]
+    );
+    assert.equal(saved.expiredMessages, undefined);
+
+    // Handed back: the next bot turn summarizes what leaves the windows
+    delete saved.handoff;
+    store.set("session:hotel-a:session-1", JSON.stringify(saved));
+    const sessionMemory = await memoryService.getSessionMemory(
+      "hotel-a",
+      "session-1"
+    );
+    assert.ok(sessionMemory);
+    let evicted: string[] = [];
+    await memoryService.updateSessionWithConversation({
+      tenantId: "hotel-a",
+      sessionId: "session-1",
+      sessionMemory,
+      userMessage: "Thanks",
+      assistantResponse: "You're welcome",
+      summarize: async (evictedMessages) => {
+        evicted = evictedMessages.map((m) => m.content);
+        return "Guest waited for reception";
+      },
+    });
+
+    assert.deepEqual(evicted, [
+      "I want to talk to reception",
+      "Hello?",
+      "Is anyone there?",
+    ]);
+    assert.equal(
+      JSON.parse(store.get("session:hotel-a:session-1")!).messages.length,
+      2
+    );
+  });
+});